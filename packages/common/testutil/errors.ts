@@ -0,0 +1,132 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs'
+import { join, relative } from 'path'
+import { utils } from 'ethers'
+
+// Packages whose custom errors are collected, relative to the packages directory
+export const ERROR_PACKAGES = [
+  'perennial',
+  'perennial-oracle',
+  'perennial-vault',
+  'perennial-extensions',
+  'perennial-payoff',
+  'perennial-reward',
+  'perennial-deploy',
+]
+
+const PACKAGES_DIR = join(__dirname, '..', '..')
+
+export interface ErrorSelector {
+  selector: string
+  name: string
+  signature: string
+  // Artifacts declaring or bubbling up the error, as <package>:<contract>
+  contracts: string[]
+}
+
+export type ErrorRegistry = Map<string, ErrorSelector>
+
+export interface SigCommentMismatch {
+  file: string
+  line: number
+  error: string
+  comment: string
+  selector: string
+}
+
+export interface DecodedRevert {
+  name: string
+  signature: string
+  args: utils.Result
+}
+
+// Collects the custom errors of each package's compiled artifacts, so every package must be compiled first
+export function buildErrorRegistry(packagesDir = PACKAGES_DIR, packages = ERROR_PACKAGES): ErrorRegistry {
+  const registry: ErrorRegistry = new Map()
+  for (const pkg of packages) {
+    const artifactsDir = join(packagesDir, pkg, 'artifacts', 'contracts')
+    if (!existsSync(artifactsDir)) throw new Error(`No artifacts found for ${pkg} at ${artifactsDir}, compile it first`)
+
+    for (const file of listFiles(artifactsDir, '.json').filter(file => !file.endsWith('.dbg.json'))) {
+      const { contractName, abi } = JSON.parse(readFileSync(file, 'utf-8'))
+      const iface = new utils.Interface(abi)
+      for (const fragment of Object.values(iface.errors)) {
+        const selector = iface.getSighash(fragment)
+        const entry = registry.get(selector) ?? {
+          selector,
+          name: fragment.name,
+          signature: fragment.format(utils.FormatTypes.sighash),
+          contracts: [],
+        }
+        entry.contracts.push(`${pkg}:${contractName}`)
+        registry.set(selector, entry)
+      }
+    }
+  }
+  return registry
+}
+
+let cachedRegistry: ErrorRegistry | undefined
+
+// Looks up the error of a selector, or of the selector prefixing revert data
+export function lookupError(selectorOrData: string, registry?: ErrorRegistry): ErrorSelector | undefined {
+  if (!registry) registry = cachedRegistry ??= buildErrorRegistry()
+  return registry.get(selectorOrData.slice(0, 10).toLowerCase())
+}
+
+// Decodes revert data into its custom error and arguments, undefined if the selector is not a known custom error
+export function decodeRevert(data: string, registry?: ErrorRegistry): DecodedRevert | undefined {
+  const error = lookupError(data, registry)
+  if (!error) return undefined
+  const iface = new utils.Interface([`error ${error.signature}`])
+  return {
+    name: error.name,
+    signature: error.signature,
+    args: utils.hexDataLength(data) > 4 ? iface.decodeErrorResult(error.name, data) : [],
+  }
+}
+
+// Checks each `// sig:` comment against the selector of the error declared on the following line
+export function checkSigComments(
+  registry: ErrorRegistry,
+  packagesDir = PACKAGES_DIR,
+  packages = ERROR_PACKAGES,
+): { checked: number; mismatches: SigCommentMismatch[] } {
+  const selectorsByName = new Map<string, string[]>()
+  for (const { name, selector } of registry.values())
+    selectorsByName.set(name, [...(selectorsByName.get(name) ?? []), selector])
+
+  let checked = 0
+  const mismatches: SigCommentMismatch[] = []
+  for (const pkg of packages) {
+    for (const file of listFiles(join(packagesDir, pkg, 'contracts'), '.sol')) {
+      const lines = readFileSync(file, 'utf-8').split('\n')
+      lines.forEach((line, i) => {
+        const comment = line.match(/\/\/\s*sig:\s*(0x[0-9a-fA-F]*)/)?.[1]
+        const error = lines[i + 1]?.match(/^\s*error\s+(\w+)\s*\(/)?.[1]
+        if (!comment || !error) return
+
+        // Errors are matched by name, as their declared parameter types are not resolved outside the compiler
+        checked++
+        const selectors = selectorsByName.get(error) ?? []
+        if (!selectors.includes(comment.toLowerCase()))
+          mismatches.push({
+            file: relative(packagesDir, file),
+            line: i + 1,
+            error,
+            comment,
+            selector: selectors.join(', ') || 'not found in artifacts',
+          })
+      })
+    }
+  }
+  return { checked, mismatches }
+}
+
+function listFiles(dir: string, extension: string): string[] {
+  if (!existsSync(dir)) return []
+  return readdirSync(dir).flatMap(entry => {
+    const path = join(dir, entry)
+    if (statSync(path).isDirectory()) return listFiles(path, extension)
+    return path.endsWith(extension) ? [path] : []
+  })
+}
@@ -0,0 +1,70 @@
+import { BigNumber, BigNumberish, constants } from 'ethers'
+
+// Mirrors the UFixed6 and Fixed6 types of @equilibria/root on raw 6 decimal values. Both share the same signed
+// arithmetic here, so a UFixed6 is any non-negative value, and only conversions into one check its sign.
+export const BASE = BigNumber.from(1_000_000)
+export const ZERO = constants.Zero
+export const ONE = BASE
+export const NEG_ONE = BASE.mul(-1)
+export const UFIXED6_MAX = constants.MaxUint256
+
+// Fixed6Lib.from(int256), scaling an integer up to 6 decimals
+export function from(value: BigNumberish): BigNumber {
+  return BigNumber.from(value).mul(BASE)
+}
+
+// UFixed6Lib.from(Fixed6), which reverts on negative values
+export function toUFixed6(value: BigNumberish): BigNumber {
+  const value_ = BigNumber.from(value)
+  if (value_.isNegative()) throw new Error(`UFixed6UnderflowError(${value_})`)
+  return value_
+}
+
+// Rounds toward zero, as both Fixed6.mul and UFixed6.mul do
+export function mul(a: BigNumberish, b: BigNumberish): BigNumber {
+  return BigNumber.from(a).mul(b).div(BASE)
+}
+
+// Rounds toward zero, as both Fixed6.div and UFixed6.div do
+export function div(a: BigNumberish, b: BigNumberish): BigNumber {
+  return BigNumber.from(a).mul(BASE).div(b)
+}
+
+// Fixed6.mulOut, rounding away from zero
+export function mulOut(a: BigNumberish, b: BigNumberish): BigNumber {
+  return roundOut(BigNumber.from(a).mul(b), BASE)
+}
+
+// Fixed6.divOut, rounding away from zero
+export function divOut(a: BigNumberish, b: BigNumberish): BigNumber {
+  return roundOut(BigNumber.from(a).mul(BASE), BigNumber.from(b))
+}
+
+// UFixed6.muldiv, multiplying before dividing so only the final division rounds toward zero
+export function muldiv(a: BigNumberish, b: BigNumberish, c: BigNumberish): BigNumber {
+  return BigNumber.from(a).mul(b).div(c)
+}
+
+// UFixed6.unsafeDiv, where dividing by zero returns one for a zero numerator and the max value otherwise
+export function unsafeDiv(a: BigNumberish, b: BigNumberish): BigNumber {
+  if (BigNumber.from(b).isZero()) return BigNumber.from(a).isZero() ? ONE : UFIXED6_MAX
+  return div(a, b)
+}
+
+export function sign(value: BigNumberish): number {
+  const value_ = BigNumber.from(value)
+  return value_.isZero() ? 0 : value_.isNegative() ? -1 : 1
+}
+
+export function min(a: BigNumberish, b: BigNumberish): BigNumber {
+  return BigNumber.from(a).lt(b) ? BigNumber.from(a) : BigNumber.from(b)
+}
+
+export function max(a: BigNumberish, b: BigNumberish): BigNumber {
+  return BigNumber.from(a).gt(b) ? BigNumber.from(a) : BigNumber.from(b)
+}
+
+function roundOut(numerator: BigNumber, denominator: BigNumber): BigNumber {
+  const quotient = numerator.abs().add(denominator.abs()).sub(1).div(denominator.abs())
+  return sign(numerator) * sign(denominator) < 0 ? quotient.mul(-1) : quotient
+}
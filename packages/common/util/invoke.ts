@@ -0,0 +1,346 @@
+import { BigNumber, BigNumberish, constants, utils } from 'ethers'
+
+// Mirrors IMultiInvoker.PerennialAction
+export enum PerennialAction {
+  NO_OP = 0,
+  UPDATE_POSITION = 1,
+  UPDATE_VAULT = 2,
+  PLACE_ORDER = 3,
+  CANCEL_ORDER = 4,
+  EXEC_ORDER = 5,
+  COMMIT_PRICE = 6,
+  APPROVE = 8,
+}
+
+// Trigger order side, collateral orders may only withdraw
+export enum OrderSide {
+  MAKER = 0,
+  LONG = 1,
+  SHORT = 2,
+  COLLATERAL = 3,
+}
+
+// Trigger order comparison of the latest price against the order price, only lte and gte orders can be placed
+export enum OrderComparison {
+  LTE = -1,
+  GTE = 1,
+}
+
+// Magic values: MAX_UINT leaves a position unchanged, FULLY_CLOSED closes as much of it as is closable, MIN_INT
+// withdraws all collateral
+export const MAX_UINT = constants.MaxUint256
+export const FULLY_CLOSED = constants.MaxUint256.sub(1)
+export const MIN_INT = constants.MinInt256
+// Collateral trigger orders store the delta as an int64, so withdraw all with MIN_INT64 rather than MIN_INT
+export const MIN_INT64 = BigNumber.from('-9223372036854775808')
+
+export interface Invocation {
+  action: PerennialAction
+  args: string
+}
+
+export interface InterfaceFee {
+  amount: BigNumberish
+  receiver: string
+  unwrap: boolean
+}
+
+export interface TriggerOrder {
+  side: OrderSide
+  comparison: OrderComparison
+  fee: BigNumberish
+  price: BigNumberish
+  delta: BigNumberish
+  interfaceFee1?: InterfaceFee
+  interfaceFee2?: InterfaceFee
+}
+
+export interface UpdatePosition {
+  market: string
+  maker?: BigNumberish
+  long?: BigNumberish
+  short?: BigNumberish
+  collateral?: BigNumberish
+  wrap?: boolean
+  interfaceFee1?: InterfaceFee
+  interfaceFee2?: InterfaceFee
+}
+
+export interface UpdateVault {
+  vault: string
+  depositAssets?: BigNumberish
+  redeemShares?: BigNumberish
+  claimAssets?: BigNumberish
+  wrap?: boolean
+}
+
+export interface PlaceOrder {
+  market: string
+  order: TriggerOrder
+}
+
+export interface CancelOrder {
+  market: string
+  nonce: BigNumberish
+}
+
+export interface ExecOrder {
+  account: string
+  market: string
+  nonce: BigNumberish
+}
+
+export interface CommitPrice {
+  oracleProviderFactory: string
+  value: BigNumberish
+  ids: string[]
+  version: BigNumberish
+  data: string
+  revertOnFailure: boolean
+}
+
+export interface Approve {
+  target: string
+}
+
+export interface DecodedInterfaceFee {
+  amount: BigNumber
+  receiver: string
+  unwrap: boolean
+}
+
+export interface DecodedTriggerOrder {
+  side: OrderSide
+  comparison: OrderComparison
+  fee: BigNumber
+  price: BigNumber
+  delta: BigNumber
+  interfaceFee1: DecodedInterfaceFee
+  interfaceFee2: DecodedInterfaceFee
+}
+
+// Decoded invocations, keyed by action, with every omitted field filled in
+export type DecodedInvocation =
+  | { action: PerennialAction.NO_OP }
+  | {
+      action: PerennialAction.UPDATE_POSITION
+      market: string
+      maker: BigNumber
+      long: BigNumber
+      short: BigNumber
+      collateral: BigNumber
+      wrap: boolean
+      interfaceFee1: DecodedInterfaceFee
+      interfaceFee2: DecodedInterfaceFee
+    }
+  | {
+      action: PerennialAction.UPDATE_VAULT
+      vault: string
+      depositAssets: BigNumber
+      redeemShares: BigNumber
+      claimAssets: BigNumber
+      wrap: boolean
+    }
+  | { action: PerennialAction.PLACE_ORDER; market: string; order: DecodedTriggerOrder }
+  | { action: PerennialAction.CANCEL_ORDER; market: string; nonce: BigNumber }
+  | { action: PerennialAction.EXEC_ORDER; account: string; market: string; nonce: BigNumber }
+  | {
+      action: PerennialAction.COMMIT_PRICE
+      oracleProviderFactory: string
+      value: BigNumber
+      ids: string[]
+      version: BigNumber
+      data: string
+      revertOnFailure: boolean
+    }
+  | { action: PerennialAction.APPROVE; target: string }
+
+// ABI of each action's args, matching the abi.decode in MultiInvoker.invoke
+const INTERFACE_FEE = 'tuple(uint256 amount, address receiver, bool unwrap)'
+const TRIGGER_ORDER = `tuple(uint8 side, int8 comparison, uint256 fee, int256 price, int256 delta, ${INTERFACE_FEE} interfaceFee1, ${INTERFACE_FEE} interfaceFee2)`
+export const ACTION_ARGS: { [action in PerennialAction]: string[] } = {
+  [PerennialAction.NO_OP]: [],
+  [PerennialAction.UPDATE_POSITION]: [
+    'address market',
+    'uint256 maker',
+    'uint256 long',
+    'uint256 short',
+    'int256 collateral',
+    'bool wrap',
+    `${INTERFACE_FEE} interfaceFee1`,
+    `${INTERFACE_FEE} interfaceFee2`,
+  ],
+  [PerennialAction.UPDATE_VAULT]: [
+    'address vault',
+    'uint256 depositAssets',
+    'uint256 redeemShares',
+    'uint256 claimAssets',
+    'bool wrap',
+  ],
+  [PerennialAction.PLACE_ORDER]: ['address market', `${TRIGGER_ORDER} order`],
+  [PerennialAction.CANCEL_ORDER]: ['address market', 'uint256 nonce'],
+  [PerennialAction.EXEC_ORDER]: ['address account', 'address market', 'uint256 nonce'],
+  [PerennialAction.COMMIT_PRICE]: [
+    'address oracleProviderFactory',
+    'uint256 value',
+    'bytes32[] ids',
+    'uint256 version',
+    'bytes data',
+    'bool revertOnFailure',
+  ],
+  [PerennialAction.APPROVE]: ['address target'],
+}
+
+export const MultiInvokerInvokeABI = ['function invoke(tuple(uint8 action, bytes args)[] invocations) payable']
+
+const NO_INTERFACE_FEE: InterfaceFee = { amount: 0, receiver: constants.AddressZero, unwrap: false }
+
+const encode = (action: PerennialAction, values: unknown[]): Invocation => ({
+  action,
+  args: utils.defaultAbiCoder.encode(ACTION_ARGS[action], values),
+})
+
+const encodeInterfaceFee = (fee: InterfaceFee = NO_INTERFACE_FEE) => [fee.amount, fee.receiver, fee.unwrap]
+
+// Updates the sender's position, omitted sides are left unchanged and omitted collateral is not moved
+export const buildUpdatePosition = ({
+  market,
+  maker = MAX_UINT,
+  long = MAX_UINT,
+  short = MAX_UINT,
+  collateral = 0,
+  wrap = false,
+  interfaceFee1,
+  interfaceFee2,
+}: UpdatePosition): Invocation =>
+  encode(PerennialAction.UPDATE_POSITION, [
+    market,
+    maker,
+    long,
+    short,
+    collateral,
+    wrap,
+    encodeInterfaceFee(interfaceFee1),
+    encodeInterfaceFee(interfaceFee2),
+  ])
+
+export const buildUpdateVault = ({
+  vault,
+  depositAssets = 0,
+  redeemShares = 0,
+  claimAssets = 0,
+  wrap = false,
+}: UpdateVault): Invocation =>
+  encode(PerennialAction.UPDATE_VAULT, [vault, depositAssets, redeemShares, claimAssets, wrap])
+
+export const buildPlaceOrder = ({ market, order }: PlaceOrder): Invocation =>
+  encode(PerennialAction.PLACE_ORDER, [
+    market,
+    [
+      order.side,
+      order.comparison,
+      order.fee,
+      order.price,
+      order.delta,
+      encodeInterfaceFee(order.interfaceFee1),
+      encodeInterfaceFee(order.interfaceFee2),
+    ],
+  ])
+
+export const buildCancelOrder = ({ market, nonce }: CancelOrder): Invocation =>
+  encode(PerennialAction.CANCEL_ORDER, [market, nonce])
+
+export const buildExecOrder = ({ account, market, nonce }: ExecOrder): Invocation =>
+  encode(PerennialAction.EXEC_ORDER, [account, market, nonce])
+
+export const buildCommitPrice = ({
+  oracleProviderFactory,
+  value,
+  ids,
+  version,
+  data,
+  revertOnFailure,
+}: CommitPrice): Invocation =>
+  encode(PerennialAction.COMMIT_PRICE, [oracleProviderFactory, value, ids, version, data, revertOnFailure])
+
+// Approves the target market or vault to pull DSU from the invoker
+export const buildApprove = ({ target }: Approve): Invocation => encode(PerennialAction.APPROVE, [target])
+
+const decodeInterfaceFee = (fee: utils.Result): DecodedInterfaceFee => ({
+  amount: fee.amount,
+  receiver: fee.receiver,
+  unwrap: fee.unwrap,
+})
+
+// Decodes an invocation's args by its action, throwing on an action the invoker does not handle
+export function decodeInvocation({ action, args }: { action: BigNumberish; args: string }): DecodedInvocation {
+  const action_ = BigNumber.from(action).toNumber() as PerennialAction
+  if (!(action_ in ACTION_ARGS)) throw new Error(`Unknown action ${action_}`)
+  if (action_ === PerennialAction.NO_OP) return { action: action_ }
+
+  const values = utils.defaultAbiCoder.decode(ACTION_ARGS[action_], args)
+  switch (action_) {
+    case PerennialAction.UPDATE_POSITION:
+      return {
+        action: action_,
+        market: values.market,
+        maker: values.maker,
+        long: values.long,
+        short: values.short,
+        collateral: values.collateral,
+        wrap: values.wrap,
+        interfaceFee1: decodeInterfaceFee(values.interfaceFee1),
+        interfaceFee2: decodeInterfaceFee(values.interfaceFee2),
+      }
+    case PerennialAction.UPDATE_VAULT:
+      return {
+        action: action_,
+        vault: values.vault,
+        depositAssets: values.depositAssets,
+        redeemShares: values.redeemShares,
+        claimAssets: values.claimAssets,
+        wrap: values.wrap,
+      }
+    case PerennialAction.PLACE_ORDER:
+      return {
+        action: action_,
+        market: values.market,
+        order: {
+          side: values.order.side,
+          comparison: values.order.comparison,
+          fee: values.order.fee,
+          price: values.order.price,
+          delta: values.order.delta,
+          interfaceFee1: decodeInterfaceFee(values.order.interfaceFee1),
+          interfaceFee2: decodeInterfaceFee(values.order.interfaceFee2),
+        },
+      }
+    case PerennialAction.CANCEL_ORDER:
+      return { action: action_, market: values.market, nonce: values.nonce }
+    case PerennialAction.EXEC_ORDER:
+      return { action: action_, account: values.account, market: values.market, nonce: values.nonce }
+    case PerennialAction.COMMIT_PRICE:
+      return {
+        action: action_,
+        oracleProviderFactory: values.oracleProviderFactory,
+        value: values.value,
+        ids: values.ids,
+        version: values.version,
+        data: values.data,
+        revertOnFailure: values.revertOnFailure,
+      }
+    case PerennialAction.APPROVE:
+      return { action: action_, target: values.target }
+  }
+}
+
+// Encodes the calldata of an invoke call
+export function encodeInvoke(invocations: Invocation[]): string {
+  return new utils.Interface(MultiInvokerInvokeABI).encodeFunctionData('invoke', [invocations])
+}
+
+// Decodes the calldata of an invoke call into its invocations
+export function decodeInvoke(data: string): DecodedInvocation[] {
+  const [invocations] = new utils.Interface(MultiInvokerInvokeABI).decodeFunctionData('invoke', data)
+  return (invocations as utils.Result[]).map(({ action, args }) => decodeInvocation({ action, args }))
+}
@@ -0,0 +1,30 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { PositionSize } from './position'
+import { Version, accumulated, accumulatedReward } from './version'
+
+export interface LocalAccumulationResult {
+  collateralAmount: BigNumber
+  rewardAmount: BigNumber
+  positionFee: BigNumber
+  keeper: BigNumber
+}
+
+// Mirrors Local.accumulate, returning the values it settles into the account's local, whose collateral changes by
+// collateralAmount - positionFee - keeper
+export function accumulateLocal(
+  fromPosition: PositionSize,
+  toPosition: { fee: BigNumberish; keeper: BigNumberish },
+  fromVersion: Version,
+  toVersion: Version,
+): LocalAccumulationResult {
+  return {
+    collateralAmount: accumulated(toVersion.makerValue, fromVersion.makerValue, fromPosition.maker)
+      .add(accumulated(toVersion.longValue, fromVersion.longValue, fromPosition.long))
+      .add(accumulated(toVersion.shortValue, fromVersion.shortValue, fromPosition.short)),
+    rewardAmount: accumulatedReward(toVersion.makerReward, fromVersion.makerReward, fromPosition.maker)
+      .add(accumulatedReward(toVersion.longReward, fromVersion.longReward, fromPosition.long))
+      .add(accumulatedReward(toVersion.shortReward, fromVersion.shortReward, fromPosition.short)),
+    positionFee: BigNumber.from(toPosition.fee),
+    keeper: BigNumber.from(toPosition.keeper),
+  }
+}
@@ -0,0 +1,141 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import * as Fixed6 from './fixed6'
+import type { PositionSize } from './position'
+
+// Mirrors the Order type, where maker, long and short are signed deltas of the position
+export interface Order {
+  maker: BigNumber
+  long: BigNumber
+  short: BigNumber
+  net: BigNumber
+  skew: BigNumber
+  impact: BigNumber
+  utilization: BigNumber
+  efficiency: BigNumber
+  fee: BigNumber
+  keeper: BigNumber
+}
+
+export interface OrderFeeRiskParameter {
+  takerFee: BigNumberish
+  takerSkewFee: BigNumberish
+  takerImpactFee: BigNumberish
+  makerFee: BigNumberish
+  makerImpactFee: BigNumberish
+}
+
+export interface OrderFeeMarketParameter {
+  settlementFee: BigNumberish
+  closed: boolean
+}
+
+export interface LiquidationFeeRiskParameter {
+  maintenance: BigNumberish
+  minMaintenance: BigNumberish
+  liquidationFee: BigNumberish
+  minLiquidationFee: BigNumberish
+  maxLiquidationFee: BigNumberish
+}
+
+export interface CloseMarketParameter {
+  closed: boolean
+  makerCloseAlways: boolean
+  takerCloseAlways: boolean
+}
+
+// Mirrors Order.registerFee, returning the order with its position fee and keeper fee set
+export function registerFee(
+  order: Order,
+  price: BigNumberish,
+  marketParameter: OrderFeeMarketParameter,
+  riskParameter: OrderFeeRiskParameter,
+): Order {
+  const priceAbs = BigNumber.from(price).abs()
+  const makerFee = Fixed6.max(
+    BigNumber.from(riskParameter.makerFee).add(Fixed6.mul(riskParameter.makerImpactFee, order.utilization)),
+    Fixed6.ZERO,
+  )
+  const takerFee = Fixed6.max(
+    BigNumber.from(riskParameter.takerFee)
+      .add(Fixed6.mul(riskParameter.takerSkewFee, order.skew))
+      .add(Fixed6.mul(riskParameter.takerImpactFee, order.impact)),
+    Fixed6.ZERO,
+  )
+  const fee = Fixed6.mul(Fixed6.mul(order.maker.abs(), priceAbs), makerFee).add(
+    Fixed6.mul(Fixed6.mul(order.long.abs().add(order.short.abs()), priceAbs), takerFee),
+  )
+
+  return {
+    ...order,
+    fee: marketParameter.closed ? Fixed6.ZERO : fee,
+    keeper: isEmpty(order) ? Fixed6.ZERO : BigNumber.from(marketParameter.settlementFee),
+  }
+}
+
+// Mirrors Order.magnitude, the sum of the signed deltas
+export function orderMagnitude(order: Order): BigNumber {
+  return order.maker.add(order.long).add(order.short)
+}
+
+// Mirrors Order.isEmpty
+export function isEmpty(order: Order): boolean {
+  return orderMagnitude(order).isZero()
+}
+
+// Mirrors Order.increasesPosition
+export function increasesPosition(order: Order): boolean {
+  return increasesMaker(order) || increasesTaker(order)
+}
+
+// Mirrors Order.increasesTaker
+export function increasesTaker(order: Order): boolean {
+  return order.long.gt(0) || order.short.gt(0)
+}
+
+// Mirrors Order.increasesMaker
+export function increasesMaker(order: Order): boolean {
+  return order.maker.gt(0)
+}
+
+// Mirrors Order.decreasesLiquidity
+export function decreasesLiquidity(order: Order): boolean {
+  return order.maker.lt(order.net)
+}
+
+// Mirrors Order.singleSided
+export function singleSided(order: Order, currentPosition: PositionSize): boolean {
+  const [maker, long, short] = [currentPosition.maker, currentPosition.long, currentPosition.short].map(size =>
+    BigNumber.from(size).isZero(),
+  )
+  return (
+    (order.maker.isZero() && order.long.isZero() && maker && long) ||
+    (order.long.isZero() && order.short.isZero() && long && short) ||
+    (order.short.isZero() && order.maker.isZero() && short && maker)
+  )
+}
+
+// Mirrors Order.liquidityCheckApplicable
+export function liquidityCheckApplicable(order: Order, marketParameter: CloseMarketParameter): boolean {
+  return (
+    !marketParameter.closed &&
+    (order.maker.isZero() || !marketParameter.makerCloseAlways || increasesMaker(order)) &&
+    ((order.long.isZero() && order.short.isZero()) || !marketParameter.takerCloseAlways || increasesTaker(order))
+  )
+}
+
+// Mirrors Order.liquidationFee
+export function liquidationFee(
+  order: Order,
+  price: BigNumberish,
+  riskParameter: LiquidationFeeRiskParameter,
+): BigNumber {
+  if (isEmpty(order)) return Fixed6.ZERO
+  const partialMaintenance = Fixed6.max(
+    Fixed6.mul(Fixed6.mul(orderMagnitude(order).abs(), BigNumber.from(price).abs()), riskParameter.maintenance),
+    riskParameter.minMaintenance,
+  )
+  return Fixed6.max(
+    Fixed6.min(Fixed6.mul(partialMaintenance, riskParameter.liquidationFee), riskParameter.maxLiquidationFee),
+    riskParameter.minLiquidationFee,
+  )
+}
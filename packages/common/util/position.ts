@@ -0,0 +1,202 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import * as Fixed6 from './fixed6'
+import { Order, orderMagnitude } from './order'
+
+const BASE = Fixed6.BASE
+
+export interface PositionSize {
+  maker: BigNumberish
+  long: BigNumberish
+  short: BigNumberish
+}
+
+export interface CollateralRequirement {
+  margin: BigNumberish
+  maintenance: BigNumberish
+  minMargin: BigNumberish
+  minMaintenance: BigNumberish
+}
+
+export interface SkewScale {
+  skewScale: BigNumberish
+}
+
+// Mirrors Position.magnitude
+export function magnitude(position: PositionSize): BigNumber {
+  return [position.maker, position.long, position.short]
+    .map(size => BigNumber.from(size))
+    .reduce((max, size) => (size.gt(max) ? size : max))
+}
+
+// Mirrors Position.major
+export function major(position: PositionSize): BigNumber {
+  return Fixed6.max(position.long, position.short)
+}
+
+// Mirrors Position.minor
+export function minor(position: PositionSize): BigNumber {
+  return Fixed6.min(position.long, position.short)
+}
+
+// Mirrors Position.net
+export function net(position: PositionSize): BigNumber {
+  return BigNumber.from(position.long).sub(position.short).abs()
+}
+
+// Mirrors Position.relativeSkew
+export function relativeSkew(position: PositionSize): BigNumber {
+  return skew(position, major(position))
+}
+
+// Mirrors Position.staticSkew, which is not clamped to [-1, 1]
+export function staticSkew(position: PositionSize, riskParameter: SkewScale): BigNumber {
+  return skew(position, BigNumber.from(riskParameter.skewScale))
+}
+
+// Mirrors Position.socializedSkew
+export function socializedSkew(position: PositionSize): BigNumber {
+  const socialized = takerSocialized(position)
+  return socialized.isZero() ? Fixed6.ZERO : Fixed6.div(socialized.sub(minor(position)), socialized)
+}
+
+// Mirrors Position.utilization
+export function utilization(position: PositionSize): BigNumber {
+  return Fixed6.min(Fixed6.unsafeDiv(major(position), minor(position).add(position.maker)), Fixed6.ONE)
+}
+
+// Mirrors Position.longSocialized
+export function longSocialized(position: PositionSize): BigNumber {
+  return Fixed6.min(BigNumber.from(position.maker).add(position.short), position.long)
+}
+
+// Mirrors Position.shortSocialized
+export function shortSocialized(position: PositionSize): BigNumber {
+  return Fixed6.min(BigNumber.from(position.maker).add(position.long), position.short)
+}
+
+// Mirrors Position.takerSocialized
+export function takerSocialized(position: PositionSize): BigNumber {
+  return Fixed6.min(major(position), minor(position).add(position.maker))
+}
+
+// Mirrors Position.efficiency
+export function efficiency(position: PositionSize): BigNumber {
+  return Fixed6.min(Fixed6.unsafeDiv(position.maker, major(position)), Fixed6.ONE)
+}
+
+// Mirrors Position.socialized
+export function socialized(position: PositionSize): boolean {
+  return (
+    BigNumber.from(position.maker).add(position.short).lt(position.long) ||
+    BigNumber.from(position.maker).add(position.long).lt(position.short)
+  )
+}
+
+// Mirrors Position.maintenance
+export function maintenance(
+  positionMagnitude: BigNumber,
+  price: BigNumber,
+  riskParameter: CollateralRequirement,
+): BigNumber {
+  return collateralRequirement(positionMagnitude, price, riskParameter.maintenance, riskParameter.minMaintenance)
+}
+
+// Mirrors Position.margin
+export function margin(
+  positionMagnitude: BigNumber,
+  price: BigNumber,
+  riskParameter: CollateralRequirement,
+): BigNumber {
+  return collateralRequirement(positionMagnitude, price, riskParameter.margin, riskParameter.minMargin)
+}
+
+// Mirrors Position.maintained, where negative collateral counts as zero
+export function maintained(
+  positionMagnitude: BigNumber,
+  price: BigNumber,
+  riskParameter: CollateralRequirement,
+  collateral: BigNumberish,
+): boolean {
+  return Fixed6.max(collateral, 0).gte(maintenance(positionMagnitude, price, riskParameter))
+}
+
+// Mirrors Position.margined, where negative collateral counts as zero
+export function margined(
+  positionMagnitude: BigNumber,
+  price: BigNumber,
+  riskParameter: CollateralRequirement,
+  collateral: BigNumberish,
+): boolean {
+  return Fixed6.max(collateral, 0).gte(margin(positionMagnitude, price, riskParameter))
+}
+
+// Mirrors Position.update(currentTimestamp, newMaker, newLong, newShort), returning the order that moves the position
+// to the new sizes, with every computed attribute left zero
+export function orderTo(position: PositionSize, newPosition: PositionSize): Order {
+  return {
+    maker: BigNumber.from(newPosition.maker).sub(position.maker),
+    long: BigNumber.from(newPosition.long).sub(position.long),
+    short: BigNumber.from(newPosition.short).sub(position.short),
+    net: Fixed6.ZERO,
+    skew: Fixed6.ZERO,
+    impact: Fixed6.ZERO,
+    utilization: Fixed6.ZERO,
+    efficiency: Fixed6.ZERO,
+    fee: Fixed6.ZERO,
+    keeper: Fixed6.ZERO,
+  }
+}
+
+// Mirrors Position.update(currentTimestamp, order, riskParameter), returning the updated position and the order with
+// its net, skew, impact, efficiency and utilization deltas filled in
+export function applyOrder(
+  position: PositionSize,
+  order: Order,
+  riskParameter: SkewScale,
+): { position: PositionSize; order: Order } {
+  const newPosition = {
+    maker: Fixed6.toUFixed6(BigNumber.from(position.maker).add(order.maker)),
+    long: Fixed6.toUFixed6(BigNumber.from(position.long).add(order.long)),
+    short: Fixed6.toUFixed6(BigNumber.from(position.short).add(order.short)),
+  }
+
+  // the impact is the average static skew over the order, signed by the direction the order moves it in
+  const latestStaticSkew = staticSkew(position, riskParameter)
+  const currentStaticSkew = staticSkew(newPosition, riskParameter)
+  const impact = currentStaticSkew.eq(latestStaticSkew)
+    ? Fixed6.ZERO
+    : Fixed6.div(
+        latestStaticSkew.add(currentStaticSkew),
+        Fixed6.from(2 * Fixed6.sign(currentStaticSkew.sub(latestStaticSkew))),
+      )
+
+  return {
+    position: newPosition,
+    order: {
+      ...order,
+      net: net(newPosition).sub(net(position)),
+      skew: BigNumber.from(riskParameter.skewScale).isZero()
+        ? Fixed6.ZERO
+        : Fixed6.div(orderMagnitude(order).abs(), riskParameter.skewScale),
+      impact,
+      efficiency: efficiency(newPosition).sub(efficiency(position)),
+      utilization: utilization(newPosition).sub(utilization(position)),
+    },
+  }
+}
+
+function skew(position: PositionSize, denominator: BigNumber): BigNumber {
+  return denominator.isZero() ? Fixed6.ZERO : Fixed6.div(BigNumber.from(position.long).sub(position.short), denominator)
+}
+
+// Mirrors Position._collateralRequirement, rounding down on each UFixed6 multiplication
+function collateralRequirement(
+  positionMagnitude: BigNumber,
+  price: BigNumber,
+  requirementRatio: BigNumberish,
+  requirementFixed: BigNumberish,
+): BigNumber {
+  if (positionMagnitude.isZero()) return BigNumber.from(0)
+  const requirement = positionMagnitude.mul(price.abs()).div(BASE).mul(requirementRatio).div(BASE)
+  return requirement.gt(requirementFixed) ? requirement : BigNumber.from(requirementFixed)
+}
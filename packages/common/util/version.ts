@@ -0,0 +1,372 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import * as Fixed6 from './fixed6'
+import {
+  PositionSize,
+  SkewScale,
+  longSocialized,
+  major,
+  relativeSkew,
+  shortSocialized,
+  socializedSkew,
+  staticSkew,
+  takerSocialized,
+  utilization,
+} from './position'
+
+const YEAR = 365 * 24 * 60 * 60
+
+export interface Accumulator {
+  _value: BigNumber
+}
+
+export interface Version {
+  valid: boolean
+  makerValue: Accumulator
+  longValue: Accumulator
+  shortValue: Accumulator
+  makerReward: Accumulator
+  longReward: Accumulator
+  shortReward: Accumulator
+}
+
+export interface PAccumulator {
+  _value: BigNumber
+  _skew: BigNumber
+}
+
+export interface OracleVersion {
+  timestamp: BigNumberish
+  price: BigNumberish
+  valid: boolean
+}
+
+export interface PController {
+  k: BigNumberish
+  max: BigNumberish
+}
+
+export interface UtilizationCurve {
+  minRate: BigNumberish
+  maxRate: BigNumberish
+  targetRate: BigNumberish
+  targetUtilization: BigNumberish
+}
+
+export interface VersionMarketParameter {
+  fundingFee: BigNumberish
+  interestFee: BigNumberish
+  positionFee: BigNumberish
+  closed: boolean
+}
+
+export interface VersionRiskParameter extends SkewScale {
+  pController: PController
+  utilizationCurve: UtilizationCurve
+  makerReceiveOnly: boolean
+}
+
+// Mirrors VersionAccumulationResult, rewards are not accumulated by the version and are always zero
+export interface VersionAccumulationResult {
+  positionFeeMaker: BigNumber
+  positionFeeFee: BigNumber
+  fundingMaker: BigNumber
+  fundingLong: BigNumber
+  fundingShort: BigNumber
+  fundingFee: BigNumber
+  interestMaker: BigNumber
+  interestLong: BigNumber
+  interestShort: BigNumber
+  interestFee: BigNumber
+  pnlMaker: BigNumber
+  pnlLong: BigNumber
+  pnlShort: BigNumber
+  rewardMaker: BigNumber
+  rewardLong: BigNumber
+  rewardShort: BigNumber
+}
+
+// Mirrors Version.accumulate, returning the accumulated version and the global's updated pAccumulator rather than
+// modifying either in place
+export function accumulate(
+  version: Version,
+  pAccumulator: PAccumulator,
+  fromPosition: PositionSize,
+  toPosition: PositionSize & { fee: BigNumberish },
+  fromOracleVersion: OracleVersion,
+  toOracleVersion: OracleVersion,
+  marketParameter: VersionMarketParameter,
+  riskParameter: VersionRiskParameter,
+): { version: Version; pAccumulator: PAccumulator; values: VersionAccumulationResult; totalFee: BigNumber } {
+  const next: Version = {
+    ...version,
+    valid: toOracleVersion.valid,
+    makerValue: { ...version.makerValue },
+    longValue: { ...version.longValue },
+    shortValue: { ...version.shortValue },
+  }
+  const values: VersionAccumulationResult = {
+    positionFeeMaker: Fixed6.ZERO,
+    positionFeeFee: Fixed6.ZERO,
+    fundingMaker: Fixed6.ZERO,
+    fundingLong: Fixed6.ZERO,
+    fundingShort: Fixed6.ZERO,
+    fundingFee: Fixed6.ZERO,
+    interestMaker: Fixed6.ZERO,
+    interestLong: Fixed6.ZERO,
+    interestShort: Fixed6.ZERO,
+    interestFee: Fixed6.ZERO,
+    pnlMaker: Fixed6.ZERO,
+    pnlLong: Fixed6.ZERO,
+    pnlShort: Fixed6.ZERO,
+    rewardMaker: Fixed6.ZERO,
+    rewardLong: Fixed6.ZERO,
+    rewardShort: Fixed6.ZERO,
+  }
+
+  accumulatePositionFee(next, values, fromPosition, toPosition, marketParameter)
+  if (marketParameter.closed) return { version: next, pAccumulator, values, totalFee: values.positionFeeFee }
+
+  const nextPAccumulator = accumulateFunding(
+    next,
+    values,
+    pAccumulator,
+    fromPosition,
+    toPosition,
+    fromOracleVersion,
+    toOracleVersion,
+    marketParameter,
+    riskParameter,
+  )
+  accumulateInterest(next, values, fromPosition, fromOracleVersion, toOracleVersion, marketParameter, riskParameter)
+  accumulatePnl(next, values, fromPosition, fromOracleVersion, toOracleVersion)
+
+  return {
+    version: next,
+    pAccumulator: nextPAccumulator,
+    values,
+    totalFee: values.positionFeeFee.add(values.fundingFee).add(values.interestFee),
+  }
+}
+
+// Mirrors Accumulator6.accumulated, the value accrued by a position of the given size between two accumulators,
+// rounding losses away from zero
+export function accumulated(to: Accumulator, from: Accumulator, total: BigNumberish): BigNumber {
+  const delta = to._value.sub(from._value)
+  return delta.isNegative() ? Fixed6.mulOut(delta, total) : Fixed6.mul(delta, total)
+}
+
+// Mirrors UAccumulator6.accumulated
+export function accumulatedReward(to: Accumulator, from: Accumulator, total: BigNumberish): BigNumber {
+  return Fixed6.mul(to._value.sub(from._value), total)
+}
+
+// Mirrors PController6.compute, where the rate moves linearly with the skew and is capped at the max, and the returned
+// intercept timestamp (in 6 decimals) marks where it reached the cap. A rate already past the cap snaps to it at once.
+export function computePController(
+  controller: PController,
+  value: BigNumberish,
+  skew: BigNumberish,
+  fromTimestamp: BigNumberish,
+  toTimestamp: BigNumberish,
+): { newValue: BigNumber; interceptTimestamp: BigNumber } {
+  const value_ = BigNumber.from(value)
+  const timeDelta = Fixed6.from(BigNumber.from(toTimestamp).sub(fromTimestamp))
+  const newValueUncapped = value_.add(Fixed6.div(Fixed6.mul(timeDelta, skew), controller.k))
+  const newValue = Fixed6.min(controller.max, newValueUncapped.abs()).mul(Fixed6.sign(newValueUncapped))
+
+  const range = newValueUncapped.sub(value_)
+  if (range.isZero()) return { newValue, interceptTimestamp: Fixed6.from(toTimestamp) }
+
+  const buffer = value_.abs().gt(controller.max)
+    ? Fixed6.ZERO
+    : Fixed6.muldiv(BigNumber.from(controller.max).mul(Fixed6.sign(range)).sub(value_).abs(), timeDelta, range.abs())
+  return { newValue, interceptTimestamp: Fixed6.from(fromTimestamp).add(Fixed6.min(timeDelta, buffer)) }
+}
+
+// Mirrors UJumpRateUtilizationCurve6.compute
+export function computeUtilizationCurve(curve: UtilizationCurve, utilization: BigNumberish): BigNumber {
+  if (BigNumber.from(utilization).lt(curve.targetUtilization))
+    return linearInterpolation(Fixed6.ZERO, curve.minRate, curve.targetUtilization, curve.targetRate, utilization)
+  if (BigNumber.from(utilization).lt(Fixed6.ONE))
+    return linearInterpolation(curve.targetUtilization, curve.targetRate, Fixed6.ONE, curve.maxRate, utilization)
+  return BigNumber.from(curve.maxRate)
+}
+
+function accumulatePositionFee(
+  version: Version,
+  values: VersionAccumulationResult,
+  fromPosition: PositionSize,
+  toPosition: { fee: BigNumberish },
+  marketParameter: VersionMarketParameter,
+) {
+  const toPositionFeeAbs = BigNumber.from(toPosition.fee).abs()
+
+  // If there are no makers to distribute the taker's position fee to, give it to the protocol
+  if (BigNumber.from(fromPosition.maker).isZero()) {
+    values.positionFeeFee = toPositionFeeAbs
+    return
+  }
+
+  values.positionFeeFee = Fixed6.mul(marketParameter.positionFee, toPositionFeeAbs)
+  values.positionFeeMaker = BigNumber.from(toPosition.fee).sub(values.positionFeeFee)
+  increment(version.makerValue, values.positionFeeMaker, fromPosition.maker)
+}
+
+function accumulateFunding(
+  version: Version,
+  values: VersionAccumulationResult,
+  pAccumulator: PAccumulator,
+  fromPosition: PositionSize,
+  toPosition: PositionSize,
+  fromOracleVersion: OracleVersion,
+  toOracleVersion: OracleVersion,
+  marketParameter: VersionMarketParameter,
+  riskParameter: VersionRiskParameter,
+): PAccumulator {
+  // Compute long-short funding rate
+  const skew = Fixed6.max(Fixed6.min(staticSkew(toPosition, riskParameter), Fixed6.ONE), Fixed6.NEG_ONE)
+  const { funding: funding_, pAccumulator: nextPAccumulator } = accumulatePAccumulator(
+    pAccumulator,
+    riskParameter.pController,
+    skew,
+    fromOracleVersion.timestamp,
+    toOracleVersion.timestamp,
+    Fixed6.mul(takerSocialized(fromPosition), BigNumber.from(fromOracleVersion.price).abs()),
+  )
+
+  // Handle maker receive-only status
+  let funding = funding_
+  if (riskParameter.makerReceiveOnly && Fixed6.sign(funding) !== Fixed6.sign(relativeSkew(fromPosition)))
+    funding = Fixed6.mul(funding, Fixed6.NEG_ONE)
+
+  // Compute fee spread, and adjust long and short funding with it
+  values.fundingFee = Fixed6.mul(funding.abs(), marketParameter.fundingFee)
+  const fundingSpread = Fixed6.div(values.fundingFee, Fixed6.from(2))
+  values.fundingLong = Fixed6.mul(Fixed6.NEG_ONE, funding).sub(values.fundingFee).add(fundingSpread)
+  values.fundingShort = funding.sub(fundingSpread)
+
+  // Redirect net portion of minor's side to maker
+  if (BigNumber.from(fromPosition.long).gt(fromPosition.short)) {
+    values.fundingMaker = Fixed6.mul(values.fundingShort, socializedSkew(fromPosition))
+    values.fundingShort = values.fundingShort.sub(values.fundingMaker)
+  }
+  if (BigNumber.from(fromPosition.short).gt(fromPosition.long)) {
+    values.fundingMaker = Fixed6.mul(values.fundingLong, socializedSkew(fromPosition))
+    values.fundingLong = values.fundingLong.sub(values.fundingMaker)
+  }
+
+  increment(version.makerValue, values.fundingMaker, fromPosition.maker)
+  increment(version.longValue, values.fundingLong, fromPosition.long)
+  increment(version.shortValue, values.fundingShort, fromPosition.short)
+
+  return nextPAccumulator
+}
+
+function accumulateInterest(
+  version: Version,
+  values: VersionAccumulationResult,
+  position: PositionSize,
+  fromOracleVersion: OracleVersion,
+  toOracleVersion: OracleVersion,
+  marketParameter: VersionMarketParameter,
+  riskParameter: VersionRiskParameter,
+) {
+  const notional = Fixed6.mul(
+    Fixed6.min(BigNumber.from(position.long).add(position.short), position.maker),
+    BigNumber.from(fromOracleVersion.price).abs(),
+  )
+
+  // Compute maker interest
+  const elapsed = Fixed6.from(BigNumber.from(toOracleVersion.timestamp).sub(fromOracleVersion.timestamp))
+  const interest = Fixed6.div(
+    Fixed6.mul(
+      Fixed6.mul(computeUtilizationCurve(riskParameter.utilizationCurve, utilization(position)), elapsed),
+      notional,
+    ),
+    Fixed6.from(YEAR),
+  )
+
+  // Compute fee
+  values.interestFee = Fixed6.mul(interest, marketParameter.interestFee)
+
+  // Adjust long and short funding with spread
+  const interestLong = major(position).isZero()
+    ? interest
+    : Fixed6.muldiv(interest, position.long, BigNumber.from(position.long).add(position.short))
+  values.interestShort = Fixed6.mul(interest.sub(interestLong), Fixed6.NEG_ONE)
+  values.interestMaker = interest.sub(values.interestFee)
+  values.interestLong = Fixed6.mul(interestLong, Fixed6.NEG_ONE)
+
+  increment(version.makerValue, values.interestMaker, position.maker)
+  increment(version.longValue, values.interestLong, position.long)
+  increment(version.shortValue, values.interestShort, position.short)
+}
+
+function accumulatePnl(
+  version: Version,
+  values: VersionAccumulationResult,
+  position: PositionSize,
+  fromOracleVersion: OracleVersion,
+  toOracleVersion: OracleVersion,
+) {
+  const priceDelta = BigNumber.from(toOracleVersion.price).sub(fromOracleVersion.price)
+  values.pnlLong = Fixed6.mul(priceDelta, longSocialized(position))
+  values.pnlShort = Fixed6.mul(priceDelta.mul(-1), shortSocialized(position))
+  values.pnlMaker = Fixed6.mul(values.pnlLong.add(values.pnlShort), Fixed6.NEG_ONE)
+
+  increment(version.longValue, values.pnlLong, position.long)
+  increment(version.shortValue, values.pnlShort, position.short)
+  increment(version.makerValue, values.pnlMaker, position.maker)
+}
+
+// Mirrors PAccumulator6.accumulate, where the rate over the interval is driven by the skew stored at its start
+function accumulatePAccumulator(
+  pAccumulator: PAccumulator,
+  controller: PController,
+  skew: BigNumber,
+  fromTimestamp: BigNumberish,
+  toTimestamp: BigNumberish,
+  notional: BigNumber,
+): { funding: BigNumber; pAccumulator: PAccumulator } {
+  const { newValue, interceptTimestamp } = computePController(
+    controller,
+    pAccumulator._value,
+    pAccumulator._skew,
+    fromTimestamp,
+    toTimestamp,
+  )
+
+  // the rate moves linearly up to the intercept, so accrues at the average of its start and end values until then
+  const funding = Fixed6.div(
+    accumulateRate(pAccumulator._value.add(newValue), Fixed6.from(fromTimestamp), interceptTimestamp, notional),
+    Fixed6.from(2),
+  ).add(accumulateRate(newValue, interceptTimestamp, Fixed6.from(toTimestamp), notional))
+
+  return { funding, pAccumulator: { _value: newValue, _skew: skew } }
+}
+
+function accumulateRate(rate: BigNumber, fromTimestamp: BigNumber, toTimestamp: BigNumber, notional: BigNumber) {
+  return Fixed6.div(Fixed6.mul(Fixed6.mul(rate, toTimestamp.sub(fromTimestamp)), notional), Fixed6.from(YEAR))
+}
+
+// Mirrors CurveMath6.linearInterpolation
+function linearInterpolation(
+  startX: BigNumberish,
+  startY: BigNumberish,
+  endX: BigNumberish,
+  endY: BigNumberish,
+  targetX: BigNumberish,
+): BigNumber {
+  if (BigNumber.from(targetX).lt(startX) || BigNumber.from(targetX).gt(endX))
+    throw new Error('CurveMath6OutOfBoundsError()')
+  const xRatio = Fixed6.div(BigNumber.from(targetX).sub(startX), BigNumber.from(endX).sub(startX))
+  return Fixed6.toUFixed6(Fixed6.mul(BigNumber.from(endY).sub(startY), xRatio).add(startY))
+}
+
+// Mirrors Accumulator6.increment, rounding losses away from zero so the accumulator never overpays
+function increment(accumulator: Accumulator, amount: BigNumber, total: BigNumberish) {
+  if (amount.isZero()) return
+  accumulator._value = accumulator._value.add(
+    amount.isNegative() ? Fixed6.divOut(amount, total) : Fixed6.div(amount, total),
+  )
+}
@@ -0,0 +1,90 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity 0.8.19;
+
+import "@equilibria/perennial-v2/contracts/interfaces/IOracleProvider.sol";
+
+/// @title DevnetOracle
+/// @notice Oracle provider for a local devnet whose prices are committed directly through its factory.
+/// @dev Every version requested before a commit is fulfilled with the committed price, so orders settle as soon as
+///      the next price is committed. Versions are timestamps, with commits published one second in the past so that
+///      the current version is always ahead of the latest.
+contract DevnetOracle is IOracleProvider {
+    // sig: 0x68e7f4db
+    error DevnetOracleUnauthorizedError();
+    // sig: 0xdb1aeb9a
+    error DevnetOracleVersionOutdatedError();
+
+    /// @dev The factory committing prices to this oracle
+    address public immutable factory;
+
+    /// @dev Requested versions waiting on the next commit
+    uint256[] private _requested;
+
+    /// @dev The latest committed version
+    OracleVersion private _latest;
+
+    /// @dev Mapping from version to committed oracle version data
+    mapping(uint256 => OracleVersion) private _versions;
+
+    /// @notice Constructs the contract
+    constructor() {
+        factory = msg.sender;
+    }
+
+    /// @notice Records a request for a new oracle version
+    function request(IMarket, address) external {
+        uint256 currentTimestamp = current();
+        if (_requested.length > 0 && _requested[_requested.length - 1] == currentTimestamp) return;
+        _requested.push(currentTimestamp);
+        emit OracleProviderVersionRequested(currentTimestamp);
+    }
+
+    /// @notice Returns the latest committed oracle version and the current oracle version
+    function status() external view returns (OracleVersion memory, uint256) {
+        return (_latest, current());
+    }
+
+    /// @notice Returns the latest committed oracle version
+    function latest() external view returns (OracleVersion memory) {
+        return _latest;
+    }
+
+    /// @notice Returns the current oracle version accepting new orders
+    function current() public view returns (uint256) {
+        return block.timestamp;
+    }
+
+    /// @notice Returns the oracle version at version `timestamp`, invalid if it was never committed
+    /// @param timestamp The timestamp of which to lookup
+    function at(uint256 timestamp) external view returns (OracleVersion memory oracleVersion) {
+        oracleVersion = _versions[timestamp];
+        oracleVersion.timestamp = timestamp;
+    }
+
+    /// @notice Commits a price to every outstanding requested version and to the latest version
+    /// @param price The price to commit
+    function commit(Fixed6 price) external {
+        if (msg.sender != factory) revert DevnetOracleUnauthorizedError();
+
+        uint256 timestamp = block.timestamp - 1;
+        if (timestamp <= _latest.timestamp) revert DevnetOracleVersionOutdatedError();
+
+        // Requests made in this block are for the current version and are left for the next commit
+        uint256 pending;
+        for (uint256 i; i < _requested.length; i++) {
+            if (_requested[i] > timestamp) _requested[pending++] = _requested[i];
+            else _fulfill(OracleVersion(_requested[i], price, true));
+        }
+        while (_requested.length > pending) _requested.pop();
+
+        _latest = OracleVersion(timestamp, price, true);
+        _fulfill(_latest);
+    }
+
+    /// @notice Records the committed oracle version
+    /// @param version The oracle version to record
+    function _fulfill(OracleVersion memory version) private {
+        _versions[version.timestamp] = version;
+        emit OracleProviderVersionFulfilled(version);
+    }
+}
@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity 0.8.19;
+
+import "@equilibria/perennial-v2/contracts/interfaces/IOracleProviderFactory.sol";
+import "./DevnetOracle.sol";
+
+/// @title DevnetOracleFactory
+/// @notice Oracle provider factory for a local devnet, standing in for the Pyth factory and its keepers.
+/// @dev Not for use outside of local development, anyone can create oracles and commit prices.
+contract DevnetOracleFactory is IOracleProviderFactory {
+    // sig: 0x2e834793
+    error DevnetOracleFactoryAlreadyCreatedError();
+    // sig: 0x45ab183e
+    error DevnetOracleFactoryNotCreatedError();
+    // sig: 0x77763d34
+    error DevnetOracleFactoryInvalidLengthError();
+
+    /// @notice Mapping of oracle id to oracle
+    mapping(bytes32 => IOracleProvider) public oracles;
+
+    /// @notice Creates a new oracle
+    /// @param id The id of the oracle to create
+    /// @return newOracle The newly created oracle
+    function create(bytes32 id) external returns (DevnetOracle newOracle) {
+        if (oracles[id] != IOracleProvider(address(0))) revert DevnetOracleFactoryAlreadyCreatedError();
+
+        newOracle = new DevnetOracle();
+        oracles[id] = newOracle;
+
+        emit OracleCreated(newOracle, id);
+    }
+
+    /// @notice Commits a price to each of the given oracles
+    /// @param ids The ids of the oracles to commit to
+    /// @param prices The price to commit to each oracle
+    function commit(bytes32[] calldata ids, Fixed6[] calldata prices) external {
+        if (ids.length != prices.length) revert DevnetOracleFactoryInvalidLengthError();
+        for (uint256 i; i < ids.length; i++) {
+            if (oracles[ids[i]] == IOracleProvider(address(0))) revert DevnetOracleFactoryNotCreatedError();
+            DevnetOracle(address(oracles[ids[i]])).commit(prices[i]);
+        }
+    }
+
+    /// @notice Every caller may request from the devnet oracles
+    function authorized(address) external pure returns (bool) {
+        return true;
+    }
+}
@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity 0.8.19;
+
+import { AggregatorV3Interface } from "@chainlink/contracts/src/v0.8/interfaces/AggregatorV3Interface.sol";
+
+/// @title DevnetPriceFeed
+/// @notice Settable Chainlink feed standing in for the ETH/USD feed used to price keeper fees on a local devnet.
+contract DevnetPriceFeed is AggregatorV3Interface {
+    /// @dev The latest answer of the feed, in 8 decimals
+    int256 public answer;
+
+    /// @dev The round id of the latest answer
+    uint80 public round;
+
+    /// @notice Constructs the contract
+    /// @param answer_ The initial answer of the feed, in 8 decimals
+    constructor(int256 answer_) {
+        update(answer_);
+    }
+
+    /// @notice Updates the answer of the feed
+    /// @param answer_ The new answer of the feed, in 8 decimals
+    function update(int256 answer_) public {
+        answer = answer_;
+        round++;
+    }
+
+    function decimals() external pure returns (uint8) { return 8; }
+
+    function description() external pure returns (string memory) { return "Devnet ETH / USD"; }
+
+    function version() external pure returns (uint256) { return 1; }
+
+    function getRoundData(uint80 roundId) external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (roundId, answer, block.timestamp, block.timestamp, roundId);
+    }
+
+    function latestRoundData() external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (round, answer, block.timestamp, block.timestamp, round);
+    }
+}
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity 0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./DevnetToken.sol";
+
+/// @title DevnetReserve
+/// @notice 1:1 USDC to DSU reserve standing in for the EmptySet reserve on a local devnet.
+/// @dev Matches the mint and redeem interface of the EmptySet reserve, with amounts in 18 decimal DSU.
+contract DevnetReserve {
+    /// @dev The 6 decimal USDC token held by the reserve
+    IERC20 public immutable usdc;
+
+    /// @dev The 18 decimal DSU token minted by the reserve
+    DevnetToken public immutable dsu;
+
+    /// @notice Constructs the contract
+    /// @param usdc_ The USDC token
+    /// @param dsu_ The DSU token
+    constructor(IERC20 usdc_, DevnetToken dsu_) {
+        usdc = usdc_;
+        dsu = dsu_;
+    }
+
+    /// @notice Mints DSU to the sender in exchange for USDC, rounding the USDC pulled up
+    /// @param amount The amount of DSU to mint
+    function mint(uint256 amount) external {
+        usdc.transferFrom(msg.sender, address(this), (amount + 1e12 - 1) / 1e12);
+        dsu.mint(msg.sender, amount);
+    }
+
+    /// @notice Redeems DSU from the sender for USDC, rounding the USDC pushed down
+    /// @param amount The amount of DSU to redeem
+    function redeem(uint256 amount) external {
+        dsu.transferFrom(msg.sender, address(this), amount);
+        usdc.transfer(msg.sender, amount / 1e12);
+    }
+}
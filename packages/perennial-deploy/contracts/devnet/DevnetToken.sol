@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity 0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @title DevnetToken
+/// @notice Freely mintable ERC20 standing in for USDC and DSU on a local devnet.
+/// @dev Not for use outside of local development, anyone can mint any amount.
+contract DevnetToken is ERC20 {
+    /// @dev The number of decimals of the token
+    uint8 private immutable _decimals;
+
+    /// @notice Constructs the contract
+    /// @param name_ The name of the token
+    /// @param symbol_ The symbol of the token
+    /// @param decimals_ The number of decimals of the token
+    constructor(string memory name_, string memory symbol_, uint8 decimals_) ERC20(name_, symbol_) {
+        _decimals = decimals_;
+    }
+
+    /// @notice Returns the number of decimals of the token
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    /// @notice Mints tokens to an account
+    /// @param account The account to mint to
+    /// @param amount The amount of tokens to mint
+    function mint(address account, uint256 amount) external {
+        _mint(account, amount);
+    }
+}
@@ -0,0 +1,82 @@
+import { utils } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { DeployFunction } from 'hardhat-deploy/types'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { DevnetToken__factory } from '../types/generated'
+import { isDevnet } from '../util/devnet'
+
+// DSU the deployer is minted to fund vault creation
+const DEPLOYER_DSU = utils.parseEther('1000')
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts, ethers } = hre
+  const { deploy, get, getNetworkName } = deployments
+  const { deployer } = await getNamedAccounts()
+  if (!isDevnet(getNetworkName())) {
+    console.log('Skipping. Devnet mocks are only deployed to a local network without a fork')
+    return
+  }
+
+  const deployerSigner: SignerWithAddress = await ethers.getSigner(deployer)
+
+  // Deploy Tokens
+  await deploy('USDC', {
+    contract: 'DevnetToken',
+    args: ['USD Coin', 'USDC', 6],
+    from: deployer,
+    skipIfAlreadyDeployed: true,
+    log: true,
+    autoMine: true,
+  })
+  await deploy('DSU', {
+    contract: 'DevnetToken',
+    args: ['Digital Standard Unit', 'DSU', 18],
+    from: deployer,
+    skipIfAlreadyDeployed: true,
+    log: true,
+    autoMine: true,
+  })
+  await deploy('DSUReserve', {
+    contract: 'DevnetReserve',
+    args: [(await get('USDC')).address, (await get('DSU')).address],
+    from: deployer,
+    skipIfAlreadyDeployed: true,
+    log: true,
+    autoMine: true,
+  })
+
+  // Deploy Oracles
+  await deploy('ChainlinkETHUSDFeed', {
+    contract: 'DevnetPriceFeed',
+    args: [utils.parseUnits('2000', 8)],
+    from: deployer,
+    skipIfAlreadyDeployed: true,
+    log: true,
+    autoMine: true,
+  })
+  await deploy('Pyth', {
+    contract: 'MockPyth',
+    args: [60, 1],
+    from: deployer,
+    skipIfAlreadyDeployed: true,
+    log: true,
+    autoMine: true,
+  })
+  await deploy('DevnetOracleFactory', {
+    from: deployer,
+    skipIfAlreadyDeployed: true,
+    log: true,
+    autoMine: true,
+  })
+
+  // Fund deployer
+  const DSU = DevnetToken__factory.connect((await get('DSU')).address, deployerSigner)
+  if ((await DSU.balanceOf(deployer)).lt(DEPLOYER_DSU)) {
+    process.stdout.write('Minting DSU to deployer...')
+    await (await DSU.mint(deployer, DEPLOYER_DSU)).wait()
+    process.stdout.write('complete\n')
+  }
+}
+
+export default func
+func.tags = ['Devnet']
@@ -3,8 +3,9 @@ import { DeployFunction } from 'hardhat-deploy/types'
 import { PayoffFactory__factory, ProxyAdmin__factory } from '../types/generated'
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
 import { isMainnet } from '../../common/testutil/network'
+import { ownerCall } from '../util/proposal'
 
-const PAYOFFS = [
+export const PAYOFFS = [
   'Giga',
   'Kilo',
   'KiloPowerHalf',
@@ -63,7 +64,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
     })
     if (!(await payoffFactory.instances(payoff.address))) {
       process.stdout.write(`Registering payoff ${payoffName}...`)
-      await (await payoffFactory.register(payoff.address)).wait()
+      await ownerCall(hre, payoffFactory, 'register', [payoff.address])
       process.stdout.write('complete\n')
     }
   }
@@ -75,7 +76,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   // Transfer pending ownership
   if ((await payoffFactory.owner()).toLowerCase() !== owner.toLowerCase()) {
     process.stdout.write('Setting owner...')
-    await (await payoffFactory.updatePendingOwner(owner)).wait()
+    await ownerCall(hre, payoffFactory, 'updatePendingOwner', [owner])
     process.stdout.write('complete\n')
   }
 }
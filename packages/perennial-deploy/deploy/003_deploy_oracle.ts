@@ -3,31 +3,17 @@ import { HardhatRuntimeEnvironment } from 'hardhat/types'
 import { DeployFunction } from 'hardhat-deploy/types'
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
 import { forkNetwork, isArbitrum, isFork, isMainnet } from '../../common/testutil/network'
-import { OracleFactory__factory, ProxyAdmin__factory, PythFactory__factory } from '../types/generated'
-
-export const ORACLE_IDS: { [key: string]: { [asset: string]: string } } = {
-  arbitrum: {
-    eth: '0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace', // Pyth: ETH
-    btc: '0xe62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43', // Pyth: BTC
-    sol: '0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d', // Pyth: SOL
-    matic: '0x5de33a9112c2b700b8d30b8a3402c103578ccfa2765696471cc672bd5cf6ac52', // Pyth: MATIC
-  },
-  arbitrumGoerli: {
-    eth: '0xca80ba6dc32e08d06f1aa886011eed1d77c77be9eb761cc10d72b7d0a2fd57a6', // Pyth: ETH
-    btc: '0xf9c0172ba10dfa4d19088d94f5bf61d3b54d5bd7483a322a982e1373ee8ea31b', // Pyth: BTC
-    sol: '0xfe650f0367d4a7ef9815a593ea15d36593f0643aaaf0149bb04be67ab851decd', // Pyth: SOL
-    matic: '0xd2c2c1f2bba8e0964f9589e060c2ee97f5e19057267ac3284caef3bd50bd2cb5', // Pyth: MATIC
-  },
-  arbitrumSepolia: {
-    eth: '0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace', // Pyth: ETH
-  },
-  base: {
-    eth: '0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace', // Pyth: ETH
-    btc: '0xe62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43', // Pyth: BTC
-  },
-}
-
-const DEFAULT_MAX_CLAIM_AMOUNT = utils.parseUnits('25', 6)
+import {
+  DevnetOracleFactory__factory,
+  OracleFactory__factory,
+  ProxyAdmin__factory,
+  PythFactory__factory,
+} from '../types/generated'
+import { KEEPER_ORACLE_TIMEOUT, PYTH_VALID_FROM, PYTH_VALID_TO } from '../util/immutables'
+import { ORACLE_IDS } from '../util/oracleIds'
+import { ownerCall } from '../util/proposal'
+
+export const DEFAULT_MAX_CLAIM_AMOUNT = utils.parseUnits('25', 6)
 export const L1_GAS_BUFFERS = {
   arbitrum: {
     commitCalldata: 31_000,
@@ -43,7 +29,7 @@ export const DEFAULT_GRANULARITY = 10
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployments, getNamedAccounts, ethers } = hre
-  const { deploy, get, getNetworkName } = deployments
+  const { deploy, get, getOrNull, getNetworkName } = deployments
   const { deployer } = await getNamedAccounts()
   const deployerSigner: SignerWithAddress = await ethers.getSigner(deployer)
 
@@ -90,7 +76,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const pythFactoryContract = isArbitrum(getNetworkName()) ? 'PythFactory_Arbitrum' : 'PythFactory_Optimism'
   await deploy('KeeperOracleImpl', {
     contract: 'KeeperOracle',
-    args: [60],
+    args: [KEEPER_ORACLE_TIMEOUT],
     from: deployer,
     skipIfAlreadyDeployed: true,
     log: true,
@@ -108,8 +94,8 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
     args: [
       (await get('Pyth')).address,
       (await get('KeeperOracleImpl')).address,
-      4,
-      12,
+      PYTH_VALID_FROM,
+      PYTH_VALID_TO,
       {
         multiplierBase: 0, // Unused
         bufferBase: 788_000, // Each Call uses approx 750k gas
@@ -153,14 +139,25 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   // Register Pyth Factory
   if (!(await oracleFactory.factories(pythFactory.address))) {
     process.stdout.write('Registering pyth factory with oracle factory...')
-    await (await oracleFactory.register(pythFactory.address)).wait()
+    await ownerCall(hre, oracleFactory, 'register', [pythFactory.address])
     process.stdout.write('complete\n')
   }
 
   // Authorize Oracle Factory
   if (!(await pythFactory.callers(oracleFactory.address))) {
     process.stdout.write('Authorizing oracle factory to call pyth factory...')
-    await (await pythFactory.authorize(oracleFactory.address)).wait()
+    await ownerCall(hre, pythFactory, 'authorize', [oracleFactory.address])
+    process.stdout.write('complete\n')
+  }
+
+  // Register Devnet Oracle Factory, which provides the oracles in place of the pyth factory
+  const devnetOracleFactoryDeployment = await getOrNull('DevnetOracleFactory')
+  const devnetOracleFactory = devnetOracleFactoryDeployment
+    ? DevnetOracleFactory__factory.connect(devnetOracleFactoryDeployment.address, deployerSigner)
+    : undefined
+  if (devnetOracleFactory && !(await oracleFactory.factories(devnetOracleFactory.address))) {
+    process.stdout.write('Registering devnet oracle factory with oracle factory...')
+    await ownerCall(hre, oracleFactory, 'register', [devnetOracleFactory.address])
     process.stdout.write('complete\n')
   }
 
@@ -168,20 +165,25 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const oracleIDs = isFork() ? ORACLE_IDS[forkNetwork()] : ORACLE_IDS[getNetworkName()]
   if (!oracleIDs) throw new Error('No oracle IDs for network')
   for (const id of Object.values(oracleIDs)) {
-    if ((await pythFactory.oracles(id)).toLowerCase() === ethers.constants.AddressZero.toLowerCase()) {
+    if (devnetOracleFactory) {
+      if ((await devnetOracleFactory.oracles(id)).toLowerCase() === ethers.constants.AddressZero.toLowerCase()) {
+        process.stdout.write(`Creating devnet oracle ${id}...`)
+        await (await devnetOracleFactory.create(id)).wait()
+        process.stdout.write('complete\n')
+      }
+    } else if ((await pythFactory.oracles(id)).toLowerCase() === ethers.constants.AddressZero.toLowerCase()) {
       process.stdout.write(`Associating pyth oracle id ${id}...`)
-      await (await pythFactory.associate(id, id)).wait()
+      await ownerCall(hre, pythFactory, 'associate', [id, id])
       process.stdout.write(`Creating pyth oracle ${id}...`)
-      const address = await pythFactory.callStatic.create(id)
-      process.stdout.write(`deploying at ${address}...`)
-      await (await pythFactory.create(id)).wait()
+      if (!(await ownerCall(hre, pythFactory, 'create', [id])))
+        process.stdout.write(`deployed at ${await pythFactory.oracles(id)}...`)
       process.stdout.write('complete\n')
     }
     if ((await oracleFactory.oracles(id)).toLowerCase() === ethers.constants.AddressZero.toLowerCase()) {
       process.stdout.write(`Creating oracle ${id}...`)
-      const address = await oracleFactory.callStatic.create(id, pythFactory.address)
-      process.stdout.write(`deploying at ${address}...`)
-      await (await oracleFactory.create(id, pythFactory.address)).wait()
+      const providerFactory = devnetOracleFactory ?? pythFactory
+      if (!(await ownerCall(hre, oracleFactory, 'create', [id, providerFactory.address])))
+        process.stdout.write(`deployed at ${await oracleFactory.oracles(id)}...`)
       process.stdout.write('complete\n')
     }
   }
@@ -193,26 +195,26 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   // Transfer pending ownership
   if ((await oracleFactory.owner()).toLowerCase() !== owner.toLowerCase()) {
     process.stdout.write('Setting owner...')
-    await (await oracleFactory.updatePendingOwner(owner)).wait()
+    await ownerCall(hre, oracleFactory, 'updatePendingOwner', [owner])
     process.stdout.write('complete\n')
   }
   if ((await pythFactory.owner()).toLowerCase() !== owner.toLowerCase()) {
     process.stdout.write('Setting owner...')
-    await (await pythFactory.updatePendingOwner(owner)).wait()
+    await ownerCall(hre, pythFactory, 'updatePendingOwner', [owner])
     process.stdout.write('complete\n')
   }
 
   // Update max claim
   if ((await oracleFactory.maxClaim()).eq(0)) {
     process.stdout.write('Setting max claim amount...')
-    await (await oracleFactory.updateMaxClaim(DEFAULT_MAX_CLAIM_AMOUNT)).wait()
+    await ownerCall(hre, oracleFactory, 'updateMaxClaim', [DEFAULT_MAX_CLAIM_AMOUNT])
     process.stdout.write('complete\n')
   }
 
   // Update granularity
   if ((await pythFactory.granularity()).effectiveAfter.eq(0)) {
     process.stdout.write('Setting granularity...')
-    await (await pythFactory.updateGranularity(DEFAULT_GRANULARITY)).wait()
+    await ownerCall(hre, pythFactory, 'updateGranularity', [DEFAULT_GRANULARITY])
     process.stdout.write('complete\n')
   }
 }
@@ -1,4 +1,4 @@
-import { utils, constants } from 'ethers'
+import { constants } from 'ethers'
 import { HardhatRuntimeEnvironment } from 'hardhat/types'
 import { DeployFunction } from 'hardhat-deploy/types'
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
@@ -9,94 +9,30 @@ import {
   ProxyAdmin__factory,
 } from '../types/generated'
 import { forkNetwork, isFork, isMainnet } from '../../common/testutil/network'
-import { ORACLE_IDS } from './003_deploy_oracle'
 import { getLabsMultisig } from '../../common/testutil/constants'
-
-// TODO: 2x what expected gauntlet values are
-const DEFAULT_PROTOCOL_PARAMETER = {
-  protocolFee: 0,
-  maxFee: utils.parseUnits('0.002', 6), // 0.2%
-  maxFeeAbsolute: utils.parseUnits('50', 6), // $50
-  maxCut: utils.parseUnits('0.1', 6), // 10%
-  maxRate: utils.parseUnits('5.00', 6), // 500%
-  minMaintenance: utils.parseUnits('0.004', 6), // 0.4%
-  minEfficiency: utils.parseUnits('0.25', 6), // 25%
-}
-
-const DEFAULT_MARKET_PARAMETER = {
-  fundingFee: utils.parseUnits('0.05', 6),
-  interestFee: utils.parseUnits('0.05', 6),
-  positionFee: utils.parseUnits('0.05', 6),
-  oracleFee: 0,
-  riskFee: utils.parseUnits('1', 6),
-  maxPendingGlobal: 12,
-  maxPendingLocal: 6,
-  makerRewardRate: 0,
-  longRewardRate: 0,
-  shortRewardRate: 0,
-  settlementFee: utils.parseUnits('1.5', 6),
-  makerCloseAlways: false,
-  takerCloseAlways: true,
-  closed: false,
-}
-
-const DEFAULT_RISK_PARAMETERS = {
-  margin: utils.parseUnits('0.0095', 6),
-  maintenance: utils.parseUnits('0.008', 6),
-  takerFee: utils.parseUnits('0.0002', 6),
-  takerSkewFee: utils.parseUnits('0.001', 6),
-  takerImpactFee: utils.parseUnits('0.001', 6),
-  makerFee: utils.parseUnits('0.0001', 6),
-  makerImpactFee: 0,
-  makerLimit: utils.parseUnits('1', 6),
-  efficiencyLimit: utils.parseUnits('0.5', 6),
-  liquidationFee: utils.parseUnits('0.05', 6),
-  minLiquidationFee: utils.parseUnits('5', 6),
-  maxLiquidationFee: utils.parseUnits('25', 6),
-  utilizationCurve: {
-    minRate: 0,
-    maxRate: utils.parseUnits('0.155', 6),
-    targetRate: utils.parseUnits('0.055', 6),
-    targetUtilization: utils.parseUnits('0.60', 6),
-  },
-  pController: {
-    k: utils.parseUnits('20000', 6),
-    max: utils.parseUnits('2.50', 6),
-  },
-  minMargin: utils.parseUnits('10', 6),
-  minMaintenance: utils.parseUnits('10', 6),
-  skewScale: 0,
-  staleAfter: 7200,
-  makerReceiveOnly: false,
-}
-
-const MARKETS: { [key: string]: string[][] } = {
-  arbitrum: [
-    [ORACLE_IDS.arbitrum.eth, ''], // ETH / None
-    [ORACLE_IDS.arbitrum.btc, ''], // BTC / None
-    [ORACLE_IDS.arbitrum.sol, ''], // SOL / None
-    [ORACLE_IDS.arbitrum.matic, ''], // MATIC / None
-  ],
-  arbitrumGoerli: [
-    [ORACLE_IDS.arbitrumGoerli.eth, ''], // ETH / None
-    [ORACLE_IDS.arbitrumGoerli.btc, ''], // BTC / None
-    [ORACLE_IDS.arbitrumGoerli.sol, ''], // SOL / None
-    [ORACLE_IDS.arbitrumGoerli.matic, ''], // MATIC / None
-  ],
-  arbitrumSepolia: [[ORACLE_IDS.arbitrumSepolia.eth, '']], // ETH / None
-  base: [
-    [ORACLE_IDS.base.eth, ''], // ETH / None
-    [ORACLE_IDS.base.btc, ''], // BTC / None
-  ],
-}
+import { loadMarketConfig, validateMarketConfig } from '../util/marketConfig'
+import { getOwner, ownerCall } from '../util/proposal'
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployments, getNamedAccounts, ethers } = hre
-  const { deploy, get, getNetworkName } = deployments
+  const { deploy, get, getOrNull, getNetworkName } = deployments
   const { deployer } = await getNamedAccounts()
   const labsMultisig = getLabsMultisig(getNetworkName())
   const deployerSigner: SignerWithAddress = await ethers.getSigner(deployer)
   const deployMarkets = true
+  const config = loadMarketConfig(isFork() ? forkNetwork() : getNetworkName())
+
+  // Validate the configured markets against the protocol parameter they will be created under before sending any
+  // transactions, using the on-chain parameter if it has already been set
+  const existingMarketFactory = await getOrNull('MarketFactory')
+  const onChainParameter = existingMarketFactory
+    ? await MarketFactory__factory.connect(existingMarketFactory.address, deployerSigner).parameter()
+    : undefined
+  const protocolParameter =
+    onChainParameter && !onChainParameter.maxFee.eq(0) ? onChainParameter : config.protocolParameter
+  const violations = config.markets.flatMap(market => validateMarketConfig(market, protocolParameter))
+  if (violations.length > 0)
+    throw new Error(`Market config exceeds protocol parameter limits:\n  ${violations.join('\n  ')}`)
 
   const proxyAdmin = new ProxyAdmin__factory(deployerSigner).attach((await get('ProxyAdmin')).address)
 
@@ -152,51 +88,62 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   if ((await marketFactory.parameter()).maxFee.eq(0)) {
     process.stdout.write('Updating protocol parameter...')
-    await marketFactory.updateParameter(DEFAULT_PROTOCOL_PARAMETER)
+    await ownerCall(hre, marketFactory, 'updateParameter', [config.protocolParameter])
     process.stdout.write('complete\n')
   }
 
   if ((await marketFactory.pauser()) === constants.AddressZero && !!labsMultisig) {
     process.stdout.write('Updating protocol pauser...')
-    await marketFactory.updatePauser(labsMultisig)
+    await ownerCall(hre, marketFactory, 'updatePauser', [labsMultisig])
     process.stdout.write('complete\n')
   }
 
   // Create markets
   if (deployMarkets) {
-    const markets = isFork() ? MARKETS[forkNetwork()] : MARKETS[getNetworkName()]
     console.log('Deploying Markets...')
-    for (const marketDefinition of Object.values(markets)) {
-      const oracleAddress = await oracleFactory.oracles(marketDefinition[0])
+    // Markets created in a proposal do not exist yet, so their address is predicted from the factory's nonce
+    const marketFactoryOwner = await getOwner(marketFactory)
+    let proposedMarkets = 0
+    for (const marketConfig of config.markets) {
+      const oracleAddress = await oracleFactory.oracles(marketConfig.oracleId)
       const payoffAddress =
-        marketDefinition[1] === '' ? ethers.constants.AddressZero : (await get(marketDefinition[1])).address
+        marketConfig.payoff === '' ? ethers.constants.AddressZero : (await get(marketConfig.payoff)).address
 
       if (
         (await marketFactory.markets(oracleAddress, payoffAddress)).toLowerCase() ===
         ethers.constants.AddressZero.toLowerCase()
       ) {
-        process.stdout.write(`Creating market with oracle ${marketDefinition[0]} and payoff ${marketDefinition[1]}...`)
-        const marketAddress = await marketFactory.callStatic.create({
-          token: (await get('DSU')).address,
-          oracle: oracleAddress,
-          payoff: payoffAddress,
+        process.stdout.write(
+          `Creating market with oracle ${marketConfig.oracleId} and payoff ${marketConfig.payoff}...`,
+        )
+        const definition = { token: (await get('DSU')).address, oracle: oracleAddress, payoff: payoffAddress }
+        const predictedAddress = ethers.utils.getContractAddress({
+          from: marketFactory.address,
+          nonce: (await ethers.provider.getTransactionCount(marketFactory.address)) + proposedMarkets,
         })
-        process.stdout.write(`deploying at ${marketAddress}...`)
-        await (
-          await marketFactory.create({
-            token: (await get('DSU')).address,
-            oracle: oracleAddress,
-            payoff: payoffAddress,
-          })
-        ).wait()
+        process.stdout.write(`deploying at ${predictedAddress}...`)
+        const proposed = await ownerCall(hre, marketFactory, 'create', [definition], {
+          owner: marketFactoryOwner,
+          description: `create market ${marketConfig.key}`,
+        })
+        if (proposed) proposedMarkets++
 
         const market = Market__factory.connect(
-          await marketFactory.markets(oracleAddress, payoffAddress),
+          proposed ? predictedAddress : await marketFactory.markets(oracleAddress, payoffAddress),
           deployerSigner,
         )
 
-        await market.updateParameter(constants.AddressZero, constants.AddressZero, DEFAULT_MARKET_PARAMETER)
-        await market.updateRiskParameter(DEFAULT_RISK_PARAMETERS)
+        await ownerCall(
+          hre,
+          market,
+          'updateParameter',
+          [constants.AddressZero, constants.AddressZero, marketConfig.marketParameter],
+          { owner: marketFactoryOwner, description: `updateParameter on market ${marketConfig.key}` },
+        )
+        await ownerCall(hre, market, 'updateRiskParameter', [marketConfig.riskParameter], {
+          owner: marketFactoryOwner,
+          description: `updateRiskParameter on market ${marketConfig.key}`,
+        })
 
         process.stdout.write('complete\n')
       }
@@ -206,7 +153,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   // Authorize markets
   if (!(await oracleFactory.callers(marketFactory.address))) {
     process.stdout.write('Authorizing market factory to call oracle factory...')
-    await (await oracleFactory.authorize(marketFactory.address)).wait()
+    await ownerCall(hre, oracleFactory, 'authorize', [marketFactory.address])
     process.stdout.write('complete\n')
   }
 
@@ -217,7 +164,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   // Transfer pending ownership
   if ((await marketFactory.owner()).toLowerCase() !== owner.toLowerCase()) {
     process.stdout.write('Setting owner...')
-    await (await marketFactory.updatePendingOwner(owner)).wait()
+    await ownerCall(hre, marketFactory, 'updatePendingOwner', [owner])
     process.stdout.write('complete\n')
   }
 }
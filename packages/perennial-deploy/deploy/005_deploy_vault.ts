@@ -5,47 +5,19 @@ import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
 import {
   VaultFactory__factory,
   ProxyAdmin__factory,
-  MarketFactory__factory,
-  OracleFactory__factory,
+  IMarketFactory__factory,
+  IOracleFactory__factory,
   IERC20__factory,
+  Market__factory,
+  Vault,
   Vault__factory,
 } from '../types/generated'
-import { ORACLE_IDS } from './003_deploy_oracle'
-import { forkNetwork, isFork, isMainnet, isTestnet } from '../../common/testutil/network'
+import { forkNetwork, isFork, isLocalhost, isMainnet, isTestnet } from '../../common/testutil/network'
 import { getLabsMultisig } from '../../common/testutil/constants'
-
-const VAULTS: { [key: string]: { [key: string]: string[][] } } = {
-  arbitrum: {
-    AsterVault: [
-      [ORACLE_IDS.arbitrum.eth, ''], // ETH / None
-      [ORACLE_IDS.arbitrum.btc, ''], // BTC / None
-    ],
-    BegoniaVault: [
-      [ORACLE_IDS.arbitrum.sol, ''], // SOL / None
-      [ORACLE_IDS.arbitrum.matic, ''], // MATIC / None
-    ],
-  },
-  arbitrumGoerli: {
-    AsterVault: [
-      [ORACLE_IDS.arbitrumGoerli.eth, ''], // ETH / None
-      [ORACLE_IDS.arbitrumGoerli.btc, ''], // BTC / None
-    ],
-    BegoniaVault: [
-      [ORACLE_IDS.arbitrumGoerli.sol, ''], // SOL / None
-      [ORACLE_IDS.arbitrumGoerli.matic, ''], // MATIC / None
-    ],
-  },
-  arbitrumSepolia: {
-    AsterVault: [[ORACLE_IDS.arbitrumSepolia.eth, '']], // ETH / None
-    BegoniaVault: [[ORACLE_IDS.arbitrumSepolia.eth, '']], // ETH / None
-  },
-  base: {
-    AsterVault: [
-      [ORACLE_IDS.base.eth, ''], // ETH / None
-      [ORACLE_IDS.base.btc, ''], // BTC / None
-    ],
-  },
-}
+import { loadMarketConfig, VaultConfig } from '../util/marketConfig'
+import { getMarketAddress } from '../util/market'
+import { ownerCall } from '../util/proposal'
+import { commitDevnetPrices, getDevnetPrices, isDevnet } from '../util/devnet'
 
 export const INITIAL_AMOUNT = BigNumber.from('5000000') // 5 DSU
 
@@ -55,9 +27,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await getNamedAccounts()
   const labsMultisig = getLabsMultisig(getNetworkName())
   const deployerSigner: SignerWithAddress = await ethers.getSigner(deployer)
-  const deployVaults = false
 
-  const dsu = IERC20__factory.connect((await get('DSU')).address, deployerSigner)
   const proxyAdmin = new ProxyAdmin__factory(deployerSigner).attach((await get('ProxyAdmin')).address)
 
   // Deploy Implementations
@@ -92,86 +62,72 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
     autoMine: true,
   })
   const vaultFactory = new VaultFactory__factory(deployerSigner).attach((await get('VaultFactory')).address)
-  const marketFactory = new MarketFactory__factory(deployerSigner).attach((await get('MarketFactory')).address)
-  const oracleFactory = new OracleFactory__factory(deployerSigner).attach((await get('OracleFactory')).address)
+  const marketFactory = IMarketFactory__factory.connect((await get('MarketFactory')).address, deployerSigner)
+  const oracleFactory = IOracleFactory__factory.connect((await get('OracleFactory')).address, deployerSigner)
 
   if ((await vaultFactory.pauser()) === constants.AddressZero && !!labsMultisig) {
     process.stdout.write('Updating protocol pauser...')
-    await vaultFactory.updatePauser(labsMultisig)
+    await ownerCall(hre, vaultFactory, 'updatePauser', [labsMultisig])
     process.stdout.write('complete\n')
   }
 
-  // Create vault
-  // TODO: in order to deploy vaults we need to commit new oracle versions first
-  if (deployVaults) {
-    const vaults = isFork() ? VAULTS[forkNetwork()] : VAULTS[getNetworkName()]
-    if ((await getOrNull('AsterVault')) == null && vaults.AsterVault) {
-      const markets = vaults.AsterVault
-      console.log('Creating Aster vault...')
-      process.stdout.write('Setting initial amount approval...')
-      await (await dsu.approve(vaultFactory.address, INITIAL_AMOUNT.mul(2).mul(1e12))).wait()
-      process.stdout.write('done.\n')
-      const oracleAddress0 = await oracleFactory.oracles(markets[0][0])
-      const payoffAddress0 = markets[0][1] === '' ? ethers.constants.AddressZero : (await get(markets[0][1])).address
-      const initialMarket0 = await marketFactory.markets(oracleAddress0, payoffAddress0)
-      const name = 'Aster'
-
-      const vaultAddress = await vaultFactory.callStatic.create(dsu.address, initialMarket0, name)
-      const receipt = await (await vaultFactory.create(dsu.address, initialMarket0, name)).wait()
-      await save('AsterVault', {
-        ...(await get('VaultImpl')),
-        address: vaultAddress,
-        receipt,
-      })
-
-      // TODO: configure vault once market parameters are set
-      // cap: $5M
-
-      process.stdout.write('configuring...')
-      const vault = new Vault__factory(deployerSigner).attach(vaultAddress)
-      const oracleAddress1 = await oracleFactory.oracles(markets[1][0])
-      const payoffAddress1 = markets[1][1] === '' ? ethers.constants.AddressZero : (await get(markets[1][1])).address
-      const initialMarket1 = await marketFactory.markets(oracleAddress1, payoffAddress1)
-      await vault.register(initialMarket1)
-      await vault.updateMarket(0, ethers.utils.parseUnits('0.5', 6), ethers.utils.parseUnits('1', 6))
-      await vault.updateMarket(1, ethers.utils.parseUnits('0.5', 6), ethers.utils.parseUnits('1', 6))
-
-      console.log('Aster Vault created')
+  // Create vaults
+  const config = loadMarketConfig(isFork() ? forkNetwork() : getNetworkName())
+  for (const vaultConfig of config.vaults) {
+    if ((await getOrNull(vaultConfig.key)) != null) continue
+    if ((await vaultFactory.owner()).toLowerCase() !== deployer.toLowerCase()) {
+      console.log(`[WARNING] Vault factory is not owned by the deployer, skipping creation of ${vaultConfig.key}`)
+      continue
+    }
+
+    console.log(`Creating ${vaultConfig.name} vault...`)
+    const marketAddresses = await Promise.all(
+      vaultConfig.markets.map(({ market }) => getMarketAddress(hre, marketFactory, oracleFactory, market)),
+    )
+    vaultConfig.markets.forEach(({ market }, i) => {
+      if (marketAddresses[i] === constants.AddressZero)
+        throw new Error(`Market ${market.key} of ${vaultConfig.key} has not been created`)
+    })
+
+    // Creating a vault settles its initial market, which requires a committed price for each of the vault's oracles.
+    // Live networks are kept current by keepers, forks and local nets need a price committed first.
+    if (isLocalhost(getNetworkName())) {
+      process.stdout.write('Committing oracle prices...')
+      const oracleIds = Array.from(new Set(vaultConfig.markets.map(({ market }) => market.oracleId)))
+      if (isDevnet(getNetworkName())) await commitDevnetPrices(hre, await getDevnetPrices(hre, oracleIds))
+      else await hre.run('commit-price', { priceids: oracleIds.join(',') })
+      process.stdout.write('complete\n')
     }
 
-    if ((await getOrNull('BegoniaVault')) == null && vaults.BegoniaVault) {
-      const markets = vaults.BegoniaVault
-      console.log('Creating Begonia Vault...')
-      process.stdout.write('Setting initial amount approval...')
-      await (await dsu.approve(vaultFactory.address, INITIAL_AMOUNT.mul(2).mul(1e12))).wait()
-      process.stdout.write('done.\n')
-      const oracleAddress0 = await oracleFactory.oracles(markets[0][0])
-      const payoffAddress0 = markets[0][1] === '' ? ethers.constants.AddressZero : (await get(markets[0][1])).address
-      const initialMarket0 = await marketFactory.markets(oracleAddress0, payoffAddress0)
-      const name = 'Begonia'
-
-      const vaultAddress = await vaultFactory.callStatic.create(dsu.address, initialMarket0, name)
-      const receipt = await (await vaultFactory.create(dsu.address, initialMarket0, name)).wait()
-      await save('BegoniaVault', {
-        ...(await get('VaultImpl')),
-        address: vaultAddress,
-        receipt,
-      })
-
-      // TODO: configure vault once market parameters are set
-      // cap: $2M
-
-      // process.stdout.write('configuring...')
-      const vault = new Vault__factory(deployerSigner).attach(vaultAddress)
-      const oracleAddress1 = await oracleFactory.oracles(markets[1][0])
-      const payoffAddress1 = markets[1][1] === '' ? ethers.constants.AddressZero : (await get(markets[1][1])).address
-      const initialMarket1 = await marketFactory.markets(oracleAddress1, payoffAddress1)
-      await vault.register(initialMarket1)
-      await vault.updateMarket(0, ethers.utils.parseUnits('0.5', 6), ethers.utils.parseUnits('1', 6))
-      await vault.updateMarket(1, ethers.utils.parseUnits('0.5', 6), ethers.utils.parseUnits('1', 6))
-
-      console.log('Begonia Vault created')
+    const asset = IERC20__factory.connect((await get(vaultConfig.asset)).address, deployerSigner)
+    const initialMarket = Market__factory.connect(marketAddresses[0], deployerSigner)
+    const initialAmount = INITIAL_AMOUNT.add((await initialMarket.parameter()).settlementFee)
+    process.stdout.write('Setting initial amount approval...')
+    await (await asset.approve(vaultFactory.address, initialAmount.mul(1e12))).wait()
+    process.stdout.write('complete\n')
+
+    const vaultAddress = await vaultFactory.callStatic.create(asset.address, initialMarket.address, vaultConfig.name)
+    process.stdout.write(`deploying at ${vaultAddress}...`)
+    const receipt = await (await vaultFactory.create(asset.address, initialMarket.address, vaultConfig.name)).wait()
+    await save(vaultConfig.key, {
+      ...(await get('VaultImpl')),
+      address: vaultAddress,
+      receipt,
+    })
+    process.stdout.write('complete\n')
+
+    // The initial market is registered on creation, the remaining markets are registered in order
+    process.stdout.write('configuring...')
+    const vault = new Vault__factory(deployerSigner).attach(vaultAddress)
+    for (const [i, registration] of vaultConfig.markets.entries()) {
+      if (i > 0) await ownerCall(hre, vault, 'register', [marketAddresses[i]])
+      await ownerCall(hre, vault, 'updateMarket', [i, registration.weight, registration.leverage])
     }
+    await ownerCall(hre, vault, 'updateParameter', [vaultConfig.parameter])
+    process.stdout.write('complete\n')
+
+    await verifyRegistrations(vault, vaultConfig, marketAddresses)
+    console.log(`${vaultConfig.name} vault created`)
   }
 
   // If mainnet, use timelock as owner
@@ -181,10 +137,27 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   // Transfer pending ownership
   if ((await vaultFactory.owner()).toLowerCase() !== owner.toLowerCase()) {
     process.stdout.write('Setting owner...')
-    await (await vaultFactory.updatePendingOwner(owner)).wait()
+    await ownerCall(hre, vaultFactory, 'updatePendingOwner', [owner])
     process.stdout.write('complete\n')
   }
 }
 
+// Checks that the vault's registrations match its spec after creation
+async function verifyRegistrations(vault: Vault, vaultConfig: VaultConfig, marketAddresses: string[]) {
+  const totalMarkets = await vault.totalMarkets()
+  if (!totalMarkets.eq(vaultConfig.markets.length))
+    throw new Error(`${vaultConfig.key} has ${totalMarkets} markets, expected ${vaultConfig.markets.length}`)
+
+  for (const [i, { weight, leverage }] of vaultConfig.markets.entries()) {
+    const registration = await vault.registrations(i)
+    if (
+      registration.market.toLowerCase() !== marketAddresses[i].toLowerCase() ||
+      !weight.eq(registration.weight) ||
+      !leverage.eq(registration.leverage)
+    )
+      throw new Error(`${vaultConfig.key} registration ${i} does not match the vault spec`)
+  }
+}
+
 export default func
 func.tags = ['Vault']
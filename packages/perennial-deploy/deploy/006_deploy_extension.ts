@@ -8,9 +8,10 @@ import {
   VaultFactory__factory,
 } from '../types/generated'
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
-import { constants, utils } from 'ethers'
+import { constants } from 'ethers'
 import { isArbitrum } from '../../common/testutil/network'
 import { L1_GAS_BUFFERS } from './003_deploy_oracle'
+import { buildApprove, Invocation } from '../../common/util/invoke'
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployments, getNamedAccounts, ethers } = hre
@@ -74,13 +75,10 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
     approvalTargets.map(async target => {
       const allowance = await DSU.callStatic.allowance(multiInvoker.address, target)
       if (allowance === constants.MaxUint256) return null
-      return {
-        action: 8,
-        args: utils.defaultAbiCoder.encode(['address'], [target]),
-      }
+      return buildApprove({ target })
     }),
   )
-  const approvalActions = approvalActions_.filter(e => e !== null) as { action: number; args: string }[]
+  const approvalActions = approvalActions_.filter(e => e !== null) as Invocation[]
   if (approvalActions.length > 0) {
     process.stdout.write('Approving targets...')
     await (await multiInvoker.invoke(approvalActions)).wait()
@@ -5,6 +5,8 @@ import { isArbitrum, isMainnet } from '../../common/testutil/network'
 import { OracleFactory__factory, ProxyAdmin__factory, PythFactory__factory } from '../types/generated'
 import { INITIAL_AMOUNT } from './005_deploy_vault'
 import { DEFAULT_GRANULARITY } from './003_deploy_oracle'
+import { KEEPER_ORACLE_TIMEOUT, PYTH_VALID_FROM, PYTH_VALID_TO } from '../util/immutables'
+import { getProposalMode, ownerCall } from '../util/proposal'
 
 const SkipIfAlreadyDeployed = false
 
@@ -47,7 +49,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const pythFactoryContract = isArbitrum(getNetworkName()) ? 'PythFactory_Arbitrum' : 'PythFactory_Optimism'
   await deploy('KeeperOracleImpl', {
     contract: 'KeeperOracle',
-    args: [60],
+    args: [KEEPER_ORACLE_TIMEOUT],
     from: deployer,
     skipIfAlreadyDeployed: SkipIfAlreadyDeployed,
     log: true,
@@ -58,8 +60,8 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
     args: [
       (await get('Pyth')).address,
       (await get('KeeperOracleImpl')).address,
-      4,
-      12,
+      PYTH_VALID_FROM,
+      PYTH_VALID_TO,
       {
         multiplierBase: 0, // Unused
         bufferBase: 900_000, // Each Call uses approx 750k gas
@@ -103,7 +105,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   // Authorize Oracle Factory
   if (!(await pythFactory.callers(oracleFactory.address))) {
     process.stdout.write('Authorizing oracle factory to call pyth factory...')
-    await (await pythFactory.authorize(oracleFactory.address)).wait()
+    await ownerCall(hre, pythFactory, 'authorize', [oracleFactory.address])
     process.stdout.write('complete\n')
   }
 
@@ -113,11 +115,10 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   for (const id of Object.values(oracleIDs)) {
     if ((await pythFactory.oracles(id)).toLowerCase() === ethers.constants.AddressZero.toLowerCase()) {
       process.stdout.write(`Associating pyth oracle id ${id}...`)
-      await (await pythFactory.associate(id, id)).wait()
+      await ownerCall(hre, pythFactory, 'associate', [id, id])
       process.stdout.write(`Creating pyth oracle ${id}...`)
-      const address = await pythFactory.callStatic.create(id)
-      process.stdout.write(`deploying at ${address}...`)
-      await (await pythFactory.create(id)).wait()
+      if (!(await ownerCall(hre, pythFactory, 'create', [id])))
+        process.stdout.write(`deployed at ${await pythFactory.oracles(id)}...`)
       process.stdout.write('complete\n')
     }
   }
@@ -128,14 +129,14 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   if ((await pythFactory.owner()).toLowerCase() !== owner.toLowerCase()) {
     process.stdout.write('Setting owner...')
-    await (await pythFactory.updatePendingOwner(owner)).wait()
+    await ownerCall(hre, pythFactory, 'updatePendingOwner', [owner])
     process.stdout.write('complete\n')
   }
 
   // Update granularity
   if ((await pythFactory.granularity()).effectiveAfter.eq(0)) {
     process.stdout.write('Setting granularity...')
-    await (await pythFactory.updateGranularity(DEFAULT_GRANULARITY)).wait()
+    await ownerCall(hre, pythFactory, 'updateGranularity', [DEFAULT_GRANULARITY])
     process.stdout.write('complete\n')
   }
 
@@ -213,6 +214,37 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
     autoMine: true,
   })
 
+  // In proposal mode, the timelock operations of steps 1 and 3 are added to the proposal
+  if (getProposalMode()) {
+    process.stdout.write('Proposing migration...')
+    const multiInvokerImpl = isArbitrum(getNetworkName()) ? 'MultiInvokerImpl_Arbitrum' : 'MultiInvokerImpl'
+    await ownerCall(hre, oracleFactory, 'register', [pythFactory.address])
+    await ownerCall(hre, proxyAdmin, 'upgradeAndCall', [
+      oracleFactory.address,
+      (await get('OracleFactoryImpl')).address,
+      oracleFactory.interface.encodeFunctionData('initialize', [
+        (await get('DSU')).address,
+        (await get('USDC')).address,
+        (await get('DSUReserve')).address,
+      ]),
+    ])
+    await ownerCall(hre, proxyAdmin, 'upgrade', [
+      (await get('MarketFactory')).address,
+      (await get('MarketFactoryImpl')).address,
+    ])
+    await ownerCall(hre, proxyAdmin, 'upgrade', [
+      (await get('VaultFactory')).address,
+      (await get('VaultFactoryImpl')).address,
+    ])
+    await ownerCall(hre, proxyAdmin, 'upgrade', [
+      (await get('MultiInvoker')).address,
+      (await get(multiInvokerImpl)).address,
+    ])
+    for (const id of oracleIDs) await ownerCall(hre, oracleFactory, 'update', [id, pythFactory.address])
+    await ownerCall(hre, pythFactory, 'acceptOwner', [], { owner })
+    process.stdout.write('complete\n')
+  }
+
   console.log(`
     Step 0 of migration complete! Next Steps:
     1. Register new PythFactory with OracleFactory
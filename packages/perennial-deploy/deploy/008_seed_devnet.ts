@@ -0,0 +1,134 @@
+import { constants, utils, Wallet } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { DeployFunction } from 'hardhat-deploy/types'
+import {
+  DevnetToken__factory,
+  IMarketFactory__factory,
+  IOracleFactory__factory,
+  Market,
+  Market__factory,
+  Vault,
+  Vault__factory,
+} from '../types/generated'
+import { commitDevnetPrices, getDevnetPrices, isDevnet } from '../util/devnet'
+import { getMarketAddress } from '../util/market'
+import { loadMarketConfig } from '../util/marketConfig'
+
+// Accounts funded with USDC and DSU, in hardhat account order
+const FUNDED_ACCOUNTS = ['deployer', 'maker', 'long', 'short', 'vault depositor', '', '', '', '', '']
+const FUNDED_AMOUNT = '1000000'
+
+// Positions opened in each market, sized by notional at the seed price
+const SEED_COLLATERAL = utils.parseUnits('100000', 6)
+const SEED_MAKER_NOTIONAL = '1000000'
+const SEED_LONG_NOTIONAL = '200000'
+const SEED_SHORT_NOTIONAL = '100000'
+const SEED_VAULT_DEPOSIT = utils.parseUnits('100000', 6)
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, ethers } = hre
+  const { get, getNetworkName } = deployments
+  if (!isDevnet(getNetworkName())) {
+    console.log('Skipping. Devnet seeding is only run on a local network without a fork')
+    return
+  }
+
+  const signers = (await ethers.getSigners()).slice(0, FUNDED_ACCOUNTS.length)
+  const [, makerSigner, longSigner, shortSigner, depositorSigner] = signers
+  const USDC = DevnetToken__factory.connect((await get('USDC')).address, signers[0])
+  const DSU = DevnetToken__factory.connect((await get('DSU')).address, signers[0])
+
+  // Fund accounts
+  process.stdout.write('Funding accounts...')
+  for (const signer of signers) {
+    await (await USDC.mint(signer.address, utils.parseUnits(FUNDED_AMOUNT, 6))).wait()
+    await (await DSU.mint(signer.address, utils.parseEther(FUNDED_AMOUNT))).wait()
+  }
+  process.stdout.write('complete\n')
+
+  // Orders are rejected against a stale price, so a fresh price is committed before opening positions
+  const config = loadMarketConfig(getNetworkName())
+  const marketFactory = IMarketFactory__factory.connect((await get('MarketFactory')).address, ethers.provider)
+  const oracleFactory = IOracleFactory__factory.connect((await get('OracleFactory')).address, ethers.provider)
+  const prices = await getDevnetPrices(hre, Array.from(new Set(config.markets.map(market => market.oracleId))))
+  await commitDevnetPrices(hre, prices)
+
+  // Open positions
+  const markets: Market[] = []
+  for (const marketConfig of config.markets) {
+    const market = Market__factory.connect(
+      await getMarketAddress(hre, marketFactory, oracleFactory, marketConfig),
+      ethers.provider,
+    )
+    const size = (notional: string) => utils.parseUnits(notional, 6).mul(1e6).div(prices[marketConfig.oracleId])
+
+    process.stdout.write(`Opening positions in market ${marketConfig.key}...`)
+    for (const [signer, maker, long, short] of [
+      [makerSigner, size(SEED_MAKER_NOTIONAL), 0, 0],
+      [longSigner, 0, size(SEED_LONG_NOTIONAL), 0],
+      [shortSigner, 0, 0, size(SEED_SHORT_NOTIONAL)],
+    ] as const) {
+      await (await DSU.connect(signer).approve(market.address, constants.MaxUint256)).wait()
+      await (await market.connect(signer).update(signer.address, maker, long, short, SEED_COLLATERAL, false)).wait()
+    }
+    markets.push(market)
+    process.stdout.write('complete\n')
+  }
+
+  // Fund vaults
+  const vaults: Vault[] = []
+  for (const vaultConfig of config.vaults) {
+    const vault = Vault__factory.connect((await get(vaultConfig.key)).address, depositorSigner)
+    process.stdout.write(`Depositing into ${vaultConfig.name} vault...`)
+    await (await DSU.connect(depositorSigner).approve(vault.address, constants.MaxUint256)).wait()
+    await (await vault.update(depositorSigner.address, SEED_VAULT_DEPOSIT, 0, 0)).wait()
+    vaults.push(vault)
+    process.stdout.write('complete\n')
+  }
+
+  // Settle the seeded orders at the next price
+  process.stdout.write('Settling seeded orders...')
+  await commitDevnetPrices(hre, prices)
+  for (const market of markets) {
+    for (const signer of [makerSigner, longSigner, shortSigner]) {
+      await (
+        await market
+          .connect(signer)
+          .update(signer.address, constants.MaxUint256, constants.MaxUint256, constants.MaxUint256, 0, false)
+      ).wait()
+    }
+  }
+  for (const vault of vaults) await (await vault.settle(depositorSigner.address)).wait()
+  process.stdout.write('complete\n')
+
+  printAccounts(hre, FUNDED_ACCOUNTS.length)
+  return true
+}
+
+// Prints the funded accounts with their private keys, derived from the hardhat network's accounts config which the
+// local node shares
+function printAccounts(hre: HardhatRuntimeEnvironment, count: number) {
+  const accounts = hre.config.networks.hardhat.accounts
+  const privateKeys = Array.isArray(accounts)
+    ? accounts.map(account => account.privateKey)
+    : Array.from(
+        { length: count },
+        (_, i) =>
+          utils.HDNode.fromMnemonic(accounts.mnemonic, accounts.passphrase).derivePath(
+            `${accounts.path}/${accounts.initialIndex + i}`,
+          ).privateKey,
+      )
+
+  console.log('Devnet accounts, funded with USDC and DSU:')
+  console.table(
+    privateKeys.slice(0, count).map((privateKey, i) => ({
+      role: FUNDED_ACCOUNTS[i],
+      address: new Wallet(privateKey).address,
+      privateKey,
+    })),
+  )
+}
+
+export default func
+func.id = 'SeedDevnet'
+func.tags = ['DevnetSeed']
@@ -30,6 +30,7 @@ const config = defaultConfig({
     '@equilibria/perennial-v2-oracle/contracts/pyth/PythFactory.sol',
     '@equilibria/perennial-v2-oracle/contracts/pyth/PythFactory_Arbitrum.sol',
     '@equilibria/perennial-v2-oracle/contracts/pyth/PythFactory_Optimism.sol',
+    '@pythnetwork/pyth-sdk-solidity/MockPyth.sol',
     '@equilibria/perennial-v2/contracts/Market.sol',
     '@equilibria/perennial-v2/contracts/MarketFactory.sol',
     '@equilibria/perennial-v2-vault/contracts/Vault.sol',
@@ -0,0 +1,7 @@
+export * from '../common/util/invoke'
+export * as Fixed6 from '../common/util/fixed6'
+export * from '../common/util/position'
+export * from '../common/util/order'
+export * from '../common/util/version'
+export * from '../common/util/local'
+export * from './util/quote'
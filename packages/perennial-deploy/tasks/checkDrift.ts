@@ -0,0 +1,251 @@
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { BigNumber, constants, utils } from 'ethers'
+import { forkNetwork, isFork, isSupported } from '../../common/testutil/network'
+import { DEFAULT_BLOCK_RANGE, deploymentBlock, queryInRanges } from '../util/events'
+import { getFeeReceivers, getMarketAddress } from '../util/market'
+import {
+  FieldSchema,
+  loadMarketConfig,
+  MARKET_PARAMETER_SCHEMA,
+  REGISTRATION_SCHEMA,
+  RISK_PARAMETER_SCHEMA,
+  Schema,
+  VAULT_PARAMETER_SCHEMA,
+  VaultRegistrationConfig,
+} from '../util/marketConfig'
+import { getOwner, getProposalMode, getProposalPath, propose } from '../util/proposal'
+
+interface FieldDrift {
+  field: string
+  actual: string
+  intended: string
+}
+
+interface Reconciliation {
+  to: string
+  method: string
+  data: string
+}
+
+export default task('check-drift', 'Diffs on-chain market and vault parameters against the network config')
+  .addFlag(
+    'reconcile',
+    'Print the calldata needed to reconcile drifted parameters, adding it to the proposal in proposal mode',
+  )
+  .addOptionalParam('blockrange', 'The number of blocks to scan per log query', DEFAULT_BLOCK_RANGE, types.int)
+  .setAction(async ({ reconcile, blockrange }: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const {
+      ethers,
+      deployments: { get, getOrNull, getNetworkName },
+    } = HRE
+
+    if (!isSupported(getNetworkName())) {
+      console.log('Invalid Network.')
+      return
+    }
+
+    const config = loadMarketConfig(isFork() ? forkNetwork() : getNetworkName())
+    const latestBlock = await ethers.provider.getBlockNumber()
+    const marketFactoryDeployment = await get('MarketFactory')
+    const marketFactory = await ethers.getContractAt('IMarketFactory', marketFactoryDeployment.address)
+    const oracleFactory = await ethers.getContractAt('IOracleFactory', (await get('OracleFactory')).address)
+    const vaultFactoryDeployment = await get('VaultFactory')
+    const vaultFactory = await ethers.getContractAt('IVaultFactory', vaultFactoryDeployment.address)
+
+    const reconciliations: Reconciliation[] = []
+    let drifted = 0
+
+    // Markets
+    const markets = await queryInRanges(deploymentBlock(marketFactoryDeployment), latestBlock, blockrange, (from, to) =>
+      marketFactory.queryFilter(marketFactory.filters.InstanceRegistered(), from, to),
+    )
+    const registeredAt = new Map(markets.map(marketEvent => [marketEvent.args.instance, marketEvent.blockNumber]))
+    const configuredMarkets = new Map<string, string>()
+    for (const marketConfig of config.markets) {
+      const marketAddress = await getMarketAddress(HRE, marketFactory, oracleFactory, marketConfig)
+      console.log('-------------------')
+      if (marketAddress === constants.AddressZero) {
+        console.log(`${marketConfig.key}: market has not been created`)
+        drifted++
+        continue
+      }
+      configuredMarkets.set(marketAddress, marketConfig.key)
+      console.log(`${marketConfig.key}: ${marketAddress}`)
+
+      const market = await ethers.getContractAt('IMarket', marketAddress)
+      const [parameter, riskParameter] = await Promise.all([market.parameter(), market.riskParameter()])
+      const parameterDrift = diff(parameter, marketConfig.marketParameter, MARKET_PARAMETER_SCHEMA, 'parameter')
+      const riskParameterDrift = diff(riskParameter, marketConfig.riskParameter, RISK_PARAMETER_SCHEMA, 'riskParameter')
+      printDrift([...parameterDrift, ...riskParameterDrift])
+
+      if (parameterDrift.length > 0) {
+        // The beneficiary and coordinator are set alongside the parameter, so are kept at their current values
+        const { beneficiary, coordinator } = await getFeeReceivers(
+          market,
+          registeredAt.get(marketAddress) ?? deploymentBlock(marketFactoryDeployment),
+          latestBlock,
+          blockrange,
+        )
+        reconciliations.push({
+          to: marketAddress,
+          method: 'updateParameter',
+          data: market.interface.encodeFunctionData('updateParameter', [
+            beneficiary,
+            coordinator,
+            marketConfig.marketParameter,
+          ]),
+        })
+      }
+      if (riskParameterDrift.length > 0)
+        reconciliations.push({
+          to: marketAddress,
+          method: 'updateRiskParameter',
+          data: market.interface.encodeFunctionData('updateRiskParameter', [marketConfig.riskParameter]),
+        })
+      if (parameterDrift.length > 0 || riskParameterDrift.length > 0) drifted++
+    }
+
+    for (const marketEvent of markets) {
+      if (configuredMarkets.has(marketEvent.args.instance)) continue
+      console.log('-------------------')
+      console.log(`${marketEvent.args.instance}: market is not in the config`)
+    }
+
+    // Vaults
+    const configuredVaults = new Set<string>()
+    for (const vaultConfig of config.vaults) {
+      const deployment = await getOrNull(vaultConfig.key)
+      console.log('-------------------')
+      if (!deployment) {
+        console.log(`${vaultConfig.key}: vault has not been created`)
+        drifted++
+        continue
+      }
+      configuredVaults.add(deployment.address)
+      console.log(`${vaultConfig.key}: ${deployment.address}`)
+
+      const vault = await ethers.getContractAt('IVault', deployment.address)
+      const [parameter, totalMarkets] = await Promise.all([vault.parameter(), vault.totalMarkets()])
+      const vaultDrift = diff(parameter, vaultConfig.parameter, VAULT_PARAMETER_SCHEMA, 'parameter')
+      if (vaultDrift.length > 0)
+        reconciliations.push({
+          to: vault.address,
+          method: 'updateParameter',
+          data: vault.interface.encodeFunctionData('updateParameter', [vaultConfig.parameter]),
+        })
+
+      // Registrations are compared by market id, as markets can not be reordered or removed once registered
+      const registrationDrift: FieldDrift[] = []
+      for (let marketId = 0; marketId < Math.max(totalMarkets.toNumber(), vaultConfig.markets.length); marketId++) {
+        const intended = vaultConfig.markets[marketId] as VaultRegistrationConfig | undefined
+        const registration = marketId < totalMarkets.toNumber() ? await vault.registrations(marketId) : undefined
+        const prefix = `registrations.${marketId}`
+
+        if (!intended) {
+          registrationDrift.push({
+            field: `${prefix}.market`,
+            actual: registration?.market ?? 'none',
+            intended: 'none',
+          })
+          continue
+        }
+        const intendedMarket = await getMarketAddress(HRE, marketFactory, oracleFactory, intended.market)
+        const updateMarket = {
+          to: vault.address,
+          method: 'updateMarket',
+          data: vault.interface.encodeFunctionData('updateMarket', [marketId, intended.weight, intended.leverage]),
+        }
+
+        if (!registration) {
+          registrationDrift.push({ field: `${prefix}.market`, actual: 'unregistered', intended: intendedMarket })
+          reconciliations.push(
+            {
+              to: vault.address,
+              method: 'register',
+              data: vault.interface.encodeFunctionData('register', [intendedMarket]),
+            },
+            updateMarket,
+          )
+          continue
+        }
+        if (registration.market !== intendedMarket) {
+          registrationDrift.push({ field: `${prefix}.market`, actual: registration.market, intended: intendedMarket })
+          continue
+        }
+
+        const fieldDrift = diff(registration, intended, REGISTRATION_SCHEMA, prefix)
+        registrationDrift.push(...fieldDrift)
+        if (fieldDrift.length > 0) reconciliations.push(updateMarket)
+      }
+
+      printDrift([...vaultDrift, ...registrationDrift])
+      if (vaultDrift.length > 0 || registrationDrift.length > 0) drifted++
+    }
+
+    const vaults = await queryInRanges(deploymentBlock(vaultFactoryDeployment), latestBlock, blockrange, (from, to) =>
+      vaultFactory.queryFilter(vaultFactory.filters.InstanceRegistered(), from, to),
+    )
+    for (const vaultEvent of vaults) {
+      if (configuredVaults.has(vaultEvent.args.instance)) continue
+      console.log('-------------------')
+      console.log(`${vaultEvent.args.instance}: vault is not in the config`)
+    }
+
+    console.log('-------------------')
+    console.log(drifted > 0 ? `${drifted} markets or vaults drifted from the config` : 'No drift detected')
+    if (drifted > 0) process.exitCode = 1
+
+    if (reconcile && reconciliations.length > 0) {
+      console.log('Reconciliation calldata')
+      for (const { to, method, data } of reconciliations) console.log(`  ${method} to: ${to}, data: ${data}`)
+
+      // In proposal mode, the reconciliation is also added to the proposal for the owner of each market and vault
+      if (getProposalMode()) {
+        for (const { to, method, data } of reconciliations) {
+          const contract = await ethers.getContractAt('IMarket', to)
+          await propose(HRE, {
+            owner: await getOwner(contract),
+            target: to,
+            value: '0',
+            data,
+            description: `${method} on ${to}`,
+          })
+        }
+        process.stdout.write(`written to ${getProposalPath(HRE)}\n`)
+      }
+    }
+  })
+
+// Compares each field of the schema, formatting UFixed6 values as decimals
+function diff(actual: unknown, intended: unknown, schema: Schema, prefix: string): FieldDrift[] {
+  const drift: FieldDrift[] = []
+  const actualValues = actual as Record<string, unknown>
+  const intendedValues = intended as Record<string, unknown>
+
+  for (const [key, field] of Object.entries(schema)) {
+    const path = `${prefix}.${key}`
+    if (!('type' in field)) {
+      drift.push(...diff(actualValues[key], intendedValues[key], field as Schema, path))
+      continue
+    }
+
+    const fieldSchema = field as FieldSchema
+    const format = (value: unknown) =>
+      fieldSchema.type === 'bool'
+        ? String(value)
+        : fieldSchema.type === 'ufixed6'
+        ? utils.formatUnits(value as BigNumber, 6)
+        : BigNumber.from(value).toString()
+    const [actualValue, intendedValue] = [format(actualValues[key]), format(intendedValues[key])]
+    if (actualValue !== intendedValue) drift.push({ field: path, actual: actualValue, intended: intendedValue })
+  }
+
+  return drift
+}
+
+function printDrift(drift: FieldDrift[]) {
+  if (drift.length === 0) console.log('  matches config')
+  for (const { field, actual, intended } of drift) console.log(`  ${field}: ${actual} -> ${intended}`)
+}
@@ -0,0 +1,316 @@
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { join } from 'path'
+import { BigNumber, constants, utils } from 'ethers'
+import { IMarket } from '../types/generated'
+import {
+  LocalStructOutput,
+  PositionStructOutput,
+  RiskParameterStructOutput,
+} from '../types/generated/@equilibria/perennial-v2/contracts/interfaces/IMarket'
+import { forkNetwork, isFork, isLocalhost, isSupported } from '../../common/testutil/network'
+import {
+  DEFAULT_BLOCK_RANGE,
+  deploymentBlock,
+  loadEventCache,
+  queryInRanges,
+  saveEventCache,
+  scanWithCache,
+} from '../util/events'
+import {
+  aggregateInBatches,
+  BatchOptions,
+  Call3,
+  DEFAULT_BACKOFF,
+  DEFAULT_BATCH_SIZE,
+  DEFAULT_RETRIES,
+  multicallContract,
+} from '../util/multicall'
+import { magnitude, maintenance, margin } from '../../common/util/position'
+import { parseReportFormat, REPORT_FORMATS, ReportRow, reportAction, toCsv } from '../util/report'
+
+export default task('check-health', 'Ranks every account with an open position by distance to liquidation')
+  .addOptionalParam(
+    'fromblock',
+    'The block to start scanning events from, defaults to the block each market was registered in',
+    undefined,
+    types.int,
+  )
+  .addOptionalParam('blockrange', 'The number of blocks to scan per log query', DEFAULT_BLOCK_RANGE, types.int)
+  .addOptionalParam('cachefile', 'The file scanned event ranges are cached in', undefined, types.string)
+  .addOptionalParam('batchsize', 'The number of accounts to check per multicall', DEFAULT_BATCH_SIZE, types.int)
+  .addOptionalParam('retries', 'The number of times to retry a failed multicall', DEFAULT_RETRIES, types.int)
+  .addOptionalParam('backoff', 'The initial delay in ms before retrying a multicall', DEFAULT_BACKOFF, types.int)
+  .addOptionalParam('delay', 'The delay in ms between multicalls', 0, types.int)
+  .addOptionalParam('top', 'The number of least healthy accounts to print', 20, types.int)
+  .addOptionalParam('format', `The report format (${REPORT_FORMATS.join(', ')})`, 'json', types.string)
+  .addOptionalParam(
+    'output',
+    'The file to write the report to, defaults to stdout with progress on stderr',
+    undefined,
+    types.string,
+  )
+  .setAction(
+    reportAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+      const { fromblock, blockrange, cachefile, batchsize, retries, backoff, delay, top, format } = args
+      const reportFormat = parseReportFormat(format)
+      const batchOptions: BatchOptions = { batchSize: batchsize, retries, backoff, delay }
+      const {
+        ethers,
+        deployments: { get, getNetworkName },
+      } = HRE
+
+      if (!isSupported(getNetworkName())) {
+        console.log('Invalid Network.')
+        return
+      }
+
+      const cacheNetwork = isLocalhost(getNetworkName()) && isFork() ? forkNetwork() : getNetworkName()
+      const cachePath = cachefile ?? join(HRE.config.paths.cache, 'check-health', `${cacheNetwork}.json`)
+      const cache = loadEventCache<string[]>(cachePath)
+      const latestBlock = await ethers.provider.getBlockNumber()
+
+      const marketFactoryDeployment = await get('MarketFactory')
+      const marketFactory = await ethers.getContractAt('IMarketFactory', marketFactoryDeployment.address)
+      const markets = await queryInRanges(
+        deploymentBlock(marketFactoryDeployment),
+        latestBlock,
+        blockrange,
+        (from, to) => marketFactory.queryFilter(marketFactory.filters.InstanceRegistered(), from, to),
+      )
+      const multicall = multicallContract(ethers.provider)
+      const report: AccountHealth[] = []
+      const failed: { market: string; account: string; reason: string }[] = []
+
+      for (const marketEvent of markets) {
+        const marketAddress = marketEvent.args.instance
+        console.log('-------------------')
+        console.log('Checking market:', marketAddress)
+        const market = await ethers.getContractAt('IMarket', marketAddress)
+
+        const accounts = await scanWithCache(
+          cache,
+          marketAddress,
+          fromblock ?? marketEvent.blockNumber,
+          latestBlock,
+          [],
+          (from, to, previous) => getAccountsFromEvents(market, from, to, blockrange, previous),
+        )
+        saveEventCache(cachePath, cache)
+        console.log(`${marketAddress}: Found ${accounts.length} accounts. Checking positions...`)
+
+        const [riskParameter, price] = await Promise.all([market.riskParameter(), latestPrice(HRE, market)])
+
+        // Settle each account and read its latest state
+        const states = await aggregateInBatches(
+          multicall,
+          accounts.map(account => ({
+            key: account,
+            calls: settleAndCall(market, account, readLocalAndPosition(market, account)),
+          })),
+          batchOptions,
+        )
+        const settled: { account: string; local: LocalStructOutput; latest: PositionStructOutput }[] = []
+        for (const state of states) {
+          if ('error' in state) {
+            failed.push({ market: marketAddress, account: state.key, reason: state.error })
+            continue
+          }
+          const [, localResult, positionResult] = state.results
+          if (!localResult.success || !positionResult.success) {
+            failed.push({ market: marketAddress, account: state.key, reason: 'Reading account state reverted' })
+            continue
+          }
+          settled.push({
+            account: state.key,
+            local: market.interface.decodeFunctionResult('locals', localResult.returnData)[0],
+            latest: market.interface.decodeFunctionResult('positions', positionResult.returnData)[0],
+          })
+        }
+
+        // Read the pending positions that remain after settlement
+        const pendings = await aggregateInBatches(
+          multicall,
+          settled.map(({ account, local }) => ({
+            key: account,
+            calls: settleAndCall(market, account, readPendingPositions(market, account, local)),
+          })),
+          batchOptions,
+        )
+        const pendingByAccount = new Map(pendings.map(pending => [pending.key, pending]))
+        for (const { account, local, latest } of settled) {
+          const pending = pendingByAccount.get(account)
+          if (!pending || 'error' in pending || pending.results.slice(1).some(r => !r.success)) {
+            failed.push({ market: marketAddress, account, reason: 'Reading pending positions failed' })
+            continue
+          }
+          const pendingPositions: PositionStructOutput[] = pending.results
+            .slice(1)
+            .map(r => market.interface.decodeFunctionResult('pendingPositions', r.returnData)[0])
+
+          const health = computeHealth(marketAddress, account, local, latest, pendingPositions, price, riskParameter)
+          if (health) report.push(health)
+        }
+      }
+
+      report.sort(compareHealth)
+
+      console.log('-------------------')
+      console.log(`Found ${report.length} accounts with open positions, ${failed.length} accounts could not be checked`)
+      for (const health of report.slice(0, top)) {
+        console.log(
+          `${health.market} ${health.account}: health ${formatRatio(health.health)}, buffer ${utils.formatUnits(
+            health.buffer,
+            6,
+          )} USD${health.liquidatable ? ' (liquidatable)' : ''}`,
+        )
+      }
+
+      const rows = report.map(healthRow)
+      return reportFormat === 'csv'
+        ? toCsv([...rows.map(r => ({ type: 'account', ...r })), ...failed.map(f => ({ type: 'failed', ...f }))])
+        : JSON.stringify({ accounts: rows, failedAccounts: failed }, null, 2) + '\n'
+    }),
+  )
+
+interface AccountHealth {
+  market: string
+  account: string
+  price: BigNumber
+  latestMagnitude: BigNumber
+  currentMagnitude: BigNumber
+  collateral: BigNumber
+  pendingCollateral: BigNumber
+  maintenance: BigNumber
+  margin: BigNumber
+  buffer: BigNumber
+  health: BigNumber | null
+  liquidatable: boolean
+  protected: boolean
+}
+
+// Mirrors the collateral and requirement checks in Market._loadUpdateContext and Market._invariant.
+// Returns undefined if the account has no latest or pending position.
+function computeHealth(
+  market: string,
+  account: string,
+  local: LocalStructOutput,
+  latest: PositionStructOutput,
+  pendingPositions: PositionStructOutput[],
+  price: BigNumber,
+  riskParameter: RiskParameterStructOutput,
+): AccountHealth | undefined {
+  const latestMagnitude = magnitude(latest)
+  const currentMagnitude =
+    pendingPositions.length > 0 ? magnitude(pendingPositions[pendingPositions.length - 1]) : latestMagnitude
+  if (latestMagnitude.isZero() && currentMagnitude.isZero()) return undefined
+
+  const pendingLiquidationFee = local.protection.gt(latest.timestamp) ? local.protectionAmount : BigNumber.from(0)
+  const pendingCollateral = pendingPositions
+    .reduce((acc, position) => acc.sub(position.fee).sub(position.keeper), local.collateral)
+    .sub(pendingLiquidationFee)
+
+  const maintenanceRequirement = maintenance(latestMagnitude, price, riskParameter)
+  const marginRequirement = margin(currentMagnitude, price, riskParameter)
+  const effectiveCollateral = pendingCollateral.lt(0) ? BigNumber.from(0) : pendingCollateral
+
+  return {
+    market,
+    account,
+    price,
+    latestMagnitude,
+    currentMagnitude,
+    collateral: local.collateral,
+    pendingCollateral,
+    maintenance: maintenanceRequirement,
+    margin: marginRequirement,
+    buffer: pendingCollateral.sub(maintenanceRequirement),
+    health: maintenanceRequirement.isZero() ? null : effectiveCollateral.mul(1e6).div(maintenanceRequirement),
+    liquidatable: effectiveCollateral.lt(maintenanceRequirement),
+    protected: !pendingLiquidationFee.isZero(),
+  }
+}
+
+// Accounts without a maintenance requirement sort last, others by ascending health then buffer
+function compareHealth(a: AccountHealth, b: AccountHealth): number {
+  if (a.health === null || b.health === null) return a.health === b.health ? 0 : a.health === null ? 1 : -1
+  if (!a.health.eq(b.health)) return a.health.lt(b.health) ? -1 : 1
+  return a.buffer.eq(b.buffer) ? 0 : a.buffer.lt(b.buffer) ? -1 : 1
+}
+
+function formatRatio(value: BigNumber | null): string {
+  return value === null ? 'n/a' : utils.formatUnits(value, 6)
+}
+
+function healthRow(h: AccountHealth): ReportRow {
+  return {
+    market: h.market,
+    account: h.account,
+    price: utils.formatUnits(h.price, 6),
+    latestMagnitude: utils.formatUnits(h.latestMagnitude, 6),
+    currentMagnitude: utils.formatUnits(h.currentMagnitude, 6),
+    collateral: utils.formatUnits(h.collateral, 6),
+    pendingCollateral: utils.formatUnits(h.pendingCollateral, 6),
+    maintenance: utils.formatUnits(h.maintenance, 6),
+    margin: utils.formatUnits(h.margin, 6),
+    buffer: utils.formatUnits(h.buffer, 6),
+    health: formatRatio(h.health),
+    liquidatable: h.liquidatable,
+    protected: h.protected,
+  }
+}
+
+// Mirrors Market._oracleVersion, falling back to the last settled price if the latest version is invalid
+async function latestPrice(HRE: HardhatRuntimeEnvironment, market: IMarket): Promise<BigNumber> {
+  const { ethers } = HRE
+  const oracle = await ethers.getContractAt('IOracleProvider', await market.oracle())
+  const latestVersion = await oracle.latest()
+  if (!latestVersion.valid) return (await market.global()).latestPrice
+
+  const payoffAddress = await market.payoff()
+  if (payoffAddress === constants.AddressZero) return latestVersion.price
+  const payoff = await ethers.getContractAt('IPayoffProvider', payoffAddress)
+  return payoff.payoff(latestVersion.price)
+}
+
+async function getAccountsFromEvents(
+  market: IMarket,
+  fromBlock: number,
+  toBlock: number,
+  blockRange: number,
+  previous: string[],
+): Promise<string[]> {
+  const updates = await queryInRanges(fromBlock, toBlock, blockRange, (from, to) =>
+    market.queryFilter(market.filters.Updated(), from, to),
+  )
+
+  return Array.from(new Set([...previous, ...updates.map(({ args }) => args.account)]))
+}
+
+function readLocalAndPosition(market: IMarket, account: string): string[] {
+  return [
+    market.interface.encodeFunctionData('locals', [account]),
+    market.interface.encodeFunctionData('positions', [account]),
+  ]
+}
+
+function readPendingPositions(market: IMarket, account: string, local: LocalStructOutput): string[] {
+  const calls: string[] = []
+  for (let id = local.latestId.add(1); id.lte(local.currentId); id = id.add(1))
+    calls.push(market.interface.encodeFunctionData('pendingPositions', [account, id]))
+  return calls
+}
+
+// Settles the account so that the given reads observe its post-settlement state
+function settleAndCall(market: IMarket, account: string, reads: string[]): Call3[] {
+  const settle = market.interface.encodeFunctionData('update', [
+    account,
+    constants.MaxUint256,
+    constants.MaxUint256,
+    constants.MaxUint256,
+    0,
+    false,
+  ])
+  return [settle, ...reads].map(callData => ({ callData, allowFailure: true, target: market.address }))
+}
@@ -0,0 +1,174 @@
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { BigNumber } from 'ethers'
+import { isSupported } from '../../common/testutil/network'
+import { DEFAULT_BLOCK_RANGE, deploymentBlock, queryInRanges } from '../util/events'
+
+interface OracleLiveness {
+  id: string
+  oracle: string
+  provider: string
+  // Deployment name of the factory that created the provider
+  providerType: string
+  latest: number
+  current: number
+  lag: number
+  staleAfter: number | null
+  stale: boolean
+  // Only keeper oracles track requested versions
+  pendingRequests: number | null
+  expiredRequests: number[]
+  // Why the oracle could not be checked
+  error: string | null
+}
+
+// Oracle provider factories a provider may have been created by, and which of them create KeeperOracles
+const PROVIDER_FACTORIES = ['PythFactory', 'DevnetOracleFactory']
+const KEEPER_FACTORIES = ['PythFactory']
+
+export default task('check-oracles', 'Checks every oracle for stale prices and uncommitted requested versions')
+  .addOptionalParam('blockrange', 'The number of blocks to scan per log query', DEFAULT_BLOCK_RANGE, types.int)
+  .setAction(async ({ blockrange }: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const {
+      ethers,
+      deployments: { get, getOrNull, getNetworkName },
+    } = HRE
+
+    if (!isSupported(getNetworkName())) {
+      console.log('Invalid Network.')
+      return
+    }
+
+    const block = await ethers.provider.getBlock('latest')
+    const oracleFactoryDeployment = await get('OracleFactory')
+    const marketFactoryDeployment = await get('MarketFactory')
+    const oracleFactory = await ethers.getContractAt('IOracleFactory', oracleFactoryDeployment.address)
+    const marketFactory = await ethers.getContractAt('IMarketFactory', marketFactoryDeployment.address)
+    const [oracles, markets] = await Promise.all([
+      queryInRanges(deploymentBlock(oracleFactoryDeployment), block.number, blockrange, (from, to) =>
+        oracleFactory.queryFilter(oracleFactory.filters.OracleCreated(), from, to),
+      ),
+      queryInRanges(deploymentBlock(marketFactoryDeployment), block.number, blockrange, (from, to) =>
+        marketFactory.queryFilter(marketFactory.filters.InstanceRegistered(), from, to),
+      ),
+    ])
+
+    // An oracle is stale once its latest version is older than the strictest staleAfter of the markets using it
+    const staleAfters = new Map<string, BigNumber>()
+    for (const marketEvent of markets) {
+      const market = await ethers.getContractAt('IMarket', marketEvent.args.instance)
+      const [oracle, riskParameter] = await Promise.all([market.oracle(), market.riskParameter()])
+      const staleAfter = staleAfters.get(oracle)
+      if (!staleAfter || riskParameter.staleAfter.lt(staleAfter)) staleAfters.set(oracle, riskParameter.staleAfter)
+    }
+
+    const providerFactories = await Promise.all(
+      PROVIDER_FACTORIES.map(async name => {
+        const deployment = await getOrNull(name)
+        return deployment
+          ? { name, factory: await ethers.getContractAt('IOracleProviderFactory', deployment.address) }
+          : undefined
+      }),
+    )
+
+    const report: OracleLiveness[] = []
+    for (const oracleEvent of oracles) {
+      const { oracle: oracleAddress, id } = oracleEvent.args
+      const staleAfter = staleAfters.get(oracleAddress)
+      let providerAddress = ''
+      let providerType = 'unknown'
+      try {
+        const oracle = await ethers.getContractAt('Oracle', oracleAddress)
+        const [[latestVersion, current], global] = await Promise.all([oracle.status(), oracle.global()])
+        providerAddress = (await oracle.oracles(global.current)).provider
+
+        // The provider type is the factory that created it, only keeper oracles have requested versions to check
+        for (const providerFactory of providerFactories) {
+          if (providerFactory && (await providerFactory.factory.oracles(id)) === providerAddress)
+            providerType = providerFactory.name
+        }
+        const requests = KEEPER_FACTORIES.includes(providerType)
+          ? await checkRequests(HRE, providerAddress, block.timestamp)
+          : undefined
+
+        const lag = current.sub(latestVersion.timestamp)
+        report.push({
+          id,
+          oracle: oracleAddress,
+          provider: providerAddress,
+          providerType,
+          latest: latestVersion.timestamp.toNumber(),
+          current: current.toNumber(),
+          lag: lag.toNumber(),
+          staleAfter: staleAfter ? staleAfter.toNumber() : null,
+          stale: staleAfter ? lag.gt(staleAfter) : false,
+          pendingRequests: requests ? requests.pending : null,
+          expiredRequests: requests ? requests.expired : [],
+          error: null,
+        })
+      } catch (e) {
+        report.push({
+          id,
+          oracle: oracleAddress,
+          provider: providerAddress,
+          providerType,
+          latest: 0,
+          current: 0,
+          lag: 0,
+          staleAfter: staleAfter ? staleAfter.toNumber() : null,
+          stale: false,
+          pendingRequests: null,
+          expiredRequests: [],
+          error: e instanceof Error ? e.message.split('\n')[0] : String(e),
+        })
+      }
+    }
+
+    console.table(
+      report.map(r => ({
+        id: r.id,
+        oracle: r.oracle,
+        type: r.providerType,
+        latest: r.latest,
+        current: r.current,
+        lag: r.lag,
+        staleAfter: r.staleAfter ?? 'n/a',
+        pending: r.pendingRequests ?? 'n/a',
+        expired: r.expiredRequests.join(', '),
+        status: unhealthy(r) ? 'FAIL' : 'OK',
+        error: r.error ?? '',
+      })),
+    )
+
+    const unhealthyCount = report.filter(unhealthy).length
+    if (unhealthyCount > 0) {
+      console.log(`${unhealthyCount} of ${report.length} oracles are unhealthy`)
+      process.exitCode = 1
+    } else {
+      console.log(`All ${report.length} oracles are healthy`)
+    }
+  })
+
+function unhealthy(r: OracleLiveness): boolean {
+  return r.error !== null || r.stale || r.expiredRequests.length > 0
+}
+
+// Requested versions that have not been committed within the timeout can no longer be committed with a price
+async function checkRequests(
+  HRE: HardhatRuntimeEnvironment,
+  providerAddress: string,
+  timestamp: number,
+): Promise<{ pending: number; expired: number[] }> {
+  const provider = await HRE.ethers.getContractAt('IKeeperOracle', providerAddress)
+  const [{ latestIndex, currentIndex }, timeout] = await Promise.all([provider.global(), provider.timeout()])
+  const requested = await Promise.all(
+    Array.from({ length: currentIndex.sub(latestIndex).toNumber() }, (_, i) =>
+      provider.versions(latestIndex.add(i + 1)),
+    ),
+  )
+  return {
+    pending: requested.length,
+    expired: requested.filter(version => version.add(timeout).lt(timestamp)).map(version => version.toNumber()),
+  }
+}
@@ -1,71 +1,265 @@
 import '@nomiclabs/hardhat-ethers'
-import { task } from 'hardhat/config'
+import { task, types } from 'hardhat/config'
 import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
 import { gql, request } from 'graphql-request'
+import { join } from 'path'
 import { IMarket } from '../types/generated'
-import { isArbitrum } from '../../common/testutil/network'
-import { constants } from 'ethers'
+import {
+  LocalStructOutput,
+  PositionStructOutput,
+} from '../types/generated/@equilibria/perennial-v2/contracts/interfaces/IMarket'
+import { forkNetwork, isArbitrum, isFork, isLocalhost, isSupported } from '../../common/testutil/network'
+import { BigNumber, constants, utils } from 'ethers'
+import {
+  DEFAULT_BLOCK_RANGE,
+  deploymentBlock,
+  loadEventCache,
+  queryInRanges,
+  saveEventCache,
+  scanWithCache,
+} from '../util/events'
+import {
+  aggregateInBatches,
+  Call3,
+  DEFAULT_BACKOFF,
+  DEFAULT_BATCH_SIZE,
+  DEFAULT_RETRIES,
+  multicallContract,
+} from '../util/multicall'
+import { parseReportFormat, REPORT_FORMATS, ReportRow, reportAction, toCsv } from '../util/report'
 
 const QueryPageSize = 1000
-const MultiCallAddress = '0xcA11bde05977b3631167028862bE2a173976CA11'
-
-export default task('check-solvency', 'Check the solvency of the given market').setAction(
-  async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
-    const {
-      ethers,
-      deployments: { getNetworkName },
-    } = HRE
-
-    const graphURL = process.env.ARBITRUM_GRAPH_URL
-    if (!graphURL || !isArbitrum(getNetworkName())) {
-      console.log('Invalid Network.')
-      return
-    }
-    const marketFactory = await ethers.getContractAt(
-      'IMarketFactory',
-      (
-        await HRE.deployments.get('MarketFactory')
-      ).address,
-    )
-    const markets = await marketFactory.queryFilter(marketFactory.filters.InstanceRegistered(), 0, 'latest')
-    let totalShortfall = 0
-
-    for (const marketEvent of markets) {
-      const marketAddress = marketEvent.args.instance
-      console.log('-------------------')
-      console.log('Checking market:', marketAddress)
-      const liquidations = Array.from(new Set(await getLiquidations(marketAddress, graphURL)))
-      console.log(`${marketAddress}: Found ${liquidations.length} liquidations. Checking for shortfalls...`)
-
-      const market = await ethers.getContractAt('IMarket', marketAddress)
-      const multicallPayload = liquidations.map(account => settleAndReadLocalsMulticallPayload(market, account)).flat()
-      const multicall = new ethers.Contract(MultiCallAddress, MultiCallABI, ethers.provider)
-
-      const result: { success: boolean; returnData: string }[] = await multicall.callStatic.aggregate3(multicallPayload)
-      const decoded = result
-        .map(r => {
-          try {
-            return market.interface.decodeFunctionResult('locals', r.returnData)
-          } catch (e) {
-            return undefined
-          }
-        })
-        .filter(r => r !== undefined)
-      const shortfalls = decoded
-        .map((r, i) => ({ result: r, account: liquidations[i] }))
-        .filter(r => BigInt(r.result?.at(0).collateral) < 0n)
-        .map(r => ({ account: r.account, shortfall: Number(r.result?.at(0).collateral) / 1e6 }))
-      const marketShortfall = shortfalls.reduce((acc, s) => acc + s.shortfall, 0)
-      console.log(
-        `${marketAddress}: Found ${shortfalls.length} accounts with shortfalls totalling ${marketShortfall} USD`,
+
+export default task('check-solvency', 'Check the solvency of the given market')
+  .addFlag('events', 'Find liquidations by scanning Updated events instead of querying the subgraph')
+  .addOptionalParam(
+    'fromblock',
+    'The block to start scanning events from, defaults to the block each market was registered in',
+    undefined,
+    types.int,
+  )
+  .addOptionalParam('blockrange', 'The number of blocks to scan per log query', DEFAULT_BLOCK_RANGE, types.int)
+  .addOptionalParam('cachefile', 'The file scanned event ranges are cached in', undefined, types.string)
+  .addOptionalParam('batchsize', 'The number of accounts to check per multicall', DEFAULT_BATCH_SIZE, types.int)
+  .addOptionalParam('retries', 'The number of times to retry a failed multicall', DEFAULT_RETRIES, types.int)
+  .addOptionalParam('backoff', 'The initial delay in ms before retrying a multicall', DEFAULT_BACKOFF, types.int)
+  .addOptionalParam('delay', 'The delay in ms between multicalls', 0, types.int)
+  .addOptionalParam('format', `The report format (${REPORT_FORMATS.join(', ')})`, 'json', types.string)
+  .addOptionalParam(
+    'output',
+    'The file to write the report to, defaults to stdout with progress on stderr',
+    undefined,
+    types.string,
+  )
+  .setAction(
+    reportAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+      const { events, fromblock, blockrange, cachefile, batchsize, retries, backoff, delay, format } = args
+      const reportFormat = parseReportFormat(format)
+      const {
+        ethers,
+        deployments: { getNetworkName },
+      } = HRE
+
+      const graphURL = process.env.ARBITRUM_GRAPH_URL
+      if (events ? !isSupported(getNetworkName()) : !graphURL || !isArbitrum(getNetworkName())) {
+        console.log('Invalid Network.')
+        return
+      }
+
+      const cacheNetwork = isLocalhost(getNetworkName()) && isFork() ? forkNetwork() : getNetworkName()
+      const cachePath = cachefile ?? join(HRE.config.paths.cache, 'check-solvency', `${cacheNetwork}.json`)
+      const cache = loadEventCache<string[]>(cachePath)
+      const latestBlock = await ethers.provider.getBlockNumber()
+
+      const marketFactoryDeployment = await HRE.deployments.get('MarketFactory')
+      const marketFactory = await ethers.getContractAt('IMarketFactory', marketFactoryDeployment.address)
+      const markets = await queryInRanges(
+        deploymentBlock(marketFactoryDeployment),
+        latestBlock,
+        blockrange,
+        (from, to) => marketFactory.queryFilter(marketFactory.filters.InstanceRegistered(), from, to),
       )
-      console.log('Shortfalls:', JSON.stringify(shortfalls, null, 2))
-      totalShortfall += marketShortfall
-    }
-    console.log('-------------------')
-    console.log(`Total shortfall: ${totalShortfall} USD`)
-  },
-)
+      const multicall = multicallContract(ethers.provider)
+      const report: MarketReport[] = []
+
+      for (const marketEvent of markets) {
+        const marketAddress = marketEvent.args.instance
+        console.log('-------------------')
+        console.log('Checking market:', marketAddress)
+        const market = await ethers.getContractAt('IMarket', marketAddress)
+
+        let liquidations: string[]
+        if (events) {
+          liquidations = await scanWithCache(
+            cache,
+            marketAddress,
+            fromblock ?? marketEvent.blockNumber,
+            latestBlock,
+            [],
+            (from, to, previous) => getLiquidationsFromEvents(market, from, to, blockrange, previous),
+          )
+          saveEventCache(cachePath, cache)
+        } else {
+          liquidations = Array.from(new Set(await getLiquidations(marketAddress, graphURL as string)))
+        }
+        console.log(`${marketAddress}: Found ${liquidations.length} liquidations. Checking for shortfalls...`)
+
+        const results = await aggregateInBatches(
+          multicall,
+          liquidations.map(account => ({ key: account, calls: settleAndReadLocalsMulticallPayload(market, account) })),
+          { batchSize: batchsize, retries, backoff, delay },
+        )
+        const accounts: AccountReport[] = []
+        const failed: FailedAccount[] = []
+        for (const result of results) {
+          if ('error' in result) {
+            failed.push({ market: marketAddress, account: result.key, reason: result.error })
+            continue
+          }
+          const [, localsResult, positionsResult] = result.results
+          if (!localsResult.success || !positionsResult.success) {
+            failed.push({ market: marketAddress, account: result.key, reason: 'Reading account state reverted' })
+            continue
+          }
+          const [local] = market.interface.decodeFunctionResult('locals', localsResult.returnData)
+          const [latestPosition] = market.interface.decodeFunctionResult('positions', positionsResult.returnData)
+          accounts.push(buildAccountReport(marketAddress, result.key, local, latestPosition))
+        }
+        if (failed.length > 0) console.log(`${marketAddress}: Failed to check ${failed.length} accounts`)
+        const global = await market.global()
+
+        const marketReport: MarketReport = {
+          market: marketAddress,
+          liquidations: liquidations.length,
+          shortfallAccounts: accounts.filter(a => a.shortfall.gt(0)).length,
+          shortfall: accounts.reduce((acc, a) => acc.add(a.shortfall), BigNumber.from(0)),
+          donation: global.donation,
+          protocolFee: global.protocolFee,
+          oracleFee: global.oracleFee,
+          riskFee: global.riskFee,
+          accounts,
+          failed,
+        }
+        console.log(
+          `${marketAddress}: Found ${marketReport.shortfallAccounts} accounts with shortfalls totalling ${formatUSD(
+            marketReport.shortfall,
+          )} USD`,
+        )
+        report.push(marketReport)
+      }
+      const totalShortfall = report.reduce((acc, m) => acc.add(m.shortfall), BigNumber.from(0))
+      console.log('-------------------')
+      console.log(`Total shortfall: ${formatUSD(totalShortfall)} USD`)
+
+      return reportFormat === 'csv' ? solvencyReportToCsv(report) : solvencyReportToJson(report)
+    }),
+  )
+
+interface AccountReport {
+  market: string
+  account: string
+  collateral: BigNumber
+  pendingLiquidationFee: BigNumber
+  protectionAmount: BigNumber
+  shortfall: BigNumber
+}
+
+interface MarketReport {
+  market: string
+  liquidations: number
+  shortfallAccounts: number
+  shortfall: BigNumber
+  donation: BigNumber
+  protocolFee: BigNumber
+  oracleFee: BigNumber
+  riskFee: BigNumber
+  accounts: AccountReport[]
+  failed: FailedAccount[]
+}
+
+interface FailedAccount {
+  market: string
+  account: string
+  reason: string
+}
+
+// Mirrors Local.pendingLiquidationFee, the liquidation fee is still owed if the protected position has not settled
+function buildAccountReport(
+  market: string,
+  account: string,
+  local: LocalStructOutput,
+  latestPosition: PositionStructOutput,
+): AccountReport {
+  const pendingLiquidationFee = local.protection.gt(latestPosition.timestamp)
+    ? local.protectionAmount
+    : BigNumber.from(0)
+  const remaining = local.collateral.sub(pendingLiquidationFee)
+
+  return {
+    market,
+    account,
+    collateral: local.collateral,
+    pendingLiquidationFee,
+    protectionAmount: local.protectionAmount,
+    shortfall: remaining.lt(0) ? remaining.mul(-1) : BigNumber.from(0),
+  }
+}
+
+function formatUSD(value: BigNumber): string {
+  return utils.formatUnits(value, 6)
+}
+
+function solvencyReportToJson(report: MarketReport[]): string {
+  return (
+    JSON.stringify(
+      {
+        totalShortfall: formatUSD(report.reduce((acc, m) => acc.add(m.shortfall), BigNumber.from(0))),
+        markets: report.map(m => ({
+          ...marketSummaryRow(m),
+          accounts: m.accounts.map(accountRow),
+          failedAccounts: m.failed,
+        })),
+      },
+      null,
+      2,
+    ) + '\n'
+  )
+}
+
+function solvencyReportToCsv(report: MarketReport[]): string {
+  return toCsv(
+    report.flatMap(m => [
+      { type: 'market', ...marketSummaryRow(m) },
+      ...m.accounts.map(a => ({ type: 'account', ...accountRow(a) })),
+      ...m.failed.map(f => ({ type: 'failed', ...f })),
+    ]),
+  )
+}
+
+function marketSummaryRow(m: MarketReport): ReportRow {
+  return {
+    market: m.market,
+    liquidations: m.liquidations,
+    shortfallAccounts: m.shortfallAccounts,
+    failedAccounts: m.failed.length,
+    shortfall: formatUSD(m.shortfall),
+    donation: formatUSD(m.donation),
+    protocolFee: formatUSD(m.protocolFee),
+    oracleFee: formatUSD(m.oracleFee),
+    riskFee: formatUSD(m.riskFee),
+  }
+}
+
+function accountRow(a: AccountReport): ReportRow {
+  return {
+    market: a.market,
+    account: a.account,
+    collateral: formatUSD(a.collateral),
+    pendingLiquidationFee: formatUSD(a.pendingLiquidationFee),
+    protectionAmount: formatUSD(a.protectionAmount),
+    shortfall: formatUSD(a.shortfall),
+  }
+}
 
 async function getLiquidations(market: string, graphURL: string): Promise<string[]> {
   const query = gql`
@@ -102,10 +296,22 @@ async function getLiquidations(market: string, graphURL: string): Promise<string
   return rawData.updateds.map(u => u.account)
 }
 
-function settleAndReadLocalsMulticallPayload(
+async function getLiquidationsFromEvents(
   market: IMarket,
-  account: string,
-): { callData: string; allowFailure: boolean; target: string }[] {
+  fromBlock: number,
+  toBlock: number,
+  blockRange: number,
+  previous: string[],
+): Promise<string[]> {
+  const updates = await queryInRanges(fromBlock, toBlock, blockRange, (from, to) =>
+    market.queryFilter(market.filters.Updated(), from, to),
+  )
+  const liquidated = updates.filter(({ args }) => args.protect).map(({ args }) => args.account)
+
+  return Array.from(new Set([...previous, ...liquidated]))
+}
+
+function settleAndReadLocalsMulticallPayload(market: IMarket, account: string): Call3[] {
   const settle = market.interface.encodeFunctionData('update', [
     account,
     constants.MaxUint256,
@@ -115,24 +321,6 @@ function settleAndReadLocalsMulticallPayload(
     false,
   ])
   const locals = market.interface.encodeFunctionData('locals', [account])
-  return [settle, locals].map(callData => ({ callData, allowFailure: true, target: market.address }))
+  const positions = market.interface.encodeFunctionData('positions', [account])
+  return [settle, locals, positions].map(callData => ({ callData, allowFailure: true, target: market.address }))
 }
-
-const MultiCallABI = [
-  'function aggregate(tuple(address target, bytes callData)[] calls) payable returns (uint256 blockNumber, bytes[] returnData)',
-  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
-  'function aggregate3Value(tuple(address target, bool allowFailure, uint256 value, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
-  'function blockAndAggregate(tuple(address target, bytes callData)[] calls) payable returns (uint256 blockNumber, bytes32 blockHash, tuple(bool success, bytes returnData)[] returnData)',
-  'function getBasefee() view returns (uint256 basefee)',
-  'function getBlockHash(uint256 blockNumber) view returns (bytes32 blockHash)',
-  'function getBlockNumber() view returns (uint256 blockNumber)',
-  'function getChainId() view returns (uint256 chainid)',
-  'function getCurrentBlockCoinbase() view returns (address coinbase)',
-  'function getCurrentBlockDifficulty() view returns (uint256 difficulty)',
-  'function getCurrentBlockGasLimit() view returns (uint256 gaslimit)',
-  'function getCurrentBlockTimestamp() view returns (uint256 timestamp)',
-  'function getEthBalance(address addr) view returns (uint256 balance)',
-  'function getLastBlockHash() view returns (bytes32 blockHash)',
-  'function tryAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
-  'function tryBlockAndAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) payable returns (uint256 blockNumber, bytes32 blockHash, tuple(bool success, bytes returnData)[] returnData)',
-]
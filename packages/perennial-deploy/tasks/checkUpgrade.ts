@@ -0,0 +1,131 @@
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { Deployment } from 'hardhat-deploy/types'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { BigNumber } from 'ethers'
+import { forkNetwork, isFork, isSupported } from '../../common/testutil/network'
+import { INTENDED_IMMUTABLES } from '../util/immutables'
+import { compareStorageLayouts, compileStorageLayout, LayoutIssue } from '../util/storageLayout'
+
+interface ImmutableCheck {
+  impl: string
+  immutable: string
+  intended: string
+  actual: string
+  result: string
+}
+
+export default task('check-upgrade', 'Checks that new implementations are storage compatible with the deployed ones')
+  .addOptionalParam(
+    'impls',
+    'Comma separated implementation deployments to check, defaults to every deployed implementation',
+    '',
+    types.string,
+  )
+  .setAction(async ({ impls }: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const {
+      deployments: { all, getNetworkName },
+    } = HRE
+
+    if (!isSupported(getNetworkName())) {
+      console.log('Invalid Network.')
+      return
+    }
+
+    const deployments = await all()
+    const names = impls
+      ? (impls as string).split(',').map(name => name.trim())
+      : Object.keys(deployments).filter(name => /Impl(_\w+)?$/.test(name))
+
+    let failed = 0
+    const immutables: ImmutableCheck[] = []
+    for (const name of names) {
+      console.log('-------------------')
+      const deployment = deployments[name] as Deployment | undefined
+      if (!deployment?.metadata || !deployment.solcInputHash) {
+        console.log(`${name}: no deployment with compiler metadata found`)
+        failed++
+        continue
+      }
+
+      const metadata = JSON.parse(deployment.metadata)
+      const [[sourceName, contractName]] = Object.entries(metadata.settings.compilationTarget as Record<string, string>)
+      console.log(`${name}: ${contractName} at ${deployment.address}`)
+
+      // Compare the layout the deployment was compiled with against the current artifact's
+      const network = isFork() ? forkNetwork() : getNetworkName()
+      const deployedInput = JSON.parse(
+        readFileSync(
+          join(HRE.config.paths.deployments, network, 'solcInputs', `${deployment.solcInputHash}.json`),
+          'utf-8',
+        ),
+      )
+      const deployedLayout = await compileStorageLayout(
+        HRE,
+        deployedInput,
+        metadata.compiler.version.split('+')[0],
+        sourceName,
+        contractName,
+      )
+      const buildInfo = await HRE.artifacts.getBuildInfo(`${sourceName}:${contractName}`)
+      if (!buildInfo) {
+        console.log(`  no build info for ${contractName}, compile first`)
+        failed++
+        continue
+      }
+      const newLayout = await compileStorageLayout(
+        HRE,
+        buildInfo.input as unknown as { settings: Record<string, unknown> },
+        buildInfo.solcVersion,
+        sourceName,
+        contractName,
+      )
+
+      const issues = compareStorageLayouts(deployedLayout, newLayout)
+      printIssues(issues)
+      if (issues.some(issue => issue.severity === 'error')) failed++
+
+      const checks = await checkImmutables(HRE, name, deployment)
+      immutables.push(...checks)
+      if (checks.some(check => check.result !== 'ok')) failed++
+    }
+
+    console.log('-------------------')
+    if (immutables.length > 0) console.table(immutables)
+    console.log(
+      failed > 0 ? `${failed} implementations failed the upgrade check` : 'All implementations are compatible',
+    )
+    if (failed > 0) process.exitCode = 1
+  })
+
+// Reads each immutable the deploy scripts intend to construct the new implementation with back from the deployed
+// implementation, so an upgrade that would silently change one is flagged
+async function checkImmutables(
+  HRE: HardhatRuntimeEnvironment,
+  name: string,
+  deployment: Deployment,
+): Promise<ImmutableCheck[]> {
+  const contract = await HRE.ethers.getContractAt(deployment.abi, deployment.address)
+  const checks: ImmutableCheck[] = []
+  for (const [getter, value] of Object.entries(INTENDED_IMMUTABLES[name] ?? {})) {
+    const intended = BigNumber.from(value).toString()
+    const hasGetter = deployment.abi.some(
+      fragment => fragment.type === 'function' && fragment.name === getter && fragment.inputs.length === 0,
+    )
+    if (!hasGetter) {
+      checks.push({ impl: name, immutable: getter, intended, actual: '', result: 'no getter' })
+      continue
+    }
+
+    const actual = BigNumber.from(await contract[getter]()).toString()
+    checks.push({ impl: name, immutable: getter, intended, actual, result: actual === intended ? 'ok' : 'mismatch' })
+  }
+  return checks
+}
+
+function printIssues(issues: LayoutIssue[]) {
+  if (issues.length === 0) console.log('  storage layout compatible')
+  for (const { path, severity, message } of issues) console.log(`  [${severity.toUpperCase()}] ${path}: ${message}`)
+}
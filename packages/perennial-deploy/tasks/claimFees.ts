@@ -0,0 +1,121 @@
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { BigNumber, constants, utils } from 'ethers'
+import { isSupported } from '../../common/testutil/network'
+import { DEFAULT_BLOCK_RANGE, deploymentBlock, queryInRanges } from '../util/events'
+import { getFeeReceivers } from '../util/market'
+
+const FEE_BUCKETS = ['protocolFee', 'oracleFee', 'riskFee', 'donation'] as const
+type FeeBucket = (typeof FEE_BUCKETS)[number]
+
+interface ClaimableFee {
+  market: string
+  bucket: FeeBucket
+  receiver: string
+  amount: BigNumber
+}
+
+export default task('claim-fees', 'Lists claimable market fees and optionally claims them')
+  .addFlag('claim', 'Claim the fees payable to the signer, and fund the oracle factory')
+  .addFlag('dry', 'Do not claim fees, print out calldata per receiver instead')
+  .addOptionalParam('blockrange', 'The number of blocks to scan per log query', DEFAULT_BLOCK_RANGE, types.int)
+  .setAction(async ({ claim, dry, blockrange }: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const {
+      ethers,
+      deployments: { get, getNetworkName },
+    } = HRE
+
+    if (!isSupported(getNetworkName())) {
+      console.log('Invalid Network.')
+      return
+    }
+
+    const latestBlock = await ethers.provider.getBlockNumber()
+    const marketFactoryDeployment = await get('MarketFactory')
+    const marketFactory = await ethers.getContractAt('IMarketFactory', marketFactoryDeployment.address)
+    const oracleFactory = await ethers.getContractAt('IOracleFactory', await marketFactory.oracleFactory())
+    const [owner, markets] = await Promise.all([
+      marketFactory.owner(),
+      queryInRanges(deploymentBlock(marketFactoryDeployment), latestBlock, blockrange, (from, to) =>
+        marketFactory.queryFilter(marketFactory.filters.InstanceRegistered(), from, to),
+      ),
+    ])
+
+    const fees: ClaimableFee[] = []
+    for (const marketEvent of markets) {
+      const market = await ethers.getContractAt('IMarket', marketEvent.args.instance)
+      const [global, { beneficiary, coordinator }] = await Promise.all([
+        market.global(),
+        getFeeReceivers(market, marketEvent.blockNumber, latestBlock, blockrange),
+      ])
+
+      // Mirrors the receivers checked in Market.claimFee
+      const receivers: Record<FeeBucket, string> = {
+        protocolFee: owner,
+        oracleFee: oracleFactory.address,
+        riskFee: coordinator,
+        donation: beneficiary,
+      }
+      for (const bucket of FEE_BUCKETS) {
+        if (global[bucket].isZero()) continue
+        fees.push({ market: market.address, bucket, receiver: receivers[bucket], amount: global[bucket] })
+      }
+    }
+
+    console.table(
+      fees.map(fee => ({
+        market: fee.market,
+        bucket: fee.bucket,
+        receiver: fee.receiver,
+        amount: utils.formatUnits(fee.amount, 6),
+      })),
+    )
+
+    const totals = new Map<string, BigNumber>()
+    for (const fee of fees) totals.set(fee.receiver, (totals.get(fee.receiver) ?? constants.Zero).add(fee.amount))
+    console.log('Totals by receiver:')
+    for (const [receiver, total] of totals) console.log(`  ${receiver}: ${utils.formatUnits(total, 6)} USD`)
+
+    // Oracle fees are pulled by the oracle factory through fund, all others are claimed by their receiver
+    const marketInterface = new utils.Interface((await HRE.artifacts.readArtifact('IMarket')).abi)
+    const claims = new Map<string, { market: string; to: string; data: string }[]>()
+    for (const fee of fees) {
+      const call =
+        fee.bucket === 'oracleFee'
+          ? {
+              market: fee.market,
+              to: oracleFactory.address,
+              data: oracleFactory.interface.encodeFunctionData('fund', [fee.market]),
+            }
+          : { market: fee.market, to: fee.market, data: marketInterface.encodeFunctionData('claimFee') }
+
+      // The oracle factory's fund can be called by anyone
+      const sender = fee.bucket === 'oracleFee' ? constants.AddressZero : fee.receiver
+      const calls = claims.get(sender) ?? []
+      if (!calls.some(c => c.to === call.to && c.data === call.data)) calls.push(call)
+      claims.set(sender, calls)
+    }
+
+    if (dry) {
+      for (const [sender, calls] of claims) {
+        console.log(`Dry run, not claiming. Calldata for ${sender === constants.AddressZero ? 'any sender' : sender}`)
+        for (const call of calls) console.log(`  to: ${call.to}, data: ${call.data}`)
+      }
+      return
+    }
+    if (!claim) return
+
+    const [signer] = await ethers.getSigners()
+    const calls = [...(claims.get(constants.AddressZero) ?? []), ...(claims.get(signer.address) ?? [])]
+    if (calls.length === 0) {
+      console.log(`No fees claimable by ${signer.address}`)
+      return
+    }
+    for (const call of calls) {
+      console.log(`Claiming fees from ${call.market}`)
+      const tx = await signer.sendTransaction({ to: call.to, data: call.data })
+      console.log('Fees claimed. Hash:', tx.hash)
+      await tx.wait()
+    }
+  })
@@ -0,0 +1,35 @@
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { utils } from 'ethers'
+import { ORACLE_IDS } from '../util/oracleIds'
+import { commitDevnetPrices, getDevnetOracleId, getDevnetPrices, isDevnet } from '../util/devnet'
+
+export default task('commit-devnet-price', 'Commits prices to the devnet oracles, settling every pending order')
+  .addOptionalParam(
+    'prices',
+    'The prices to commit as oracle=price (comma separated), where the oracle is an asset or oracle id. Oracles not ' +
+      'listed are committed at their latest price',
+    '',
+    types.string,
+  )
+  .setAction(async ({ prices: prices_ }: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const {
+      deployments: { getNetworkName },
+    } = HRE
+
+    if (!isDevnet(getNetworkName())) {
+      console.log('Devnet prices can only be committed on a local network without a fork.')
+      return
+    }
+
+    const prices = await getDevnetPrices(HRE, Object.values(ORACLE_IDS[getNetworkName()]))
+    for (const entry of prices_ ? (prices_ as string).split(',') : []) {
+      const [oracle, price] = entry.split('=').map(value => value.trim())
+      if (!price) throw new Error(`Invalid price ${entry}, expected oracle=price`)
+      prices[getDevnetOracleId(HRE, oracle)] = utils.parseUnits(price, 6)
+    }
+
+    await commitDevnetPrices(HRE, prices)
+    console.table(Object.entries(prices).map(([oracleId, price]) => ({ oracleId, price: utils.formatUnits(price, 6) })))
+  })
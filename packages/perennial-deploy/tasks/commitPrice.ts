@@ -1,44 +1,66 @@
 import '@nomiclabs/hardhat-ethers'
 import { task, types } from 'hardhat/config'
 import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
-import { EvmPriceServiceConnection } from '@pythnetwork/pyth-evm-js'
-import { utils } from 'ethers'
-
-const PYTH_ENDPOINT = 'https://hermes.pyth.network'
+import { BigNumber, constants, Contract } from 'ethers'
+import { PythFactory } from '../types/generated'
+import { createPriceSource, normalizeFeedId, PRICE_SOURCES, PriceUpdate, recordUpdate } from '../util/priceSource'
+import { buildCommitPrice, Invocation } from '../../common/util/invoke'
 
 export default task('commit-price', 'Commits a price for the given price ids')
   .addParam('priceids', 'The price ids to commit (comma separated)', '', types.string)
   .addFlag('dry', 'Do not commit prices, print out calldata instead')
-  .setAction(async ({ priceids: priceIds_, dry }: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+  .addOptionalParam(
+    'factories',
+    'The KeeperFactory deployments to commit to (comma separated)',
+    'PythFactory',
+    types.string,
+  )
+  .addOptionalParam('source', `The price source (${PRICE_SOURCES.join(', ')})`, 'hermes', types.string)
+  .addOptionalParam('url', 'The price service url to use with the url source', undefined, types.string)
+  .addOptionalParam('file', 'The file of recorded price updates to use with the file source', undefined, types.string)
+  .addOptionalParam('record', 'The file to append fetched price updates to', undefined, types.string)
+  .setAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const { priceids: priceIds_, dry, factories, source, url, file, record } = args
     if (!priceIds_) throw new Error('No Price ID provided')
-    const priceIds = priceIds_.split(',')
+    const priceIds: string[] = priceIds_.split(',')
     if (!priceIds.length) throw new Error('No Price ID provided')
 
+    const priceSource = createPriceSource(source, { url, file })
+
     const {
       ethers,
       deployments: { get },
     } = HRE
 
-    const commitments: { action: number; args: string }[] = []
+    const keeperFactories = await Promise.all(
+      factories.split(',').map(async (name: string) => ethers.getContractAt('PythFactory', (await get(name)).address)),
+    )
+    const groups = await groupByFactory(keeperFactories, priceIds)
+
+    const commitments: Invocation[] = []
+    let totalValue = BigNumber.from(0)
 
-    for (const priceId of priceIds) {
-      const pythFactory = await ethers.getContractAt('IKeeperFactory', (await get('PythFactory')).address)
+    for (const { factory, ids } of groups) {
+      const [validFrom, validTo] = await Promise.all([factory.validFrom(), factory.validTo()])
 
-      const pyth = new EvmPriceServiceConnection(PYTH_ENDPOINT, { priceFeedRequestConfig: { binary: true } })
-      const [minValidTime] = await Promise.all([pythFactory.callStatic.validFrom()])
+      // Price updates are keyed by the underlying feed id, which may differ from the oracle id
+      const underlyingIds = await Promise.all(ids.map(id => factory.toUnderlyingId(id)))
+      const update = await priceSource.getLatestUpdate(underlyingIds)
+      if (record) recordUpdate(record, update)
 
-      const vaa = await getRecentVaa({
-        pyth,
-        feedIds: [{ providerId: priceId, minValidTime: minValidTime.toBigInt() }],
-      })
+      const version = commitVersion(update, underlyingIds, validFrom.toBigInt(), validTo.toBigInt())
+      const pyth = new Contract(await factory.pyth(), PythABI, ethers.provider)
+      const value: BigNumber = await pyth.getUpdateFee([update.vaa])
+      totalValue = totalValue.add(value)
 
+      console.log(`Committing ${ids.join(', ')} to ${factory.address} at version ${version}`)
       commitments.push(
         buildCommitPrice({
-          ...vaa[0],
-          oracleProviderFactory: pythFactory.address,
-          value: 1n,
-          ids: [priceId],
-          version: BigInt(vaa[0].publishTime) - minValidTime.toBigInt(),
+          oracleProviderFactory: factory.address,
+          value,
+          ids,
+          version,
+          data: update.vaa,
           revertOnFailure: false,
         }),
       )
@@ -47,59 +69,52 @@ export default task('commit-price', 'Commits a price for the given price ids')
     const multiInvoker = await ethers.getContractAt('IMultiInvoker', (await get('MultiInvoker')).address)
 
     if (dry) {
-      console.log('Dry run, not committing. Calldata')
+      console.log(`Dry run, not committing. Value: ${totalValue.toString()}. Calldata`)
       console.log(multiInvoker.interface.encodeFunctionData('invoke', [commitments]))
     } else {
       console.log('Committing VAAs')
-      const { hash } = await multiInvoker.invoke(commitments, { value: commitments.length })
+      const { hash } = await multiInvoker.invoke(commitments, { value: totalValue })
       console.log('VAA committed. Hash:', hash)
     }
   })
 
-const getRecentVaa = async ({
-  pyth,
-  feedIds,
-}: {
-  pyth: EvmPriceServiceConnection
-  feedIds: { providerId: string; minValidTime: bigint }[]
-}) => {
-  const priceFeeds = await pyth.getLatestPriceFeeds(feedIds.map(({ providerId }) => providerId))
-  if (!priceFeeds) throw new Error('No price feeds found')
-
-  return priceFeeds.map(priceFeed => {
-    const vaa = priceFeed.getVAA()
-    if (!vaa) throw new Error('No VAA found')
-
-    const publishTime = priceFeed.getPriceUnchecked().publishTime
-    const minValidTime = feedIds.find(({ providerId }) => `0x${providerId}` === priceFeed.id)?.minValidTime
-
-    return {
-      feedId: priceFeed.id,
-      vaa: `0x${Buffer.from(vaa, 'base64').toString('hex')}`,
-      publishTime,
-      version: BigInt(publishTime) - (minValidTime ?? 4n),
+// Assigns each price id to the first factory that has an oracle for it, preserving the order of the ids
+const groupByFactory = async (factories: PythFactory[], priceIds: string[]) => {
+  const groups: { factory: PythFactory; ids: string[] }[] = []
+
+  for (const priceId of priceIds) {
+    let factory: PythFactory | undefined
+    for (const candidate of factories) {
+      if ((await candidate.oracles(priceId)) !== constants.AddressZero) {
+        factory = candidate
+        break
+      }
     }
+    if (!factory) throw new Error(`No oracle found for price id ${priceId}`)
+
+    const group = groups.find(g => g.factory.address === factory?.address)
+    if (group) group.ids.push(priceId)
+    else groups.push({ factory, ids: [priceId] })
+  }
+
+  return groups
+}
+
+// Picks the latest version for which every feed's publish time is within [version + validFrom, version + validTo]
+const commitVersion = (update: PriceUpdate, ids: string[], validFrom: bigint, validTo: bigint): bigint => {
+  const publishTimes = ids.map(id => {
+    const published = update.publishTimes.find(({ feedId }) => feedId === normalizeFeedId(id))
+    if (!published) throw new Error(`Price update does not include ${id}`)
+    return BigInt(published.publishTime)
   })
+
+  const oldest = publishTimes.reduce((a, b) => (b < a ? b : a))
+  const newest = publishTimes.reduce((a, b) => (b > a ? b : a))
+  const version = oldest - validFrom
+  if (version < newest - validTo)
+    throw new Error(`Publish times of ${ids.join(', ')} are too far apart to commit in a single version`)
+
+  return version
 }
 
-const buildCommitPrice = ({
-  oracleProviderFactory,
-  version,
-  value,
-  ids,
-  vaa,
-  revertOnFailure,
-}: {
-  oracleProviderFactory: string
-  version: bigint
-  value: bigint
-  ids: string[]
-  vaa: string
-  revertOnFailure: boolean
-}): { action: number; args: string } => ({
-  action: 6,
-  args: utils.defaultAbiCoder.encode(
-    ['address', 'uint256', 'bytes32[]', 'uint256', 'bytes', 'bool'],
-    [oracleProviderFactory, value, ids, version, vaa, revertOnFailure],
-  ),
-})
+const PythABI = ['function getUpdateFee(bytes[] updateData) view returns (uint256 feeAmount)']
@@ -0,0 +1,190 @@
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { join } from 'path'
+import { BigNumber, utils } from 'ethers'
+import { IMultiInvoker } from '../types/generated'
+import { forkNetwork, isFork, isLocalhost, isSupported } from '../../common/testutil/network'
+import {
+  DEFAULT_BLOCK_RANGE,
+  deploymentBlock,
+  loadEventCache,
+  queryInRanges,
+  saveEventCache,
+  scanWithCache,
+} from '../util/events'
+import { estimateKeeperFee, getKeeperPrices } from '../util/keeper'
+import { buildExecOrder } from '../../common/util/invoke'
+import {
+  aggregateInBatches,
+  Call3,
+  DEFAULT_BACKOFF,
+  DEFAULT_RETRIES,
+  multicallContract,
+  sleep,
+} from '../util/multicall'
+
+interface OpenOrder {
+  account: string
+  market: string
+  nonce: string
+}
+
+export default task('execute-orders', 'Executes fillable trigger orders through the MultiInvoker')
+  .addFlag('dry', 'Do not execute orders, print out calldata instead')
+  .addFlag('loop', 'Keep polling for fillable orders until stopped')
+  .addOptionalParam('interval', 'The delay in ms between polls when looping', 10_000, types.int)
+  .addOptionalParam('batchsize', 'The maximum number of orders executed per invoke', 10, types.int)
+  .addOptionalParam(
+    'fromblock',
+    'The block to start scanning events from, defaults to the block the MultiInvoker was deployed in',
+    undefined,
+    types.int,
+  )
+  .addOptionalParam('blockrange', 'The number of blocks to scan per log query', DEFAULT_BLOCK_RANGE, types.int)
+  .addOptionalParam('cachefile', 'The file scanned event ranges are cached in', undefined, types.string)
+  .setAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const { dry, loop, interval, batchsize, fromblock, blockrange, cachefile } = args
+    const {
+      ethers,
+      deployments: { get, getNetworkName },
+    } = HRE
+
+    if (!isSupported(getNetworkName())) {
+      console.log('Invalid Network.')
+      return
+    }
+
+    const cacheNetwork = isLocalhost(getNetworkName()) && isFork() ? forkNetwork() : getNetworkName()
+    const cachePath = cachefile ?? join(HRE.config.paths.cache, 'execute-orders', `${cacheNetwork}.json`)
+    const cache = loadEventCache<OpenOrder[]>(cachePath)
+
+    const multiInvokerDeployment = await get('MultiInvoker')
+    const multiInvoker = await ethers.getContractAt('IMultiInvoker', multiInvokerDeployment.address)
+    const multicall = multicallContract(ethers.provider)
+    const [keepBufferBase, keepBufferCalldata] = await Promise.all([
+      multiInvoker.keepBufferBase(),
+      multiInvoker.keepBufferCalldata(),
+    ])
+
+    do {
+      const latestBlock = await ethers.provider.getBlockNumber()
+      const openOrders = await scanWithCache(
+        cache,
+        multiInvoker.address,
+        fromblock ?? deploymentBlock(multiInvokerDeployment),
+        latestBlock,
+        [],
+        (from, to, previous) => getOpenOrders(multiInvoker, from, to, blockrange, previous),
+      )
+      saveEventCache(cachePath, cache)
+
+      // Check which open orders are currently fillable
+      const results = await aggregateInBatches(
+        multicall,
+        openOrders.map(order => ({ key: order, calls: readOrder(multiInvoker, order) })),
+        { batchSize: 100, retries: DEFAULT_RETRIES, backoff: DEFAULT_BACKOFF },
+      )
+      const prices = await getKeeperPrices(HRE)
+      const keeperFee = estimateKeeperFee(
+        { multiplierBase: 0, bufferBase: keepBufferBase, multiplierCalldata: 0, bufferCalldata: keepBufferCalldata },
+        prices,
+        0,
+      )
+
+      const fillable: OpenOrder[] = []
+      for (const result of results) {
+        if ('error' in result || !result.results.every(r => r.success)) {
+          console.log(`Failed to check order ${result.key.nonce}`)
+          continue
+        }
+        const [canExecute] = multiInvoker.interface.decodeFunctionResult(
+          'canExecuteOrder',
+          result.results[0].returnData,
+        )
+        const [order] = multiInvoker.interface.decodeFunctionResult('orders', result.results[1].returnData)
+        if (!canExecute) continue
+
+        // Execution reverts with MultiInvokerMaxFeeExceededError if the keeper fee is above the order's max fee
+        if (keeperFee.gt(BigNumber.from(order.fee).mul(1e12))) {
+          console.log(
+            `Skipping order ${result.key.nonce}: keeper fee ${utils.formatEther(
+              keeperFee,
+            )} USD exceeds max fee ${utils.formatUnits(order.fee, 6)} USD`,
+          )
+          continue
+        }
+        fillable.push(result.key)
+      }
+      console.log(`Found ${openOrders.length} open orders, ${fillable.length} fillable`)
+
+      for (let i = 0; i < fillable.length; i += batchsize) {
+        const batch = fillable.slice(i, i + batchsize)
+        const invocations = batch.map(buildExecOrder)
+
+        if (dry) {
+          console.log(`Dry run, not executing orders ${batch.map(o => o.nonce).join(', ')}. Calldata`)
+          console.log(multiInvoker.interface.encodeFunctionData('invoke', [invocations]))
+          continue
+        }
+
+        try {
+          const gasLimit = await multiInvoker.estimateGas.invoke(invocations)
+          const gasCost = gasLimit.mul(await ethers.provider.getGasPrice())
+          const cost = gasCost.mul(prices.etherPrice).div(utils.parseEther('1'))
+          const reward = keeperFee.mul(batch.length)
+          if (reward.lt(cost)) {
+            console.log(
+              `Skipping unprofitable batch: reward ${utils.formatEther(reward)} USD, cost ${utils.formatEther(
+                cost,
+              )} USD`,
+            )
+            continue
+          }
+
+          console.log(`Executing orders ${batch.map(o => o.nonce).join(', ')}`)
+          const tx = await multiInvoker.invoke(invocations, { gasLimit })
+          console.log('Orders executed. Hash:', tx.hash)
+          await tx.wait()
+        } catch (e) {
+          console.log(`Failed to execute orders ${batch.map(o => o.nonce).join(', ')}:`, e)
+        }
+      }
+
+      if (loop) await sleep(interval)
+    } while (loop)
+  })
+
+async function getOpenOrders(
+  multiInvoker: IMultiInvoker,
+  fromBlock: number,
+  toBlock: number,
+  blockRange: number,
+  previous: OpenOrder[],
+): Promise<OpenOrder[]> {
+  const [placed, cancelled, executed] = await Promise.all([
+    queryInRanges(fromBlock, toBlock, blockRange, (from, to) =>
+      multiInvoker.queryFilter(multiInvoker.filters.OrderPlaced(), from, to),
+    ),
+    queryInRanges(fromBlock, toBlock, blockRange, (from, to) =>
+      multiInvoker.queryFilter(multiInvoker.filters.OrderCancelled(), from, to),
+    ),
+    queryInRanges(fromBlock, toBlock, blockRange, (from, to) =>
+      multiInvoker.queryFilter(multiInvoker.filters.OrderExecuted(), from, to),
+    ),
+  ])
+
+  // Nonces are unique across all accounts and markets
+  const closed = new Set([...cancelled, ...executed].map(({ args }) => args.nonce.toString()))
+  return [
+    ...previous,
+    ...placed.map(({ args }) => ({ account: args.account, market: args.market, nonce: args.nonce.toString() })),
+  ].filter(({ nonce }) => !closed.has(nonce))
+}
+
+function readOrder(multiInvoker: IMultiInvoker, { account, market, nonce }: OpenOrder): Call3[] {
+  return [
+    multiInvoker.interface.encodeFunctionData('canExecuteOrder', [account, market, nonce]),
+    multiInvoker.interface.encodeFunctionData('orders', [account, market, nonce]),
+  ].map(callData => ({ callData, allowFailure: true, target: multiInvoker.address }))
+}
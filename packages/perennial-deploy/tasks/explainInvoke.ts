@@ -0,0 +1,102 @@
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { providers, utils } from 'ethers'
+import { buildSelectorRegistry, decodeError } from '../util/decode'
+import { explainInvocation, loadAddressNames } from '../util/explain'
+import { decodeInvoke } from '../../common/util/invoke'
+
+export default task('explain-invoke', 'Decodes MultiInvoker invoke calldata and explains each invocation')
+  .addOptionalParam('data', 'The invoke calldata to explain', undefined, types.string)
+  .addOptionalParam('tx', 'The hash of an invoke transaction to explain', undefined, types.string)
+  .addOptionalParam('error', 'Revert data or an error selector to decode on its own', undefined, types.string)
+  .addOptionalParam(
+    'from',
+    'Simulates the calldata from this account to decode its revert, defaults to the sender of --tx',
+    undefined,
+    types.string,
+  )
+  .setAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const { data: data_, tx: hash, error: errorData, from: from_ } = args
+    const {
+      ethers,
+      deployments: { get },
+    } = HRE
+
+    if (errorData) {
+      const error = decodeError(await buildSelectorRegistry(HRE), errorData)
+      if (error) console.log(`${error.contract}.${error.error}`, error.args)
+      else console.log(`Unknown error ${errorData}`)
+      return
+    }
+    if (!data_ === !hash) throw new Error('Provide exactly one of --data, --tx or --error')
+
+    const multiInvoker = (await get('MultiInvoker')).address
+    const tx = hash ? await ethers.provider.getTransaction(hash) : undefined
+    if (hash && !tx) throw new Error(`Transaction ${hash} not found`)
+    if (tx && tx.to?.toLowerCase() !== multiInvoker.toLowerCase())
+      console.log(`[WARNING] Transaction is sent to ${tx.to}, not the MultiInvoker at ${multiInvoker}`)
+    const data: string = tx?.data ?? data_
+
+    const names = await loadAddressNames(HRE)
+    const invocations = decodeInvoke(data)
+    invocations.forEach((invocation, i) => {
+      const { action, details } = explainInvocation(invocation, names)
+      console.log(`#${i} ${action}`)
+      for (const [field, value] of Object.entries(details)) console.log(`  ${field}: ${value}`)
+    })
+
+    // A mined transaction is replayed at its parent block, which may not match the state it reverted against if
+    // earlier transactions in its block touched the same accounts
+    const receipt = tx ? await ethers.provider.getTransactionReceipt(tx.hash) : undefined
+    if (receipt === null) {
+      console.log('Transaction is pending, not simulating')
+      return
+    }
+    if (receipt?.status === 1) {
+      console.log('Transaction succeeded')
+      return
+    }
+    const from = from_ ?? tx?.from
+    if (!from) return
+
+    const revertData = await simulate(
+      HRE,
+      { from, to: tx?.to ?? multiInvoker, data, value: tx?.value },
+      receipt ? receipt.blockNumber - 1 : 'latest',
+    )
+    if (revertData === undefined) {
+      console.log('Invoke succeeds')
+      return
+    }
+
+    const error = decodeError(await buildSelectorRegistry(HRE), revertData)
+    if (error) console.log(`Reverted with ${error.contract}.${error.error}`, error.args)
+    else console.log(`Reverted with unknown error ${revertData === '0x' ? '(no revert data)' : revertData}`)
+    process.exitCode = 1
+  })
+
+// Calls the invoke, returning its revert data, or undefined if it succeeds
+async function simulate(
+  HRE: HardhatRuntimeEnvironment,
+  call: providers.TransactionRequest,
+  blockTag: providers.BlockTag,
+): Promise<string | undefined> {
+  try {
+    await HRE.ethers.provider.call(call, blockTag)
+    return undefined
+  } catch (e) {
+    const revertData = findRevertData(e)
+    if (revertData === undefined) throw e
+    return revertData
+  }
+}
+
+// Providers nest the revert data at different depths of the thrown error
+function findRevertData(e: unknown): string | undefined {
+  if (typeof e !== 'object' || e === null) return undefined
+  const { data, error } = e as { data?: unknown; error?: unknown }
+  if (typeof data === 'string' && utils.isHexString(data)) return data
+  if (typeof data === 'object') return findRevertData(data)
+  return findRevertData(error)
+}
@@ -0,0 +1,36 @@
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { mkdirSync, writeFileSync } from 'fs'
+import { dirname, join } from 'path'
+import { buildErrorRegistry, checkSigComments } from '../../common/testutil/errors'
+
+export default task(
+  'export-errors',
+  'Exports the custom error selectors of every package and checks the `// sig:` comments against them',
+)
+  .addOptionalParam(
+    'output',
+    'The file to write the selector registry to, defaults to errors/selectors.json',
+    undefined,
+    types.string,
+  )
+  .setAction(async ({ output }: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    process.stdout.write('Collecting errors...')
+    const registry = buildErrorRegistry()
+    process.stdout.write('complete\n')
+
+    const selectors = Array.from(registry.values()).sort((a, b) => a.name.localeCompare(b.name))
+    const path = output ?? join(HRE.config.paths.root, 'errors', 'selectors.json')
+    mkdirSync(dirname(path), { recursive: true })
+    writeFileSync(path, JSON.stringify(selectors, null, 2) + '\n')
+    console.log(`${selectors.length} error selectors written to ${path}`)
+
+    const { checked, mismatches } = checkSigComments(registry)
+    if (mismatches.length > 0) {
+      console.table(mismatches)
+      console.log(`${mismatches.length} of ${checked} sig comments are incorrect`)
+      process.exitCode = 1
+    } else {
+      console.log(`All ${checked} sig comments are correct`)
+    }
+  })
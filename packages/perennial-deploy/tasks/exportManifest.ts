@@ -0,0 +1,38 @@
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { mkdirSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { isSupported } from '../../common/testutil/network'
+import { DEFAULT_BLOCK_RANGE } from '../util/events'
+import { buildManifest, renderManifestModule } from '../util/manifest'
+
+export default task('export-manifest', 'Exports a manifest of every deployed contract, market and vault')
+  .addOptionalParam(
+    'outdir',
+    'The directory to write the manifest and its TypeScript module to',
+    undefined,
+    types.string,
+  )
+  .addOptionalParam('blockrange', 'The number of blocks to scan per log query', DEFAULT_BLOCK_RANGE, types.int)
+  .setAction(async ({ outdir, blockrange }: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    if (!isSupported(HRE.deployments.getNetworkName())) {
+      console.log('Invalid Network.')
+      return
+    }
+
+    process.stdout.write('Building manifest...')
+    const manifest = await buildManifest(HRE, blockrange)
+    process.stdout.write('complete\n')
+
+    const directory = outdir ?? join(HRE.config.paths.root, 'manifests')
+    mkdirSync(directory, { recursive: true })
+    writeFileSync(join(directory, `${manifest.network}.json`), JSON.stringify(manifest, null, 2) + '\n')
+    writeFileSync(join(directory, `${manifest.network}.ts`), renderManifestModule(manifest))
+
+    console.log(
+      `Manifest for ${manifest.network} written to ${directory}: ${
+        Object.keys(manifest.contracts).length
+      } contracts, ` + `${manifest.markets.length} markets, ${manifest.vaults.length} vaults`,
+    )
+  })
@@ -1,3 +1,16 @@
 export * from './verifyProxies'
 export * from './commitPrice'
 export * from './checkSolvency'
+export * from './checkHealth'
+export * from './executeOrders'
+export * from './settleCallbacks'
+export * from './checkOracles'
+export * from './claimFees'
+export * from './checkDrift'
+export * from './simulateProposal'
+export * from './checkUpgrade'
+export * from './exportManifest'
+export * from './commitDevnetPrice'
+export * from './planDeploy'
+export * from './explainInvoke'
+export * from './exportErrors'
@@ -0,0 +1,161 @@
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { DeployFunction } from 'hardhat-deploy/types'
+import { mkdirSync, readdirSync, writeFileSync } from 'fs'
+import { basename, dirname, join } from 'path'
+import { BigNumber, providers, utils } from 'ethers'
+import { forkNetwork, isFork } from '../../common/testutil/network'
+import { buildSelectorRegistry } from '../util/decode'
+import { DeployPlan, planTransaction, PlannedTransaction } from '../util/plan'
+import { getProposedCalls } from '../util/proposal'
+
+export default task(
+  'plan-deploy',
+  'Runs the deploy scripts on a fork and writes the plan of every transaction they send',
+)
+  .addOptionalParam('tags', 'Comma separated deploy script tags to run, defaults to every script', '', types.string)
+  .addOptionalParam(
+    'deployer',
+    'The account to deploy from, defaults to the configured deployer',
+    undefined,
+    types.string,
+  )
+  .addOptionalParam(
+    'output',
+    'The file to write the plan to, defaults to plans/<network>.json, owner calls are proposed alongside it',
+    undefined,
+    types.string,
+  )
+  .setAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const { tags, deployer: deployerAddress, output } = args
+    const { ethers, deployments } = HRE
+
+    if (!isFork()) {
+      console.log('Deploys can only be planned on a fork, set FORK_ENABLED and FORK_NETWORK.')
+      return
+    }
+
+    // Owner gated calls are proposed rather than sent, as the deployer does not own the timelock owned contracts, and
+    // the proposal is written next to the plan so a planning run never overwrites the real proposal
+    const path = output ?? join(HRE.config.paths.root, 'plans', `${forkNetwork()}.json`)
+    const proposalPath = path.replace(/(\.json)?$/, '.proposal.json')
+    process.env.PROPOSAL_MODE = process.env.PROPOSAL_MODE ?? 'timelock'
+    process.env.PROPOSAL_OUTPUT = proposalPath
+
+    // Deploy from the live deployer so the scripts see the same ownership as the mainnet run
+    if (deployerAddress) {
+      // Imported here as the testutil helpers import the hardhat runtime, which can not be loaded by the config
+      const { impersonateWithBalance } = await import('../../common/testutil/impersonate')
+      await impersonateWithBalance(deployerAddress, utils.parseEther('100'))
+      HRE.config.namedAccounts.deployer = deployerAddress
+    }
+    const { deployer } = await HRE.getNamedAccounts()
+
+    const scripts = tags ? (tags as string).split(',').map(tag => tag.trim()) : await loadScriptTags(HRE)
+    const registry = await buildSelectorRegistry(HRE)
+    const forkBlock = await ethers.provider.getBlockNumber()
+    const transactions: PlannedTransaction[] = []
+    const proposed: DeployPlan['proposed'] = []
+    let failed: DeployPlan['failed']
+
+    // Scripts are run one tag at a time so each transaction can be attributed to the script that sent it
+    for (const script of scripts) {
+      console.log(`Planning ${script}...`)
+      const fromBlock = (await ethers.provider.getBlockNumber()) + 1
+      const proposedBefore = getProposedCalls().length
+      try {
+        await deployments.run([script], { resetMemory: false, writeDeploymentsToFiles: false })
+      } catch (e) {
+        failed = { script, error: e instanceof Error ? e.message.split('\n')[0] : String(e) }
+      }
+
+      const all = await deployments.all()
+      for (let blockNumber = fromBlock; blockNumber <= (await ethers.provider.getBlockNumber()); blockNumber++) {
+        const block = await ethers.provider.getBlockWithTransactions(blockNumber)
+        for (const tx of block.transactions) {
+          const receipt = await ethers.provider.getTransactionReceipt(tx.hash)
+          transactions.push(await planTransaction(HRE, registry, all, script, tx, receipt))
+        }
+      }
+      proposed.push(
+        ...getProposedCalls()
+          .slice(proposedBefore)
+          .map(call => ({ script, ...call })),
+      )
+      if (failed) break
+    }
+
+    const plan = await buildPlan(HRE, forkBlock, deployer, transactions, proposed, failed)
+    console.table(
+      transactions.map(({ script, kind, contract, method, gasUsed, l1Gas, l1Fee }) => ({
+        script,
+        kind,
+        contract,
+        method,
+        gasUsed,
+        l1Gas,
+        l1Fee: utils.formatEther(l1Fee),
+      })),
+    )
+    console.log(
+      `${plan.totals.transactions} transactions using ${plan.totals.gasUsed} gas ` +
+        `(${plan.totals.l1Gas} L1 gas, ${utils.formatEther(plan.totals.l1Fee)} ETH L1 fee), ` +
+        `estimated cost ${utils.formatEther(plan.totals.estimatedCost)} ETH`,
+    )
+
+    mkdirSync(dirname(path), { recursive: true })
+    writeFileSync(path, JSON.stringify(plan, null, 2) + '\n')
+    console.log(`Plan written to ${path}`)
+    if (proposed.length > 0) console.log(`${proposed.length} owner calls proposed, written to ${proposalPath}`)
+
+    if (failed) {
+      console.log(`Plan incomplete, ${failed.script} reverted: ${failed.error}`)
+      process.exitCode = 1
+    }
+  })
+
+// Reads the tag of each deploy script in the order hardhat-deploy runs them
+async function loadScriptTags(HRE: HardhatRuntimeEnvironment): Promise<string[]> {
+  const tags: string[] = []
+  for (const dir of HRE.config.paths.deploy) {
+    const files = readdirSync(dir).filter(file => /\.(ts|js)$/.test(file))
+    for (const file of files.sort()) {
+      const func: DeployFunction = (await import(join(dir, file))).default
+      tags.push(func.tags?.[0] ?? basename(file))
+    }
+  }
+  return tags
+}
+
+// Totals the plan, pricing L2 gas, including Arbitrum's L1 gas, at the forked network's current gas price
+async function buildPlan(
+  HRE: HardhatRuntimeEnvironment,
+  forkBlock: number,
+  deployer: string,
+  transactions: PlannedTransaction[],
+  proposed: DeployPlan['proposed'],
+  failed: DeployPlan['failed'],
+): Promise<DeployPlan> {
+  const forkUrl = HRE.config.networks.hardhat.forking?.url
+  const gasPrice = await (forkUrl ? new providers.JsonRpcProvider(forkUrl) : HRE.ethers.provider).getGasPrice()
+  const sum = (field: 'gasUsed' | 'l1Gas' | 'l1Fee') =>
+    transactions.reduce((total, tx) => total.add(tx[field]), BigNumber.from(0))
+
+  return {
+    network: forkNetwork(),
+    forkBlock,
+    deployer,
+    gasPrice: gasPrice.toString(),
+    transactions,
+    proposed,
+    totals: {
+      transactions: transactions.length,
+      gasUsed: sum('gasUsed').toString(),
+      l1Gas: sum('l1Gas').toString(),
+      l1Fee: sum('l1Fee').toString(),
+      estimatedCost: sum('gasUsed').add(sum('l1Gas')).mul(gasPrice).add(sum('l1Fee')).toString(),
+    },
+    failed,
+  }
+}
@@ -0,0 +1,177 @@
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { join } from 'path'
+import { BigNumber, utils } from 'ethers'
+import { IKeeperOracle } from '../types/generated'
+import { forkNetwork, isFork, isLocalhost, isSupported } from '../../common/testutil/network'
+import {
+  DEFAULT_BLOCK_RANGE,
+  deploymentBlock,
+  loadEventCache,
+  queryInRanges,
+  saveEventCache,
+  scanWithCache,
+} from '../util/events'
+import { estimateKeeperFee, getKeeperPrices } from '../util/keeper'
+
+interface Callback {
+  id: string
+  market: string
+  version: string
+  count: number
+}
+
+export default task('settle-callbacks', 'Settles outstanding local callbacks for every oracle of a KeeperFactory')
+  .addOptionalParam('factory', 'The deployment name of the KeeperFactory', 'PythFactory', types.string)
+  .addOptionalParam('gasbudget', 'The maximum gas to use per settle transaction', 10_000_000, types.int)
+  .addOptionalParam('callbackgas', 'The estimated gas used per settled callback', 250_000, types.int)
+  .addFlag('dry', 'Do not settle, print out calldata and estimated rewards instead')
+  .addOptionalParam(
+    'fromblock',
+    'The block to start scanning events from, defaults to the block each oracle was created in',
+    undefined,
+    types.int,
+  )
+  .addOptionalParam('blockrange', 'The number of blocks to scan per log query', DEFAULT_BLOCK_RANGE, types.int)
+  .addOptionalParam('cachefile', 'The file scanned event ranges are cached in', undefined, types.string)
+  .setAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const { factory, gasbudget, callbackgas, dry, fromblock, blockrange, cachefile } = args
+    const {
+      ethers,
+      deployments: { get, getNetworkName },
+    } = HRE
+
+    if (!isSupported(getNetworkName())) {
+      console.log('Invalid Network.')
+      return
+    }
+
+    const cacheNetwork = isLocalhost(getNetworkName()) && isFork() ? forkNetwork() : getNetworkName()
+    const cachePath = cachefile ?? join(HRE.config.paths.cache, 'settle-callbacks', `${cacheNetwork}.json`)
+    const cache = loadEventCache<string[]>(cachePath)
+    const latestBlock = await ethers.provider.getBlockNumber()
+
+    const keeperFactoryDeployment = await get(factory)
+    const keeperFactory = await ethers.getContractAt('IKeeperFactory', keeperFactoryDeployment.address)
+    const oracles = await queryInRanges(deploymentBlock(keeperFactoryDeployment), latestBlock, blockrange, (from, to) =>
+      keeperFactory.queryFilter(keeperFactory.filters.OracleCreated(), from, to),
+    )
+
+    const callbacks: Callback[] = []
+    for (const oracleEvent of oracles) {
+      const { oracle: oracleAddress, id } = oracleEvent.args
+      const oracle = await ethers.getContractAt('IKeeperOracle', oracleAddress)
+
+      // Requested versions are cached until all of their local callbacks have been settled
+      const requested = await scanWithCache(
+        cache,
+        oracleAddress,
+        fromblock ?? oracleEvent.blockNumber,
+        latestBlock,
+        [],
+        (from, to, previous) => getRequestedVersions(oracle, from, to, blockrange, previous),
+      )
+      const { latestVersion } = await oracle.global()
+
+      const outstanding: string[] = []
+      for (const version of requested) {
+        // Versions that are not yet committed can not be settled
+        if (latestVersion.lt(version)) {
+          outstanding.push(version)
+          continue
+        }
+        let pending = false
+        for (const market of await oracle.globalCallbacks(version)) {
+          const accounts = await oracle.localCallbacks(version, market)
+          if (accounts.length === 0) continue
+          callbacks.push({ id, market, version, count: accounts.length })
+          pending = true
+        }
+        if (pending) outstanding.push(version)
+      }
+      cache[oracleAddress].data = outstanding
+      saveEventCache(cachePath, cache)
+    }
+    console.log(
+      `Found ${callbacks.reduce((acc, c) => acc + c.count, 0)} outstanding callbacks across ${
+        callbacks.length
+      } versions`,
+    )
+    if (callbacks.length === 0) return
+
+    const [settleKeepConfig, prices] = await Promise.all([keeperFactory.settleKeepConfig(), getKeeperPrices(HRE)])
+    const maxCallbacks = Math.max(1, Math.floor(gasbudget / callbackgas))
+    for (const batch of buildSettleBatches(callbacks, maxCallbacks)) {
+      const settleArgs = [
+        batch.map(c => c.id),
+        batch.map(c => c.market),
+        batch.map(c => c.version),
+        batch.map(c => c.count),
+      ] as const
+      const calldata = keeperFactory.interface.encodeFunctionData('settle', settleArgs)
+      const settled = batch.reduce((acc, c) => acc + c.count, 0)
+
+      let gasLimit: BigNumber
+      try {
+        gasLimit = await keeperFactory.estimateGas.settle(...settleArgs)
+      } catch (e) {
+        console.log(`Failed to estimate settlement of ${settled} callbacks:`, e)
+        continue
+      }
+      const reward = estimateKeeperFee(settleKeepConfig, prices, gasLimit, utils.hexDataLength(calldata))
+      console.log(
+        `Settling ${settled} callbacks across ${batch.length} versions, estimated gas ${gasLimit.toString()}, ` +
+          `estimated reward ${utils.formatEther(reward)} USD`,
+      )
+
+      if (dry) {
+        console.log('Dry run, not settling. Calldata')
+        console.log(calldata)
+        continue
+      }
+
+      const tx = await keeperFactory.settle(...settleArgs, { gasLimit })
+      console.log('Callbacks settled. Hash:', tx.hash)
+      await tx.wait()
+    }
+  })
+
+// Packs callbacks into batches of at most `maxCallbacks` settlements, splitting large versions across batches
+function buildSettleBatches(callbacks: Callback[], maxCallbacks: number): Callback[][] {
+  const batches: Callback[][] = []
+  let batch: Callback[] = []
+  let remaining = maxCallbacks
+
+  for (const callback of callbacks) {
+    let count = callback.count
+    while (count > 0) {
+      const maxCount = Math.min(count, remaining)
+      batch.push({ ...callback, count: maxCount })
+      count -= maxCount
+      remaining -= maxCount
+
+      if (remaining === 0) {
+        batches.push(batch)
+        batch = []
+        remaining = maxCallbacks
+      }
+    }
+  }
+  if (batch.length > 0) batches.push(batch)
+  return batches
+}
+
+async function getRequestedVersions(
+  oracle: IKeeperOracle,
+  fromBlock: number,
+  toBlock: number,
+  blockRange: number,
+  previous: string[],
+): Promise<string[]> {
+  const requests = await queryInRanges(fromBlock, toBlock, blockRange, (from, to) =>
+    oracle.queryFilter(oracle.filters.OracleProviderVersionRequested(), from, to),
+  )
+
+  return Array.from(new Set([...previous, ...requests.map(({ args }) => args.version.toString())]))
+}
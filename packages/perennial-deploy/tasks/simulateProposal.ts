@@ -0,0 +1,291 @@
+import '@nomiclabs/hardhat-ethers'
+import { task, types } from 'hardhat/config'
+import { TASK_TEST_RUN_MOCHA_TESTS } from 'hardhat/builtin-tasks/task-names'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { BigNumber, constants, utils } from 'ethers'
+import { forkNetwork, isFork } from '../../common/testutil/network'
+import { DEFAULT_BLOCK_RANGE, deploymentBlock, queryInRanges } from '../util/events'
+import { validateMarketConfig } from '../util/marketConfig'
+import { parseReportFormat, REPORT_FORMATS, ReportRow, reportAction, toCsv } from '../util/report'
+import { compileStorageLayout, StorageEntry } from '../util/storageLayout'
+
+// Verification suites under test/verification/deployment, which check the fork against its network config
+const VERIFICATION_SUITES: { [suite: string]: string } = {
+  markets: 'verifyMarkets.test.ts',
+  perennial: 'verifyPerennial.test.ts',
+  oracle: 'verifyOracle.test.ts',
+  vaults: 'verifyVaults.test.ts',
+  payoff: 'verifyPayoff.test.ts',
+  extensions: 'verifyMultiInvoker.test.ts',
+}
+
+interface BatchCall {
+  target: string
+  value: BigNumber
+  data: string
+}
+
+interface SimulationCheck {
+  stage: 'execute' | 'verification' | 'health'
+  check: string
+  passed: boolean
+  detail: string
+}
+
+export default task('simulate-proposal', 'Executes a timelock batch on a fork and verifies the resulting state')
+  .addParam('payload', 'A proposal file, Safe batch file, or scheduleBatch/executeBatch calldata')
+  .addOptionalParam(
+    'suites',
+    'Comma separated verification suites to run, defaults to those matching the targets',
+    '',
+    types.string,
+  )
+  .addFlag('noverify', 'Skip the verification suites and only run the health checks')
+  .addOptionalParam('blockrange', 'The number of blocks to scan per log query', DEFAULT_BLOCK_RANGE, types.int)
+  .addOptionalParam('format', `The report format (${REPORT_FORMATS.join(', ')})`, 'json', types.string)
+  .addOptionalParam(
+    'output',
+    'The file to write the report to, defaults to stdout with progress on stderr',
+    undefined,
+    types.string,
+  )
+  .setAction(
+    reportAction(async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+      const { payload, suites, noverify, blockrange, format } = args
+      const reportFormat = parseReportFormat(format)
+      const {
+        deployments: { get },
+      } = HRE
+
+      if (!isFork()) {
+        console.log('Proposals can only be simulated on a fork, set FORK_ENABLED and FORK_NETWORK.')
+        return
+      }
+
+      // Imported here as the testutil helpers import the hardhat runtime, which can not be loaded by the config
+      const { impersonateWithBalance } = await import('../../common/testutil/impersonate')
+
+      const timelockInterface = new utils.Interface((await HRE.artifacts.readArtifact('TimelockController')).abi)
+      const calls = parseBatch(payload, timelockInterface)
+      const timelock = await impersonateWithBalance((await get('TimelockController')).address, utils.parseEther('10'))
+      const checks: SimulationCheck[] = []
+
+      // Execute each call of the batch as the timelock. executeBatch is atomic, so the simulation stops at the first
+      // call that reverts, as the rest of the batch and its resulting state would never be reached
+      console.log(`Executing ${calls.length} calls as timelock ${timelock.address}...`)
+      let reverted = false
+      for (const [i, call] of calls.entries()) {
+        const check = `call ${i} to ${call.target} (${call.data.slice(0, 10)})`
+        try {
+          await (await timelock.sendTransaction({ to: call.target, value: call.value, data: call.data })).wait()
+          checks.push({ stage: 'execute', check, passed: true, detail: '' })
+        } catch (e) {
+          checks.push({ stage: 'execute', check, passed: false, detail: errorMessage(e) })
+          console.log(`Call ${i} reverted, the batch would revert as a whole`)
+          reverted = true
+          break
+        }
+      }
+
+      if (!reverted) {
+        // Run the verification suites matching the contracts touched by the batch
+        if (!noverify) {
+          const selected = suites ? (suites as string).split(',').map(s => s.trim()) : await matchSuites(HRE, calls)
+          for (const suite of selected) {
+            const file = join(HRE.config.paths.tests, 'verification', 'deployment', VERIFICATION_SUITES[suite] ?? '')
+            if (!VERIFICATION_SUITES[suite] || !existsSync(file)) {
+              checks.push({ stage: 'verification', check: suite, passed: false, detail: `No suite found at ${file}` })
+              continue
+            }
+            console.log(`Running ${suite} verification suite...`)
+            const failures: number = await HRE.run(TASK_TEST_RUN_MOCHA_TESTS, { testFiles: [file] })
+            checks.push({
+              stage: 'verification',
+              check: suite,
+              passed: failures === 0,
+              detail: failures === 0 ? '' : `${failures} tests failed`,
+            })
+          }
+        }
+
+        checks.push(...(await checkMarketHealth(HRE, blockrange)))
+      }
+
+      console.table(
+        checks.map(({ stage, check, passed, detail }) => ({ stage, check, result: passed ? 'pass' : 'fail', detail })),
+      )
+      const failed = checks.filter(c => !c.passed).length
+      console.log(failed > 0 ? `Simulation failed, ${failed} of ${checks.length} checks failed` : 'Simulation passed')
+      if (failed > 0) process.exitCode = 1
+
+      const rows: ReportRow[] = checks.map(c => ({ ...c }))
+      return reportFormat === 'csv'
+        ? toCsv(rows)
+        : JSON.stringify({ network: forkNetwork(), passed: failed === 0, checks: rows }, null, 2) + '\n'
+    }),
+  )
+
+// Reads the batch from a proposal file written in timelock mode, a Safe transaction builder file, or raw calldata
+function parseBatch(payload: string, timelockInterface: utils.Interface): BatchCall[] {
+  const decode = (data: string): BatchCall[] => {
+    const tx = timelockInterface.parseTransaction({ data })
+    if (tx.name !== 'scheduleBatch' && tx.name !== 'executeBatch')
+      throw new Error(`Expected a scheduleBatch or executeBatch payload, found ${tx.name}`)
+    const { targets, values, payloads } = tx.args as unknown as {
+      targets: string[]
+      values: BigNumber[]
+      payloads: string[]
+    }
+    return targets.map((target, i) => ({ target, value: values[i], data: payloads[i] }))
+  }
+
+  if (utils.isHexString(payload)) return decode(payload)
+
+  const proposal = JSON.parse(readFileSync(payload, 'utf-8'))
+  if (proposal.executeBatch) return decode(proposal.executeBatch.data)
+  if (proposal.scheduleBatch) return decode(proposal.scheduleBatch.data)
+  const scheduled = (proposal.transactions ?? []).find(
+    (tx: { data: string }) => timelockInterface.getSighash('scheduleBatch') === tx.data.slice(0, 10),
+  )
+  if (scheduled) return decode(scheduled.data)
+  throw new Error(`No timelock batch found in ${payload}`)
+}
+
+// Maps each target to the suites covering it, running every suite if any target is not recognized
+async function matchSuites(HRE: HardhatRuntimeEnvironment, calls: BatchCall[]): Promise<string[]> {
+  const { ethers, deployments } = HRE
+  const address = async (name: string) => (await deployments.getOrNull(name))?.address.toLowerCase()
+  const [marketFactory, oracleFactory, vaultFactory, pythFactory] = await Promise.all(
+    ['MarketFactory', 'OracleFactory', 'VaultFactory', 'PythFactory'].map(async name => {
+      const deployment = await deployments.getOrNull(name)
+      return deployment ? ethers.getContractAt('IFactory', deployment.address) : undefined
+    }),
+  )
+  const proxyAdmin = new utils.Interface((await HRE.artifacts.readArtifact('ProxyAdmin')).abi)
+  const factorySuites: { [address: string]: string[] } = {}
+  for (const [name, suites] of [
+    ['MarketFactory', ['markets', 'perennial']],
+    ['OracleFactory', ['oracle']],
+    ['PythFactory', ['oracle']],
+    ['VaultFactory', ['vaults']],
+    ['PayoffFactory', ['payoff']],
+    ['MultiInvoker', ['extensions']],
+  ] as const) {
+    const factoryAddress = await address(name)
+    if (factoryAddress) factorySuites[factoryAddress] = [...suites]
+  }
+
+  const matched = new Set<string>()
+  for (const call of calls) {
+    let target = call.target.toLowerCase()
+
+    // Upgrades are matched by the proxy being upgraded
+    if (target === (await address('ProxyAdmin'))) {
+      const tx = proxyAdmin.parseTransaction({ data: call.data })
+      if (tx.name === 'upgrade' || tx.name === 'upgradeAndCall') target = (tx.args[0] as string).toLowerCase()
+    }
+
+    if (factorySuites[target]) factorySuites[target].forEach(suite => matched.add(suite))
+    else if (marketFactory && (await marketFactory.instances(target))) matched.add('markets')
+    else if (vaultFactory && (await vaultFactory.instances(target))) matched.add('vaults')
+    else if (
+      (oracleFactory && (await oracleFactory.instances(target))) ||
+      (pythFactory && (await pythFactory.instances(target)))
+    )
+      matched.add('oracle')
+    else return Object.keys(VERIFICATION_SUITES)
+  }
+
+  return Array.from(matched)
+}
+
+// Checks that every market and vault still settles, reads a price, and is configured within the protocol parameter
+async function checkMarketHealth(HRE: HardhatRuntimeEnvironment, blockRange: number): Promise<SimulationCheck[]> {
+  const {
+    ethers,
+    deployments: { get },
+  } = HRE
+  const checks: SimulationCheck[] = []
+  const run = async (check: string, fn: () => Promise<string | void>) => {
+    try {
+      const detail = await fn()
+      checks.push({ stage: 'health', check, passed: !detail, detail: detail ?? '' })
+    } catch (e) {
+      checks.push({ stage: 'health', check, passed: false, detail: errorMessage(e) })
+    }
+  }
+
+  const latestBlock = await ethers.provider.getBlockNumber()
+  const marketFactoryDeployment = await get('MarketFactory')
+  const vaultFactoryDeployment = await get('VaultFactory')
+  const marketFactory = await ethers.getContractAt('IMarketFactory', marketFactoryDeployment.address)
+  const vaultFactory = await ethers.getContractAt('IVaultFactory', vaultFactoryDeployment.address)
+  const protocolParameter = await marketFactory.parameter()
+  const reward = await rewardStorage(HRE)
+
+  await run('MarketFactory not paused', async () => ((await marketFactory.paused()) ? 'paused' : undefined))
+  await run('VaultFactory not paused', async () => ((await vaultFactory.paused()) ? 'paused' : undefined))
+
+  const markets = await queryInRanges(deploymentBlock(marketFactoryDeployment), latestBlock, blockRange, (from, to) =>
+    marketFactory.queryFilter(marketFactory.filters.InstanceRegistered(), from, to),
+  )
+  for (const marketEvent of markets) {
+    const market = await ethers.getContractAt('IMarket', marketEvent.args.instance)
+    await run(`${market.address} settles`, async () => {
+      await market.callStatic.update(constants.AddressZero, 0, 0, 0, 0, false)
+    })
+    await run(`${market.address} oracle status`, async () => {
+      const oracle = await ethers.getContractAt('IOracleProvider', await market.oracle())
+      await oracle.callStatic.status()
+    })
+    await run(`${market.address} parameters valid`, async () => {
+      const [marketParameter, riskParameter, rewardWord] = await Promise.all([
+        market.parameter(),
+        market.riskParameter(),
+        ethers.provider.getStorageAt(market.address, reward.slot),
+      ])
+      const rewardToken = utils.hexDataSlice(rewardWord, 12 - reward.offset, 32 - reward.offset)
+      const violations = validateMarketConfig(
+        { key: market.address, oracleId: '', payoff: '', marketParameter, riskParameter },
+        protocolParameter,
+        rewardToken !== constants.AddressZero,
+      )
+      return violations.length > 0 ? violations.join('; ') : undefined
+    })
+  }
+
+  const vaults = await queryInRanges(deploymentBlock(vaultFactoryDeployment), latestBlock, blockRange, (from, to) =>
+    vaultFactory.queryFilter(vaultFactory.filters.InstanceRegistered(), from, to),
+  )
+  for (const vaultEvent of vaults) {
+    const vault = await ethers.getContractAt('IVault', vaultEvent.args.instance)
+    await run(`${vault.address} settles`, async () => {
+      await vault.callStatic.settle(constants.AddressZero)
+    })
+  }
+
+  return checks
+}
+
+// The market's reward token is private, so it is read from the slot the current Market artifact stores it in
+async function rewardStorage(HRE: HardhatRuntimeEnvironment): Promise<StorageEntry> {
+  const { sourceName, contractName } = await HRE.artifacts.readArtifact('Market')
+  const buildInfo = await HRE.artifacts.getBuildInfo(`${sourceName}:${contractName}`)
+  if (!buildInfo) throw new Error(`No build info for ${contractName}, compile first`)
+  const layout = await compileStorageLayout(
+    HRE,
+    buildInfo.input as unknown as { settings: Record<string, unknown> },
+    buildInfo.solcVersion,
+    sourceName,
+    contractName,
+  )
+  const entry = layout.storage.find(({ label }) => label === '_reward')
+  if (!entry) throw new Error(`No reward token in the ${contractName} storage layout`)
+  return entry
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message.split('\n')[0] : String(e)
+}
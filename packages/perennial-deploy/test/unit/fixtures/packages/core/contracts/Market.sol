@@ -0,0 +1,9 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.13;
+
+contract Market {
+    // sig: 0x29ab4c44
+    error MarketClosedError();
+    // sig: 0x12345678
+    error MarketInsufficientMarginError();
+}
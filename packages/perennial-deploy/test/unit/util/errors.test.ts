@@ -0,0 +1,121 @@
+import { expect } from 'chai'
+import { join } from 'path'
+import { constants, utils } from 'ethers'
+import {
+  buildErrorRegistry,
+  checkSigComments,
+  decodeRevert,
+  ERROR_PACKAGES,
+  lookupError,
+} from '../../../../common/testutil/errors'
+
+// Two compiled packages, where the extension bubbles up an error of the core
+const PACKAGES_DIR = join(__dirname, '..', 'fixtures', 'packages')
+const PACKAGES = ['core', 'extension']
+
+const MARKET_CLOSED = '0x29ab4c44'
+const INSUFFICIENT_MARGIN = '0x00e2b6a8'
+const INVALID_AMOUNT = '0x8099a6f1'
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890'
+
+describe('errors', () => {
+  const registry = buildErrorRegistry(PACKAGES_DIR, PACKAGES)
+
+  describe('#buildErrorRegistry', () => {
+    it('collects the errors of the deploy package by default', () => {
+      expect(ERROR_PACKAGES).to.include('perennial-deploy')
+    })
+
+    it('collects each error once, with every contract declaring it', () => {
+      expect([...registry.values()]).to.deep.equal([
+        {
+          selector: MARKET_CLOSED,
+          name: 'MarketClosedError',
+          signature: 'MarketClosedError()',
+          contracts: ['core:Market', 'extension:Invoker'],
+        },
+        {
+          selector: INSUFFICIENT_MARGIN,
+          name: 'MarketInsufficientMarginError',
+          signature: 'MarketInsufficientMarginError()',
+          contracts: ['core:Market'],
+        },
+        {
+          selector: INVALID_AMOUNT,
+          name: 'InvokerInvalidAmountError',
+          signature: 'InvokerInvalidAmountError(uint256,address)',
+          contracts: ['extension:Invoker'],
+        },
+      ])
+    })
+
+    it('throws if a package is not compiled', () => {
+      expect(() => buildErrorRegistry(PACKAGES_DIR, ['core', 'vault'])).to.throw(
+        `No artifacts found for vault at ${join(PACKAGES_DIR, 'vault', 'artifacts', 'contracts')}, compile it first`,
+      )
+    })
+  })
+
+  describe('#checkSigComments', () => {
+    it('reports comments that do not match the selector of the following error', () => {
+      expect(checkSigComments(registry, PACKAGES_DIR, PACKAGES)).to.deep.equal({
+        checked: 2,
+        mismatches: [
+          {
+            file: join('core', 'contracts', 'Market.sol'),
+            line: 7,
+            error: 'MarketInsufficientMarginError',
+            comment: '0x12345678',
+            selector: INSUFFICIENT_MARGIN,
+          },
+        ],
+      })
+    })
+
+    it('reports errors missing from the artifacts', () => {
+      const { mismatches } = checkSigComments(new Map(), PACKAGES_DIR, PACKAGES)
+
+      expect(mismatches.map(({ error, selector }) => [error, selector])).to.deep.equal([
+        ['MarketClosedError', 'not found in artifacts'],
+        ['MarketInsufficientMarginError', 'not found in artifacts'],
+      ])
+    })
+  })
+
+  describe('#lookupError', () => {
+    it('looks up a selector or the selector prefixing revert data', () => {
+      expect(lookupError(MARKET_CLOSED, registry)?.name).to.equal('MarketClosedError')
+      expect(lookupError(utils.hexConcat([INVALID_AMOUNT, '0x00']), registry)?.name).to.equal(
+        'InvokerInvalidAmountError',
+      )
+      expect(lookupError('0xdeadbeef', registry)).to.be.undefined
+    })
+  })
+
+  describe('#decodeRevert', () => {
+    it('decodes an error without arguments', () => {
+      expect(decodeRevert(MARKET_CLOSED, registry)).to.deep.equal({
+        name: 'MarketClosedError',
+        signature: 'MarketClosedError()',
+        args: [],
+      })
+    })
+
+    it('decodes the arguments of an error', () => {
+      const data = utils.hexConcat([
+        INVALID_AMOUNT,
+        utils.defaultAbiCoder.encode(['uint256', 'address'], [constants.MaxUint256, ACCOUNT]),
+      ])
+      const decoded = decodeRevert(data, registry)
+
+      expect(decoded?.name).to.equal('InvokerInvalidAmountError')
+      expect(decoded?.args[0]).to.equal(constants.MaxUint256)
+      expect(decoded?.args[1]).to.equal(ACCOUNT)
+    })
+
+    it('is undefined for an unknown selector', () => {
+      expect(decodeRevert('0x08c379a0', registry)).to.be.undefined
+    })
+  })
+})
@@ -0,0 +1,173 @@
+import { expect } from 'chai'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Deployment } from 'hardhat-deploy/types'
+import {
+  deploymentBlock,
+  EventCache,
+  loadEventCache,
+  queryInRanges,
+  saveEventCache,
+  scanWithCache,
+} from '../../../util/events'
+
+// Records the windows it is called with and returns them as its results
+function recordingQuery() {
+  const windows: [number, number][] = []
+  const query = async (fromBlock: number, toBlock: number) => {
+    windows.push([fromBlock, toBlock])
+    return [`${fromBlock}-${toBlock}`]
+  }
+  return { windows, query }
+}
+
+// Appends the scanned window to the previous data
+function recordingScan() {
+  const windows: [number, number][] = []
+  const scan = async (fromBlock: number, toBlock: number, previous: string[]) => {
+    windows.push([fromBlock, toBlock])
+    return [...previous, `${fromBlock}-${toBlock}`]
+  }
+  return { windows, scan }
+}
+
+describe('events', () => {
+  describe('#queryInRanges', () => {
+    it('splits the range into windows of at most blockRange blocks', async () => {
+      const { windows, query } = recordingQuery()
+
+      expect(await queryInRanges(100, 125, 10, query)).to.deep.equal(['100-109', '110-119', '120-125'])
+      expect(windows).to.deep.equal([
+        [100, 109],
+        [110, 119],
+        [120, 125],
+      ])
+    })
+
+    it('queries a range that fits in one window once', async () => {
+      const { windows, query } = recordingQuery()
+
+      await queryInRanges(100, 109, 10, query)
+      expect(windows).to.deep.equal([[100, 109]])
+    })
+
+    it('queries a single block', async () => {
+      const { windows, query } = recordingQuery()
+
+      await queryInRanges(100, 100, 10, query)
+      expect(windows).to.deep.equal([[100, 100]])
+    })
+
+    it('does not query an empty range', async () => {
+      const { windows, query } = recordingQuery()
+
+      expect(await queryInRanges(101, 100, 10, query)).to.deep.equal([])
+      expect(windows).to.deep.equal([])
+    })
+
+    it('throws on a non-positive block range', async () => {
+      const { query } = recordingQuery()
+
+      let error: Error | undefined
+      await queryInRanges(0, 100, 0, query).catch(e => (error = e))
+      expect(error?.message).to.equal('Block range must be positive')
+    })
+  })
+
+  describe('#deploymentBlock', () => {
+    it('reads the block from the receipt', () => {
+      expect(deploymentBlock({ receipt: { blockNumber: 1234 } } as Deployment)).to.equal(1234)
+    })
+
+    it('is genesis without a receipt', () => {
+      expect(deploymentBlock({} as Deployment)).to.equal(0)
+    })
+  })
+
+  describe('#scanWithCache', () => {
+    it('scans the whole range without a cached range', async () => {
+      const cache: EventCache<string[]> = {}
+      const { windows, scan } = recordingScan()
+
+      expect(await scanWithCache(cache, 'key', 100, 200, [], scan)).to.deep.equal(['100-200'])
+      expect(windows).to.deep.equal([[100, 200]])
+      expect(cache.key).to.deep.equal({ fromBlock: 100, toBlock: 200, data: ['100-200'] })
+    })
+
+    it('only scans blocks past the cached range', async () => {
+      const cache: EventCache<string[]> = { key: { fromBlock: 100, toBlock: 200, data: ['100-200'] } }
+      const { windows, scan } = recordingScan()
+
+      expect(await scanWithCache(cache, 'key', 100, 300, [], scan)).to.deep.equal(['100-200', '201-300'])
+      expect(windows).to.deep.equal([[201, 300]])
+      expect(cache.key).to.deep.equal({ fromBlock: 100, toBlock: 300, data: ['100-200', '201-300'] })
+    })
+
+    it('keeps a cached range that started before fromBlock', async () => {
+      const cache: EventCache<string[]> = { key: { fromBlock: 50, toBlock: 200, data: ['50-200'] } }
+      const { windows, scan } = recordingScan()
+
+      await scanWithCache(cache, 'key', 100, 300, [], scan)
+      expect(windows).to.deep.equal([[201, 300]])
+      expect(cache.key.fromBlock).to.equal(50)
+    })
+
+    it('does not scan if the cached range is up to date', async () => {
+      const cache: EventCache<string[]> = { key: { fromBlock: 100, toBlock: 200, data: ['100-200'] } }
+      const { windows, scan } = recordingScan()
+
+      expect(await scanWithCache(cache, 'key', 100, 200, [], scan)).to.deep.equal(['100-200'])
+      expect(windows).to.deep.equal([])
+    })
+
+    it('discards a cached range that starts after fromBlock', async () => {
+      const cache: EventCache<string[]> = { key: { fromBlock: 150, toBlock: 200, data: ['150-200'] } }
+      const { windows, scan } = recordingScan()
+
+      expect(await scanWithCache(cache, 'key', 100, 300, [], scan)).to.deep.equal(['100-300'])
+      expect(windows).to.deep.equal([[100, 300]])
+      expect(cache.key.fromBlock).to.equal(100)
+    })
+
+    it('discards a cached range that ends past toBlock', async () => {
+      const cache: EventCache<string[]> = { key: { fromBlock: 100, toBlock: 400, data: ['100-400'] } }
+      const { windows, scan } = recordingScan()
+
+      expect(await scanWithCache(cache, 'key', 100, 300, [], scan)).to.deep.equal(['100-300'])
+      expect(windows).to.deep.equal([[100, 300]])
+      expect(cache.key).to.deep.equal({ fromBlock: 100, toBlock: 300, data: ['100-300'] })
+    })
+
+    it('keeps other keys', async () => {
+      const cache: EventCache<string[]> = { other: { fromBlock: 0, toBlock: 10, data: ['0-10'] } }
+
+      await scanWithCache(cache, 'key', 100, 200, [], recordingScan().scan)
+      expect(cache.other).to.deep.equal({ fromBlock: 0, toBlock: 10, data: ['0-10'] })
+    })
+  })
+
+  describe('#loadEventCache', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'events-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('is empty if there is no cache file', () => {
+      expect(loadEventCache(join(dir, 'cache.json'))).to.deep.equal({})
+    })
+
+    it('loads a saved cache', () => {
+      const path = join(dir, 'nested', 'cache.json')
+      const cache: EventCache<string[]> = { key: { fromBlock: 100, toBlock: 200, data: ['100-200'] } }
+
+      saveEventCache(path, cache)
+      expect(loadEventCache(path)).to.deep.equal(cache)
+    })
+  })
+})
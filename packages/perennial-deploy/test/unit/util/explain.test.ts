@@ -0,0 +1,207 @@
+import { expect } from 'chai'
+import { constants, utils } from 'ethers'
+import { AddressNames, explainInvocation } from '../../../util/explain'
+import {
+  buildApprove,
+  buildCancelOrder,
+  buildCommitPrice,
+  buildExecOrder,
+  buildPlaceOrder,
+  buildUpdatePosition,
+  buildUpdateVault,
+  decodeInvocation,
+  FULLY_CLOSED,
+  Invocation,
+  MAX_UINT,
+  MIN_INT,
+  MIN_INT64,
+  OrderComparison,
+  OrderSide,
+  PerennialAction,
+  TriggerOrder,
+} from '../../../../common/util/invoke'
+
+const MARKET = '0x90A664846960AaFA2c164605Aebb8e9Ac338f9a0'
+const VAULT = '0x5A572B5fBBC43387B5eF8de2C4728A4108ef24a6'
+const ACCOUNT = '0x1234567890123456789012345678901234567890'
+const RECEIVER = '0x0987654321098765432109876543210987654321'
+
+const NAMES: AddressNames = new Map([
+  [MARKET.toLowerCase(), 'eth market'],
+  [VAULT.toLowerCase(), 'AsterVault'],
+])
+
+const NO_INTERFACE_FEE = { amount: 0, receiver: constants.AddressZero, unwrap: false }
+
+const explain = (invocation: Invocation) => explainInvocation(decodeInvocation(invocation), NAMES)
+
+const order = (order: Partial<TriggerOrder>): TriggerOrder => ({
+  side: OrderSide.LONG,
+  comparison: OrderComparison.GTE,
+  fee: utils.parseUnits('0.5', 6),
+  price: utils.parseUnits('1900', 6),
+  delta: utils.parseUnits('1', 6),
+  interfaceFee1: NO_INTERFACE_FEE,
+  interfaceFee2: NO_INTERFACE_FEE,
+  ...order,
+})
+
+describe('explain', () => {
+  describe('#explainInvocation', () => {
+    it('explains a no-op', () => {
+      expect(explain({ action: PerennialAction.NO_OP, args: '0x' })).to.deep.equal({ action: 'NO_OP', details: {} })
+    })
+
+    it('explains a position update, naming known addresses', () => {
+      const { action, details } = explain(
+        buildUpdatePosition({
+          market: MARKET,
+          long: utils.parseUnits('1.5', 6),
+          collateral: utils.parseUnits('100', 6),
+          wrap: true,
+          interfaceFee1: { amount: utils.parseUnits('0.25', 6), receiver: RECEIVER, unwrap: true },
+          interfaceFee2: { amount: utils.parseUnits('1', 6), receiver: VAULT, unwrap: false },
+        }),
+      )
+
+      expect(action).to.equal('UPDATE_POSITION')
+      expect(details).to.deep.equal({
+        market: `eth market (${MARKET})`,
+        maker: 'MAX_UINT (unchanged)',
+        long: '1.5',
+        short: 'MAX_UINT (unchanged)',
+        collateral: 'deposit 100.0',
+        wrap: 'wraps USDC deposits and unwraps withdrawals',
+        interfaceFee1: `0.25 USDC to ${RECEIVER}`,
+        interfaceFee2: `1.0 DSU to AsterVault (${VAULT})`,
+      })
+    })
+
+    it('explains position magic values', () => {
+      const { details } = explain(
+        buildUpdatePosition({ market: RECEIVER, maker: 0, short: FULLY_CLOSED, collateral: MIN_INT }),
+      )
+
+      expect(details.market).to.equal(RECEIVER)
+      expect(details.maker).to.equal('0.0')
+      expect(details.short).to.equal('FULLY_CLOSED (close all closable)')
+      expect(details.collateral).to.equal('MIN_INT (withdraw all)')
+      expect(details.wrap).to.equal('DSU')
+      expect(details.interfaceFee1).to.equal('none')
+    })
+
+    it('explains collateral withdrawals and no collateral change', () => {
+      expect(explain(buildUpdatePosition({ market: MARKET, collateral: -2500000 })).details.collateral).to.equal(
+        'withdraw 2.5',
+      )
+      expect(explain(buildUpdatePosition({ market: MARKET })).details.collateral).to.equal('0 (unchanged)')
+    })
+
+    it('explains a vault update', () => {
+      expect(explain(buildUpdateVault({ vault: VAULT, depositAssets: utils.parseUnits('10', 6) }))).to.deep.equal({
+        action: 'UPDATE_VAULT',
+        details: {
+          vault: `AsterVault (${VAULT})`,
+          depositAssets: '10.0',
+          redeemShares: '0.0',
+          claimAssets: '0.0',
+          wrap: 'DSU',
+        },
+      })
+    })
+
+    it('explains vault magic values', () => {
+      const { details } = explain(
+        buildUpdateVault({ vault: VAULT, redeemShares: MAX_UINT, claimAssets: MAX_UINT, wrap: true }),
+      )
+
+      expect(details.redeemShares).to.equal('MAX_UINT (redeem all)')
+      expect(details.claimAssets).to.equal('MAX_UINT (claim all)')
+      expect(details.wrap).to.equal('wraps USDC deposits and unwraps claims')
+    })
+
+    it('explains a trigger order', () => {
+      expect(explain(buildPlaceOrder({ market: MARKET, order: order({}) }))).to.deep.equal({
+        action: 'PLACE_ORDER',
+        details: {
+          market: `eth market (${MARKET})`,
+          trigger: 'when price >= 1900.0',
+          side: 'LONG',
+          delta: 'increase by 1.0',
+          maxFee: '0.5 USD',
+          interfaceFee1: 'none',
+          interfaceFee2: 'none',
+        },
+      })
+    })
+
+    it('explains trigger order comparisons and deltas', () => {
+      const details = (o: Partial<TriggerOrder>) =>
+        explain(buildPlaceOrder({ market: MARKET, order: order(o) })).details
+
+      expect(details({ comparison: OrderComparison.LTE, price: utils.parseUnits('-5', 6) }).trigger).to.equal(
+        'when price <= -5.0',
+      )
+      expect(details({ comparison: 0 }).trigger).to.equal('when price invalid (0) 1900.0')
+      expect(details({ side: OrderSide.SHORT, delta: 0 }).delta).to.equal('0 (close)')
+      expect(details({ side: OrderSide.MAKER, delta: utils.parseUnits('-2', 6) }).delta).to.equal('decrease by 2.0')
+    })
+
+    it('explains collateral trigger orders', () => {
+      const details = (delta: TriggerOrder['delta']) =>
+        explain(buildPlaceOrder({ market: MARKET, order: order({ side: OrderSide.COLLATERAL, delta }) })).details
+
+      expect(details(MIN_INT64).side).to.equal('COLLATERAL')
+      expect(details(MIN_INT64).delta).to.equal('MIN_INT64 (withdraw all)')
+      expect(details(utils.parseUnits('-3', 6)).delta).to.equal('withdraw 3.0')
+      expect(details(utils.parseUnits('3', 6)).delta).to.equal('invalid (collateral orders may only withdraw)')
+    })
+
+    it('explains an invalid order side', () => {
+      expect(explain(buildPlaceOrder({ market: MARKET, order: order({ side: 9 }) })).details.side).to.equal(
+        'invalid (9)',
+      )
+    })
+
+    it('explains cancelling and executing orders', () => {
+      expect(explain(buildCancelOrder({ market: MARKET, nonce: 3 }))).to.deep.equal({
+        action: 'CANCEL_ORDER',
+        details: { market: `eth market (${MARKET})`, nonce: '3' },
+      })
+      expect(explain(buildExecOrder({ account: ACCOUNT, market: MARKET, nonce: 4 }))).to.deep.equal({
+        action: 'EXEC_ORDER',
+        details: { account: ACCOUNT, market: `eth market (${MARKET})`, nonce: '4' },
+      })
+    })
+
+    it('explains a price commit', () => {
+      const invocation = buildCommitPrice({
+        oracleProviderFactory: VAULT,
+        value: utils.parseEther('0.01'),
+        ids: [constants.HashZero],
+        version: 1700000000,
+        data: '0x1234',
+        revertOnFailure: true,
+      })
+
+      expect(explain(invocation)).to.deep.equal({
+        action: 'COMMIT_PRICE',
+        details: {
+          oracleProviderFactory: `AsterVault (${VAULT})`,
+          ids: constants.HashZero,
+          version: '1700000000 (2023-11-14T22:13:20.000Z)',
+          value: '0.01 ETH',
+          vaa: '2 bytes 0x1234',
+          revertOnFailure: 'true',
+        },
+      })
+    })
+
+    it('explains an approval', () => {
+      expect(explain(buildApprove({ target: MARKET }))).to.deep.equal({
+        action: 'APPROVE',
+        details: { target: `eth market (${MARKET})` },
+      })
+    })
+  })
+})
@@ -0,0 +1,226 @@
+import { expect } from 'chai'
+import { BigNumber, constants, utils } from 'ethers'
+import {
+  buildApprove,
+  buildCancelOrder,
+  buildCommitPrice,
+  buildExecOrder,
+  buildPlaceOrder,
+  buildUpdatePosition,
+  buildUpdateVault,
+  decodeInvocation,
+  decodeInvoke,
+  encodeInvoke,
+  FULLY_CLOSED,
+  Invocation,
+  MAX_UINT,
+  MIN_INT,
+  MIN_INT64,
+  OrderComparison,
+  OrderSide,
+  PerennialAction,
+  TriggerOrder,
+} from '../../../../common/util/invoke'
+
+const MARKET = '0x90A664846960AaFA2c164605Aebb8e9Ac338f9a0'
+const VAULT = '0x5A572B5fBBC43387B5eF8de2C4728A4108ef24a6'
+const ACCOUNT = '0x1234567890123456789012345678901234567890'
+const RECEIVER = '0x0987654321098765432109876543210987654321'
+
+const INTERFACE_FEE = { amount: utils.parseUnits('1', 6), receiver: RECEIVER, unwrap: true }
+const NO_INTERFACE_FEE = { amount: 0, receiver: constants.AddressZero, unwrap: false }
+
+const ORDER: TriggerOrder = {
+  side: OrderSide.LONG,
+  comparison: OrderComparison.GTE,
+  fee: utils.parseUnits('0.5', 6),
+  price: utils.parseUnits('-1900', 6),
+  delta: MIN_INT64,
+  interfaceFee1: INTERFACE_FEE,
+  interfaceFee2: NO_INTERFACE_FEE,
+}
+
+const roundTrip = (invocation: Invocation) => {
+  const [decoded] = decodeInvoke(encodeInvoke([invocation]))
+  return decoded
+}
+
+describe('invoke', () => {
+  describe('#encodeInvoke', () => {
+    it('round trips every action', () => {
+      const invocations = [
+        buildUpdatePosition({ market: MARKET, long: utils.parseUnits('1', 6), collateral: 100 }),
+        buildUpdateVault({ vault: VAULT, depositAssets: 5 }),
+        buildPlaceOrder({ market: MARKET, order: ORDER }),
+        buildCancelOrder({ market: MARKET, nonce: 3 }),
+        buildExecOrder({ account: ACCOUNT, market: MARKET, nonce: 4 }),
+        buildCommitPrice({
+          oracleProviderFactory: VAULT,
+          value: 1,
+          ids: [constants.HashZero],
+          version: 1700000000,
+          data: '0x1234',
+          revertOnFailure: true,
+        }),
+        buildApprove({ target: MARKET }),
+        { action: PerennialAction.NO_OP, args: '0x' },
+      ]
+
+      expect(decodeInvoke(encodeInvoke(invocations)).map(({ action }) => action)).to.deep.equal([
+        PerennialAction.UPDATE_POSITION,
+        PerennialAction.UPDATE_VAULT,
+        PerennialAction.PLACE_ORDER,
+        PerennialAction.CANCEL_ORDER,
+        PerennialAction.EXEC_ORDER,
+        PerennialAction.COMMIT_PRICE,
+        PerennialAction.APPROVE,
+        PerennialAction.NO_OP,
+      ])
+    })
+  })
+
+  describe('#buildUpdatePosition', () => {
+    it('leaves omitted sides unchanged and moves no collateral', () => {
+      const decoded = roundTrip(buildUpdatePosition({ market: MARKET }))
+      if (decoded.action !== PerennialAction.UPDATE_POSITION) throw new Error('Expected UPDATE_POSITION')
+
+      expect(decoded.market).to.equal(MARKET)
+      expect(decoded.maker).to.equal(MAX_UINT)
+      expect(decoded.long).to.equal(MAX_UINT)
+      expect(decoded.short).to.equal(MAX_UINT)
+      expect(decoded.collateral).to.equal(0)
+      expect(decoded.wrap).to.be.false
+      expect(decoded.interfaceFee1.receiver).to.equal(constants.AddressZero)
+      expect(decoded.interfaceFee2.amount).to.equal(0)
+    })
+
+    it('round trips magic values and interface fees', () => {
+      const decoded = roundTrip(
+        buildUpdatePosition({
+          market: MARKET,
+          maker: 0,
+          long: FULLY_CLOSED,
+          collateral: MIN_INT,
+          wrap: true,
+          interfaceFee2: INTERFACE_FEE,
+        }),
+      )
+      if (decoded.action !== PerennialAction.UPDATE_POSITION) throw new Error('Expected UPDATE_POSITION')
+
+      expect(decoded.maker).to.equal(0)
+      expect(decoded.long).to.equal(FULLY_CLOSED)
+      expect(decoded.short).to.equal(MAX_UINT)
+      expect(decoded.collateral).to.equal(MIN_INT)
+      expect(decoded.wrap).to.be.true
+      expect(decoded.interfaceFee2).to.deep.equal({
+        amount: BigNumber.from(utils.parseUnits('1', 6)),
+        receiver: RECEIVER,
+        unwrap: true,
+      })
+    })
+
+    it('round trips a collateral withdrawal', () => {
+      const decoded = roundTrip(buildUpdatePosition({ market: MARKET, long: 10, collateral: -5 }))
+      if (decoded.action !== PerennialAction.UPDATE_POSITION) throw new Error('Expected UPDATE_POSITION')
+
+      expect(decoded.long).to.equal(10)
+      expect(decoded.collateral).to.equal(-5)
+    })
+  })
+
+  describe('#buildUpdateVault', () => {
+    it('defaults omitted amounts to zero', () => {
+      const decoded = roundTrip(buildUpdateVault({ vault: VAULT, redeemShares: MAX_UINT }))
+      if (decoded.action !== PerennialAction.UPDATE_VAULT) throw new Error('Expected UPDATE_VAULT')
+
+      expect(decoded.vault).to.equal(VAULT)
+      expect(decoded.depositAssets).to.equal(0)
+      expect(decoded.redeemShares).to.equal(MAX_UINT)
+      expect(decoded.claimAssets).to.equal(0)
+      expect(decoded.wrap).to.be.false
+    })
+
+    it('round trips every amount', () => {
+      const decoded = roundTrip(
+        buildUpdateVault({ vault: VAULT, depositAssets: 1, redeemShares: 2, claimAssets: 3, wrap: true }),
+      )
+      if (decoded.action !== PerennialAction.UPDATE_VAULT) throw new Error('Expected UPDATE_VAULT')
+
+      expect([decoded.depositAssets, decoded.redeemShares, decoded.claimAssets]).to.deep.equal(
+        [1, 2, 3].map(amount => BigNumber.from(amount)),
+      )
+      expect(decoded.wrap).to.be.true
+    })
+  })
+
+  describe('#buildPlaceOrder', () => {
+    it('round trips the trigger order', () => {
+      const decoded = roundTrip(buildPlaceOrder({ market: MARKET, order: ORDER }))
+      if (decoded.action !== PerennialAction.PLACE_ORDER) throw new Error('Expected PLACE_ORDER')
+
+      expect(decoded.market).to.equal(MARKET)
+      expect(decoded.order.side).to.equal(OrderSide.LONG)
+      expect(decoded.order.comparison).to.equal(OrderComparison.GTE)
+      expect(decoded.order.fee).to.equal(ORDER.fee)
+      expect(decoded.order.price).to.equal(ORDER.price)
+      expect(decoded.order.delta).to.equal(MIN_INT64)
+      expect(decoded.order.interfaceFee1.receiver).to.equal(RECEIVER)
+      expect(decoded.order.interfaceFee1.unwrap).to.be.true
+    })
+
+    it('defaults omitted interface fees to none', () => {
+      const decoded = roundTrip(
+        buildPlaceOrder({ market: MARKET, order: { ...ORDER, interfaceFee1: undefined, interfaceFee2: undefined } }),
+      )
+      if (decoded.action !== PerennialAction.PLACE_ORDER) throw new Error('Expected PLACE_ORDER')
+
+      expect(decoded.order.interfaceFee1).to.deep.equal({ ...NO_INTERFACE_FEE, amount: BigNumber.from(0) })
+      expect(decoded.order.interfaceFee2).to.deep.equal({ ...NO_INTERFACE_FEE, amount: BigNumber.from(0) })
+    })
+  })
+
+  describe('#buildCancelOrder', () => {
+    it('round trips the nonce', () => {
+      expect(roundTrip(buildCancelOrder({ market: MARKET, nonce: 7 }))).to.deep.equal({
+        action: PerennialAction.CANCEL_ORDER,
+        market: MARKET,
+        nonce: BigNumber.from(7),
+      })
+    })
+  })
+
+  describe('#buildExecOrder', () => {
+    it('round trips the account, market and nonce', () => {
+      expect(roundTrip(buildExecOrder({ account: ACCOUNT, market: MARKET, nonce: 9 }))).to.deep.equal({
+        action: PerennialAction.EXEC_ORDER,
+        account: ACCOUNT,
+        market: MARKET,
+        nonce: BigNumber.from(9),
+      })
+    })
+  })
+
+  describe('#buildApprove', () => {
+    it('round trips the target', () => {
+      expect(roundTrip(buildApprove({ target: MARKET }))).to.deep.equal({
+        action: PerennialAction.APPROVE,
+        target: MARKET,
+      })
+    })
+  })
+
+  describe('#decodeInvocation', () => {
+    it('accepts the action as a BigNumber, as the invoke ABI decodes it', () => {
+      const { args } = buildApprove({ target: MARKET })
+
+      expect(decodeInvocation({ action: BigNumber.from(PerennialAction.APPROVE), args })).to.deep.equal({
+        action: PerennialAction.APPROVE,
+        target: MARKET,
+      })
+    })
+
+    it('throws on an action the invoker does not handle', () => {
+      expect(() => decodeInvocation({ action: 7, args: '0x' })).to.throw('Unknown action 7')
+    })
+  })
+})
@@ -0,0 +1,268 @@
+import { expect } from 'chai'
+import { readdirSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { utils } from 'ethers'
+import {
+  loadMarketConfig,
+  MarketConfig,
+  MARKET_CONFIG_DIR,
+  parseMarketConfig,
+  ProtocolParameter,
+  validateMarketConfig,
+} from '../../../util/marketConfig'
+import { ORACLE_IDS } from '../../../util/oracleIds'
+
+const parse6 = (value: string) => utils.parseUnits(value, 6)
+
+// The arbitrum config is used as the fixture, each test mutates its own copy
+const readRaw = () => JSON.parse(readFileSync(join(MARKET_CONFIG_DIR, 'arbitrum.json'), 'utf-8'))
+
+function parseErrors(raw: unknown): string {
+  try {
+    parseMarketConfig('arbitrum', raw)
+  } catch (e) {
+    return (e as Error).message
+  }
+  throw new Error('Expected the config to be invalid')
+}
+
+describe('marketConfig', () => {
+  describe('#loadMarketConfig', () => {
+    // The devnet config is loaded by the local networks
+    for (const file of readdirSync(MARKET_CONFIG_DIR).filter(file => file.endsWith('.json'))) {
+      const network = file === 'devnet.json' ? 'localhost' : file.replace(/\.json$/, '')
+
+      it(`loads ${network}`, () => {
+        const config = loadMarketConfig(network)
+
+        expect(config.network).to.equal(network)
+        expect(config.markets.length).to.be.greaterThan(0)
+      })
+
+      it(`${network} markets are valid under its protocol parameter`, () => {
+        const config = loadMarketConfig(network)
+
+        for (const market of config.markets)
+          expect(validateMarketConfig(market, config.protocolParameter)).to.deep.equal([])
+      })
+    }
+
+    it('throws if the network has no config', () => {
+      expect(() => loadMarketConfig('mainnet')).to.throw('No market config found for mainnet')
+    })
+  })
+
+  describe('#parseMarketConfig', () => {
+    it('parses decimals, integers and booleans', () => {
+      const config = parseMarketConfig('arbitrum', readRaw())
+
+      expect(config.protocolParameter.maxFee).to.equal(parse6('0.002'))
+      const [eth] = config.markets
+      expect(eth.key).to.equal('eth')
+      expect(eth.oracleId).to.equal(ORACLE_IDS.arbitrum.eth)
+      expect(eth.payoff).to.equal('')
+      expect(eth.marketParameter.settlementFee).to.equal(parse6('1.5'))
+      expect(eth.marketParameter.maxPendingGlobal).to.equal(12)
+      expect(eth.marketParameter.takerCloseAlways).to.be.true
+      expect(eth.riskParameter.utilizationCurve.targetUtilization).to.equal(parse6('0.60'))
+    })
+
+    it('merges market overrides onto the defaults', () => {
+      const raw = readRaw()
+      raw.markets.sol.riskParameter.utilizationCurve = { maxRate: '0.5' }
+      const config = parseMarketConfig('arbitrum', raw)
+
+      const eth = config.markets.find(m => m.key === 'eth') as MarketConfig
+      const sol = config.markets.find(m => m.key === 'sol') as MarketConfig
+      expect(eth.riskParameter.margin).to.equal(parse6('0.0095'))
+      expect(eth.riskParameter.makerLimit).to.equal(parse6('3008'))
+      expect(eth.riskParameter.staleAfter).to.equal(60)
+      expect(sol.riskParameter.margin).to.equal(parse6('0.0195'))
+      expect(sol.riskParameter.maintenance).to.equal(parse6('0.016'))
+      expect(sol.riskParameter.makerLimit).to.equal(parse6('98570.724'))
+      expect(sol.riskParameter.utilizationCurve.maxRate).to.equal(parse6('0.5'))
+      expect(sol.riskParameter.utilizationCurve.targetRate).to.equal(parse6('0.055'))
+      expect(sol.riskParameter.takerFee).to.equal(eth.riskParameter.takerFee)
+    })
+
+    it('parses vaults in registration order', () => {
+      const raw = readRaw()
+      delete raw.vaults.AsterVault.asset
+      const config = parseMarketConfig('arbitrum', raw)
+
+      const [aster, begonia] = config.vaults
+      expect(aster.key).to.equal('AsterVault')
+      expect(aster.asset).to.equal('DSU')
+      expect(aster.parameter.cap).to.equal(parse6('5000000'))
+      expect(aster.markets.map(r => r.market.key)).to.deep.equal(['eth', 'btc'])
+      expect(aster.markets[0].weight).to.equal(1)
+      expect(aster.markets[0].leverage).to.equal(parse6('1'))
+      expect(begonia.markets.map(r => r.market.key)).to.deep.equal(['sol', 'matic'])
+    })
+
+    it('throws if a value does not fit its storage width', () => {
+      const raw = readRaw()
+      raw.defaults.marketParameter.maxPendingGlobal = 65536
+      raw.markets.eth.riskParameter.margin = '16.777216'
+      raw.markets.btc.riskParameter.margin = '16.777215'
+
+      const errors = parseErrors(raw)
+      expect(errors).to.include('markets.eth.marketParameter.maxPendingGlobal: 65536 does not fit in 16 bits')
+      expect(errors).to.include('markets.eth.riskParameter.margin: 16.777216 does not fit in 24 bits')
+      expect(errors).to.not.include('markets.btc.riskParameter.margin')
+    })
+
+    it('throws if a value has the wrong type', () => {
+      const raw = readRaw()
+      raw.markets.eth.riskParameter.staleAfter = '60'
+      raw.markets.btc.riskParameter.makerLimit = true
+      raw.markets.sol.marketParameter = { closed: 'false' }
+      raw.markets.matic.riskParameter.margin = '0.0000001'
+
+      const errors = parseErrors(raw)
+      expect(errors).to.include('markets.eth.riskParameter.staleAfter: expected an integer')
+      expect(errors).to.include('markets.btc.riskParameter.makerLimit: expected a decimal string')
+      expect(errors).to.include('markets.sol.marketParameter.closed: expected a boolean')
+      expect(errors).to.include('markets.matic.riskParameter.margin: invalid value 0.0000001')
+    })
+
+    it('throws on missing and unknown fields', () => {
+      const raw = readRaw()
+      delete raw.protocolParameter.maxCut
+      raw.markets.eth.riskParameter.marginRatio = '0.01'
+
+      const errors = parseErrors(raw)
+      expect(errors).to.include('protocolParameter.maxCut: expected a decimal string')
+      expect(errors).to.include('markets.eth.riskParameter.marginRatio: unknown field')
+    })
+
+    it('throws on unknown oracles and vault markets', () => {
+      const raw = readRaw()
+      raw.markets.eth.oracle = 'doge'
+      raw.vaults.AsterVault.markets[1].market = 'doge'
+      raw.vaults.BegoniaVault.markets = []
+
+      const errors = parseErrors(raw)
+      expect(errors).to.include('markets.eth.oracle: unknown oracle doge for arbitrum')
+      expect(errors).to.include('vaults.AsterVault.markets.1.market: unknown market doge')
+      expect(errors).to.include('vaults.BegoniaVault.markets: expected a non-empty list of markets')
+    })
+
+    it('names the config path in errors', () => {
+      expect(() => parseMarketConfig('arbitrum', [], 'config/arbitrum.json')).to.throw(
+        'Invalid market config config/arbitrum.json',
+      )
+    })
+  })
+
+  describe('#validateMarketConfig', () => {
+    let market: MarketConfig
+    let protocolParameter: ProtocolParameter
+
+    beforeEach(() => {
+      const config = parseMarketConfig('arbitrum', readRaw())
+      market = config.markets[0]
+      protocolParameter = config.protocolParameter
+    })
+
+    const expectViolation = (message: string, hasReward = false) =>
+      expect(validateMarketConfig(market, protocolParameter, hasReward)).to.deep.equal([`eth: ${message}`])
+
+    it('accepts a valid market', () => {
+      expect(validateMarketConfig(market, protocolParameter)).to.deep.equal([])
+    })
+
+    it('accepts values at their bounds', () => {
+      market.riskParameter.takerFee = protocolParameter.maxFee
+      market.riskParameter.maintenance = protocolParameter.minMaintenance
+      market.riskParameter.margin = market.riskParameter.maintenance
+      market.riskParameter.efficiencyLimit = protocolParameter.minEfficiency
+      market.riskParameter.utilizationCurve.targetUtilization = parse6('1')
+      market.marketParameter.settlementFee = protocolParameter.maxFeeAbsolute
+
+      expect(validateMarketConfig(market, protocolParameter)).to.deep.equal([])
+    })
+
+    it('rejects a protocol fee above the max cut', () => {
+      protocolParameter.protocolFee = protocolParameter.maxCut.add(1)
+      expectViolation('protocol protocolFee exceeds maxCut')
+    })
+
+    it('rejects a max cut above 100%', () => {
+      protocolParameter.maxCut = parse6('1.000001')
+      protocolParameter.protocolFee = parse6('0')
+      expect(validateMarketConfig(market, protocolParameter)).to.include('eth: protocol maxCut exceeds 100%')
+    })
+
+    it('rejects a settlement fee above maxFeeAbsolute', () => {
+      market.marketParameter.settlementFee = protocolParameter.maxFeeAbsolute.add(1)
+      expectViolation('settlementFee exceeds maxFeeAbsolute')
+    })
+
+    it('rejects a fee cut above maxCut', () => {
+      market.marketParameter.interestFee = protocolParameter.maxCut.add(1)
+      expectViolation('fee cut exceeds maxCut')
+    })
+
+    it('rejects oracle and risk fees above 100%', () => {
+      market.marketParameter.oracleFee = parse6('0.000001')
+      expectViolation('oracleFee + riskFee exceeds 100%')
+    })
+
+    it('rejects reward rates without a reward token', () => {
+      market.marketParameter.longRewardRate = parse6('0.1')
+      expectViolation('reward rates require a reward token')
+      expect(validateMarketConfig(market, protocolParameter, true)).to.deep.equal([])
+    })
+
+    it('rejects a trading fee above maxFee', () => {
+      market.riskParameter.makerImpactFee = protocolParameter.maxFee.add(1)
+      expectViolation('trading fee exceeds maxFee')
+    })
+
+    it('rejects an absolute fee above maxFeeAbsolute', () => {
+      market.riskParameter.maxLiquidationFee = protocolParameter.maxFeeAbsolute.add(1)
+      expectViolation('absolute fee or requirement exceeds maxFeeAbsolute')
+    })
+
+    it('rejects a liquidation fee above maxCut', () => {
+      market.riskParameter.liquidationFee = protocolParameter.maxCut.add(1)
+      expectViolation('liquidationFee exceeds maxCut')
+    })
+
+    it('rejects a rate above maxRate', () => {
+      market.riskParameter.pController.max = protocolParameter.maxRate.add(1)
+      expectViolation('rate exceeds maxRate')
+    })
+
+    it('rejects maintenance below minMaintenance', () => {
+      market.riskParameter.maintenance = protocolParameter.minMaintenance.sub(1)
+      expectViolation('maintenance is below minMaintenance')
+    })
+
+    it('rejects margin below maintenance', () => {
+      market.riskParameter.margin = market.riskParameter.maintenance.sub(1)
+      expectViolation('margin is below maintenance')
+    })
+
+    it('rejects efficiencyLimit below minEfficiency', () => {
+      market.riskParameter.efficiencyLimit = protocolParameter.minEfficiency.sub(1)
+      expectViolation('efficiencyLimit is below minEfficiency')
+    })
+
+    it('rejects a target utilization above 100%', () => {
+      market.riskParameter.utilizationCurve.targetUtilization = parse6('1.000001')
+      expectViolation('targetUtilization exceeds 100%')
+    })
+
+    it('rejects minMaintenance below minLiquidationFee', () => {
+      market.riskParameter.minMaintenance = market.riskParameter.minLiquidationFee.sub(1)
+      expectViolation('minMaintenance is below minLiquidationFee')
+    })
+
+    it('rejects minMargin below minMaintenance', () => {
+      market.riskParameter.minMargin = market.riskParameter.minMaintenance.sub(1)
+      expectViolation('minMargin is below minMaintenance')
+    })
+  })
+})
@@ -0,0 +1,235 @@
+import { expect } from 'chai'
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { BigNumber, constants, utils } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { buildProposal, getProposalMode, getProposedCalls, propose, ProposedCall } from '../../../util/proposal'
+
+const TIMELOCK = '0xaBcDef0123456789AbcDEf0123456789aBCDef01'
+const MULTISIG = '0x8074583B0F9CFA345405320119D4B6937C152304'
+const OTHER = '0x2222222222222222222222222222222222222222'
+const DELAY = 86400
+const BLOCK = 1234
+
+const TimelockInterface = new utils.Interface([
+  'function scheduleBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt, uint256 delay)',
+  'function executeBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt)',
+])
+
+interface Transaction {
+  to: string
+  value: string
+  data: string
+}
+
+interface TimelockProposal {
+  network: string
+  predecessor: string
+  salt: string
+  delay: string
+  scheduleBatch?: Transaction
+  executeBatch?: Transaction
+  batched: ProposedCall[]
+  direct: ProposedCall[]
+}
+
+interface SafeBatch {
+  chainId: string
+  meta: { name: string; createdFromSafeAddress: string }
+  transactions: Transaction[]
+}
+
+const call = (owner: string, target: string, data: string): ProposedCall => ({
+  owner,
+  target,
+  value: '0',
+  data,
+  description: `call ${data} on ${target}`,
+})
+
+const CALLS = [
+  call(TIMELOCK.toLowerCase(), '0x3333333333333333333333333333333333333333', '0x01'),
+  call(MULTISIG, '0x4444444444444444444444444444444444444444', '0x02'),
+  call(TIMELOCK, '0x5555555555555555555555555555555555555555', '0x03'),
+  call(OTHER, '0x6666666666666666666666666666666666666666', '0x04'),
+]
+
+// Only the parts of the runtime environment buildProposal reads
+const fakeHRE = ({ network = 'arbitrum', timelock = true } = {}) =>
+  ({
+    deployments: {
+      getOrNull: async (name: string) => (name === 'TimelockController' && timelock ? { address: TIMELOCK } : null),
+      getNetworkName: () => network,
+    },
+    ethers: {
+      getContractAt: async (name: string, address: string) => ({
+        address,
+        interface: TimelockInterface,
+        getMinDelay: async () => BigNumber.from(DELAY),
+      }),
+      provider: { getNetwork: async () => ({ chainId: 42161 }), getBlockNumber: async () => BLOCK },
+    },
+  } as unknown as HardhatRuntimeEnvironment)
+
+describe('proposal', () => {
+  let env: NodeJS.ProcessEnv
+
+  beforeEach(() => {
+    env = { ...process.env }
+    delete process.env.PROPOSAL_MODE
+    delete process.env.PROPOSAL_SALT
+    delete process.env.FORK_ENABLED
+  })
+
+  afterEach(() => {
+    process.env = env
+  })
+
+  describe('#getProposalMode', () => {
+    it('is undefined if PROPOSAL_MODE is not set', () => {
+      expect(getProposalMode()).to.be.undefined
+    })
+
+    it('reads the mode', () => {
+      process.env.PROPOSAL_MODE = 'safe'
+      expect(getProposalMode()).to.equal('safe')
+    })
+
+    it('throws on an unknown mode', () => {
+      process.env.PROPOSAL_MODE = 'multisig'
+      expect(() => getProposalMode()).to.throw('Invalid PROPOSAL_MODE multisig, expected one of timelock, safe')
+    })
+  })
+
+  describe('#buildProposal', () => {
+    it('batches timelock owned calls and lists the rest to be sent directly', async () => {
+      const { schedule, execute, unsent } = await buildProposal(fakeHRE(), 'timelock', CALLS)
+      const proposal = schedule as TimelockProposal
+
+      expect(execute).to.be.undefined
+      expect(unsent).to.deep.equal([])
+      expect(proposal.network).to.equal('arbitrum')
+      expect(proposal.batched).to.deep.equal([CALLS[0], CALLS[2]])
+      expect(proposal.direct).to.deep.equal([CALLS[1], CALLS[3]])
+      expect(proposal.predecessor).to.equal(constants.HashZero)
+      expect(proposal.salt).to.equal(
+        utils.keccak256(utils.defaultAbiCoder.encode(['bytes[]', 'uint256'], [['0x01', '0x03'], BLOCK])),
+      )
+      expect(proposal.delay).to.equal(DELAY.toString())
+
+      expect(proposal.scheduleBatch?.to).to.equal(TIMELOCK)
+      const scheduled = TimelockInterface.decodeFunctionData('scheduleBatch', proposal.scheduleBatch?.data ?? '0x')
+      expect(scheduled.targets).to.deep.equal([CALLS[0].target, CALLS[2].target])
+      expect(scheduled.payloads).to.deep.equal(['0x01', '0x03'])
+      expect(scheduled.salt).to.equal(proposal.salt)
+      expect(scheduled.delay).to.equal(DELAY)
+
+      const executed = TimelockInterface.decodeFunctionData('executeBatch', proposal.executeBatch?.data ?? '0x')
+      expect(executed.targets).to.deep.equal(scheduled.targets)
+      expect(executed.salt).to.equal(proposal.salt)
+    })
+
+    it('uses PROPOSAL_SALT as the salt', async () => {
+      process.env.PROPOSAL_SALT = utils.hexZeroPad('0x01', 32)
+      const schedule = (await buildProposal(fakeHRE(), 'timelock', CALLS)).schedule as TimelockProposal
+
+      expect(schedule.salt).to.equal(process.env.PROPOSAL_SALT)
+    })
+
+    it('sends every call directly without a timelock', async () => {
+      const schedule = (await buildProposal(fakeHRE({ timelock: false }), 'timelock', CALLS))
+        .schedule as TimelockProposal
+
+      expect(schedule.batched).to.deep.equal([])
+      expect(schedule.direct).to.deep.equal(CALLS)
+      expect(schedule.scheduleBatch).to.be.undefined
+      expect(schedule.executeBatch).to.be.undefined
+    })
+
+    it('salts identical batches proposed at different blocks differently', async () => {
+      const salt = async (block: number) => {
+        const HRE = fakeHRE()
+        HRE.ethers.provider.getBlockNumber = async () => block
+        return ((await buildProposal(HRE, 'timelock', CALLS)).schedule as TimelockProposal).salt
+      }
+
+      expect(await salt(1)).to.not.equal(await salt(2))
+    })
+
+    it('builds safe batches for the multisig', async () => {
+      const proposal = await buildProposal(fakeHRE(), 'safe', CALLS)
+      const schedule = proposal.schedule as SafeBatch
+      const execute = proposal.execute as SafeBatch
+
+      expect(schedule.chainId).to.equal('42161')
+      expect(schedule.meta.name).to.equal('Schedule')
+      expect(schedule.meta.createdFromSafeAddress).to.equal(MULTISIG)
+      expect(schedule.transactions.map(({ to }) => to)).to.deep.equal([CALLS[1].target, TIMELOCK])
+      expect(schedule.transactions[0].data).to.equal('0x02')
+      expect(TimelockInterface.parseTransaction(schedule.transactions[1]).name).to.equal('scheduleBatch')
+
+      expect(execute.meta.name).to.equal('Execute')
+      expect(execute.transactions).to.have.length(1)
+      expect(TimelockInterface.parseTransaction(execute.transactions[0]).name).to.equal('executeBatch')
+      expect(proposal.unsent).to.deep.equal([CALLS[3]])
+    })
+
+    it('leaves out the execute batch if nothing is owned by the timelock', async () => {
+      const { schedule, execute } = await buildProposal(fakeHRE(), 'safe', [CALLS[1]])
+
+      expect((schedule as SafeBatch).transactions).to.have.length(1)
+      expect(execute).to.be.undefined
+    })
+
+    it('throws in safe mode if the network has no multisig', async () => {
+      let error: Error | undefined
+      await buildProposal(fakeHRE({ network: 'hardhat' }), 'safe', CALLS).catch(e => (error = e))
+
+      expect(error?.message).to.equal('No multisig for network')
+    })
+  })
+
+  describe('#propose', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'proposal-'))
+      process.env.PROPOSAL_OUTPUT = join(dir, 'arbitrum.json')
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('throws if PROPOSAL_MODE is not set', async () => {
+      let error: Error | undefined
+      await propose(fakeHRE(), CALLS[0]).catch(e => (error = e))
+
+      expect(error?.message).to.equal('PROPOSAL_MODE is not set')
+    })
+
+    it('rewrites the proposal for every call and warns about each unsent call once', async () => {
+      process.env.PROPOSAL_MODE = 'safe'
+      const log = console.log
+      const stdoutWrite = process.stdout.write
+      const warnings: string[] = []
+      console.log = (message: string) => warnings.push(message)
+      process.stdout.write = (() => true) as typeof process.stdout.write
+
+      try {
+        for (const call of [CALLS[3], CALLS[0], CALLS[1]]) await propose(fakeHRE(), call)
+      } finally {
+        console.log = log
+        process.stdout.write = stdoutWrite
+      }
+
+      expect(warnings).to.deep.equal([`[WARNING] ${CALLS[3].description} must be sent by ${OTHER}`])
+      expect(getProposedCalls().slice(-3)).to.deep.equal([CALLS[3], CALLS[0], CALLS[1]])
+      const schedule = JSON.parse(readFileSync(join(dir, 'arbitrum.json'), 'utf-8')) as SafeBatch
+      expect(schedule.transactions.map(({ to }) => to)).to.deep.equal([CALLS[1].target, TIMELOCK])
+      const execute = JSON.parse(readFileSync(join(dir, 'arbitrum.execute.json'), 'utf-8')) as SafeBatch
+      expect(execute.transactions).to.have.length(1)
+    })
+  })
+})
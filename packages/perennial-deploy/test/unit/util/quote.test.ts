@@ -0,0 +1,269 @@
+import { expect } from 'chai'
+import { BigNumber, BigNumberish } from 'ethers'
+import { parse6decimal } from '../../../../common/testutil/types'
+import { computeUpdateQuote, UpdateQuoteContext } from '../../../util/quote'
+import { FULLY_CLOSED, MIN_INT } from '../../../../common/util/invoke'
+
+const position = (timestamp: number, { maker = '0', long = '0', short = '0' } = {}) => ({
+  timestamp: BigNumber.from(timestamp),
+  maker: parse6decimal(maker),
+  long: parse6decimal(long),
+  short: parse6decimal(short),
+  fee: BigNumber.from(0),
+  keeper: BigNumber.from(0),
+  collateral: BigNumber.from(0),
+  delta: BigNumber.from(0),
+  invalidation: { maker: BigNumber.from(0), long: BigNumber.from(0), short: BigNumber.from(0) },
+})
+
+// A market with 20 maker, 5 long and 5 short settled at $1000, and an account holding 1000 collateral and no position
+function context({
+  marketParameter = {},
+  riskParameter = {},
+  global = {},
+  local = {},
+  latestLocal = {},
+  currentLocal = latestLocal,
+  pendingPositions = [],
+  latestTimestamp = 100,
+  currentTimestamp = 200,
+  senderAllowed = true,
+}: {
+  marketParameter?: { [field: string]: unknown }
+  riskParameter?: { [field: string]: unknown }
+  global?: { [field: string]: BigNumberish }
+  local?: { [field: string]: BigNumberish }
+  latestLocal?: { maker?: string; long?: string; short?: string }
+  currentLocal?: { maker?: string; long?: string; short?: string }
+  pendingPositions?: { maker?: string; long?: string; short?: string }[]
+  latestTimestamp?: number
+  currentTimestamp?: number
+  senderAllowed?: boolean
+} = {}): UpdateQuoteContext {
+  const toBigNumbers = (values: { [field: string]: BigNumberish }) =>
+    Object.fromEntries(Object.entries(values).map(([key, value]) => [key, BigNumber.from(value)]))
+
+  return {
+    marketParameter: {
+      fundingFee: parse6decimal('0.1'),
+      interestFee: parse6decimal('0.1'),
+      positionFee: parse6decimal('0.1'),
+      oracleFee: parse6decimal('0'),
+      riskFee: parse6decimal('0'),
+      maxPendingGlobal: BigNumber.from(8),
+      maxPendingLocal: BigNumber.from(8),
+      settlementFee: parse6decimal('0.5'),
+      makerCloseAlways: false,
+      takerCloseAlways: false,
+      closed: false,
+      ...marketParameter,
+    },
+    riskParameter: {
+      margin: parse6decimal('0.3'),
+      maintenance: parse6decimal('0.3'),
+      takerFee: parse6decimal('0.001'),
+      takerSkewFee: parse6decimal('0.002'),
+      takerImpactFee: parse6decimal('0.003'),
+      makerFee: parse6decimal('0.001'),
+      makerImpactFee: parse6decimal('0'),
+      makerLimit: parse6decimal('1000000'),
+      efficiencyLimit: parse6decimal('0.5'),
+      liquidationFee: parse6decimal('0.5'),
+      minLiquidationFee: parse6decimal('0'),
+      maxLiquidationFee: parse6decimal('1000'),
+      minMargin: parse6decimal('0.5'),
+      minMaintenance: parse6decimal('0.5'),
+      skewScale: parse6decimal('10'),
+      staleAfter: BigNumber.from(7200),
+      ...riskParameter,
+    },
+    global: toBigNumbers({ currentId: 5, latestId: 5, latestPrice: parse6decimal('1000'), ...global }),
+    local: toBigNumbers({
+      currentId: 2,
+      latestId: 2,
+      collateral: parse6decimal('1000'),
+      reward: 0,
+      protection: 0,
+      protectionAmount: 0,
+      ...local,
+    }),
+    latestPosition: {
+      global: position(latestTimestamp, { maker: '20', long: '5', short: '5' }),
+      local: position(latestTimestamp, latestLocal),
+    },
+    currentPosition: {
+      global: position(currentTimestamp, { maker: '20', long: '5', short: '5' }),
+      local: position(currentTimestamp, currentLocal),
+    },
+    pendingPositions: pendingPositions.map(pending => position(currentTimestamp, pending)),
+    latestVersion: { timestamp: BigNumber.from(latestTimestamp), price: parse6decimal('1000') },
+    currentTimestamp: BigNumber.from(currentTimestamp),
+    senderAllowed,
+  } as unknown as UpdateQuoteContext
+}
+
+describe('quote', () => {
+  describe('#computeUpdateQuote', () => {
+    it('quotes an order that succeeds', () => {
+      const quote = computeUpdateQuote(context(), { long: parse6decimal('1') })
+
+      expect(quote.error).to.be.undefined
+      expect(quote.position.long).to.equal(parse6decimal('1'))
+      expect(quote.position.maker).to.equal(0)
+      expect(quote.order.long).to.equal(parse6decimal('1'))
+      expect(quote.order.keeper).to.equal(parse6decimal('0.5'))
+      expect(quote.margin).to.equal(parse6decimal('300'))
+      expect(quote.pendingCollateral).to.equal(parse6decimal('1000').sub(quote.order.fee).sub(quote.order.keeper))
+      expect(quote.protected).to.be.false
+      expect(quote.liquidationFee).to.equal(0)
+    })
+
+    it('leaves omitted sides and collateral unchanged', () => {
+      const quote = computeUpdateQuote(context({ latestLocal: { short: '2' } }), {})
+
+      expect(quote.error).to.be.undefined
+      expect(quote.position.short).to.equal(parse6decimal('2'))
+      expect(quote.collateral).to.equal(0)
+      expect(quote.order.fee).to.equal(0)
+      expect(quote.order.keeper).to.equal(0)
+    })
+
+    it('closes the closable position with FULLY_CLOSED', () => {
+      const quote = computeUpdateQuote(context({ latestLocal: { long: '2' } }), { long: FULLY_CLOSED })
+
+      expect(quote.error).to.be.undefined
+      expect(quote.position.long).to.equal(0)
+      expect(quote.order.long).to.equal(parse6decimal('-2'))
+    })
+
+    it('only closes the settled position with FULLY_CLOSED', () => {
+      const quote = computeUpdateQuote(
+        context({ latestLocal: { long: '2' }, pendingPositions: [{ long: '3' }], currentLocal: { long: '3' } }),
+        { long: FULLY_CLOSED },
+      )
+
+      expect(quote.position.long).to.equal(parse6decimal('1'))
+    })
+
+    it('withdraws all collateral with MIN_INT', () => {
+      const quote = computeUpdateQuote(context(), { collateral: MIN_INT })
+
+      expect(quote.error).to.be.undefined
+      expect(quote.collateral).to.equal(parse6decimal('-1000'))
+      expect(quote.pendingCollateral).to.equal(0)
+    })
+
+    it('quotes a protected close', () => {
+      const quote = computeUpdateQuote(
+        context({ latestLocal: { long: '2' }, local: { collateral: parse6decimal('500') } }),
+        {
+          long: 0,
+          protect: true,
+        },
+      )
+
+      expect(quote.error).to.be.undefined
+      expect(quote.protected).to.be.true
+      expect(quote.liquidationFee).to.be.gt(0)
+    })
+
+    it('reverts with MarketOverCloseError', () => {
+      const quote = computeUpdateQuote(
+        context({ latestLocal: { long: '2' }, pendingPositions: [{ long: '5' }], currentLocal: { long: '5' } }),
+        { long: 0 },
+      )
+
+      expect(quote.error).to.equal('MarketOverCloseError')
+    })
+
+    it('reverts with MarketInvalidProtectionError', () => {
+      const quote = computeUpdateQuote(context({ latestLocal: { long: '2' } }), {
+        long: parse6decimal('1'),
+        protect: true,
+      })
+
+      expect(quote.error).to.equal('MarketInvalidProtectionError')
+    })
+
+    it('reverts with MarketStalePriceError', () => {
+      const quote = computeUpdateQuote(context({ currentTimestamp: 7300 }), { long: parse6decimal('1') })
+
+      expect(quote.error).to.equal('MarketStalePriceError')
+    })
+
+    it('allows deposits on a stale price', () => {
+      const quote = computeUpdateQuote(context({ currentTimestamp: 7300 }), { collateral: parse6decimal('1') })
+
+      expect(quote.error).to.be.undefined
+    })
+
+    it('reverts with MarketClosedError', () => {
+      const quote = computeUpdateQuote(context({ marketParameter: { closed: true } }), { long: parse6decimal('1') })
+
+      expect(quote.error).to.equal('MarketClosedError')
+    })
+
+    it('reverts with MarketMakerOverLimitError', () => {
+      const quote = computeUpdateQuote(context({ riskParameter: { makerLimit: parse6decimal('20.5') } }), {
+        maker: parse6decimal('1'),
+      })
+
+      expect(quote.error).to.equal('MarketMakerOverLimitError')
+    })
+
+    it('reverts with MarketNotSingleSidedError', () => {
+      const quote = computeUpdateQuote(context(), { long: parse6decimal('1'), short: parse6decimal('1') })
+
+      expect(quote.error).to.equal('MarketNotSingleSidedError')
+    })
+
+    it('reverts with MarketOperatorNotAllowedError', () => {
+      const quote = computeUpdateQuote(context({ senderAllowed: false }), { long: parse6decimal('1') })
+
+      expect(quote.error).to.equal('MarketOperatorNotAllowedError')
+    })
+
+    it('reverts with MarketExceedsPendingIdLimitError', () => {
+      const quote = computeUpdateQuote(context({ global: { currentId: 14 } }), { long: parse6decimal('1') })
+
+      expect(quote.error).to.equal('MarketExceedsPendingIdLimitError')
+    })
+
+    it('reverts with MarketInsufficientMarginError', () => {
+      const quote = computeUpdateQuote(context({ local: { collateral: parse6decimal('10') } }), {
+        long: parse6decimal('1'),
+      })
+
+      expect(quote.error).to.equal('MarketInsufficientMarginError')
+    })
+
+    it('reverts with MarketProtectedError', () => {
+      const quote = computeUpdateQuote(context({ local: { protection: 150 } }), { long: parse6decimal('1') })
+
+      expect(quote.error).to.equal('MarketProtectedError')
+    })
+
+    it('reverts with MarketEfficiencyUnderLimitError', () => {
+      const quote = computeUpdateQuote(context({ local: { collateral: parse6decimal('1000000') } }), {
+        long: parse6decimal('40'),
+      })
+
+      expect(quote.error).to.equal('MarketEfficiencyUnderLimitError')
+    })
+
+    it('reverts with MarketInsufficientLiquidityError', () => {
+      const quote = computeUpdateQuote(
+        context({ riskParameter: { efficiencyLimit: 0 }, local: { collateral: parse6decimal('1000000') } }),
+        { long: parse6decimal('30') },
+      )
+
+      expect(quote.error).to.equal('MarketInsufficientLiquidityError')
+    })
+
+    it('reverts with MarketInsufficientCollateralError', () => {
+      const quote = computeUpdateQuote(context(), { collateral: parse6decimal('-1001') })
+
+      expect(quote.error).to.equal('MarketInsufficientCollateralError')
+    })
+  })
+})
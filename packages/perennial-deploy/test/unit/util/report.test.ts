@@ -0,0 +1,110 @@
+import { expect } from 'chai'
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { parseReportFormat, reportAction, toCsv } from '../../../util/report'
+
+describe('report', () => {
+  describe('#parseReportFormat', () => {
+    it('parses each format', () => {
+      expect(parseReportFormat('json')).to.equal('json')
+      expect(parseReportFormat('csv')).to.equal('csv')
+    })
+
+    it('throws on an unknown format', () => {
+      expect(() => parseReportFormat('xml')).to.throw('Invalid report format xml, expected one of json, csv')
+    })
+  })
+
+  describe('#toCsv', () => {
+    it('writes a header and one line per row', () => {
+      expect(
+        toCsv([
+          { market: 'eth', long: 10, closed: false },
+          { market: 'btc', long: 0.5, closed: true },
+        ]),
+      ).to.equal('market,long,closed\neth,10,false\nbtc,0.5,true\n')
+    })
+
+    it('takes the union of columns in first-seen order and leaves missing cells empty', () => {
+      expect(toCsv([{ a: 1, b: 2 }, { c: 3, a: 4 }, { b: 5 }])).to.equal('a,b,c\n1,2,\n4,,3\n,5,\n')
+    })
+
+    it('writes null as an empty cell', () => {
+      expect(toCsv([{ a: null, b: 'x' }])).to.equal('a,b\n,x\n')
+    })
+
+    it('quotes cells with commas, quotes and newlines', () => {
+      expect(toCsv([{ a: '1,2', b: 'say "hi"', c: 'two\nlines', d: 'plain' }])).to.equal(
+        'a,b,c,d\n"1,2","say ""hi""","two\nlines",plain\n',
+      )
+    })
+
+    it('writes an empty report for no rows', () => {
+      expect(toCsv([])).to.equal('\n')
+    })
+  })
+
+  describe('#reportAction', () => {
+    const HRE = {} as HardhatRuntimeEnvironment
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'report-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('writes the returned report to the output path', async () => {
+      const output = join(dir, 'nested', 'report.csv')
+      await reportAction(async () => 'a,b\n1,2\n')({ output }, HRE)
+
+      expect(readFileSync(output, 'utf-8')).to.equal('a,b\n1,2\n')
+    })
+
+    it('does not write a report if the action returns nothing', async () => {
+      const output = join(dir, 'report.csv')
+      await reportAction(async () => undefined)({ output }, HRE)
+
+      expect(existsSync(output)).to.be.false
+    })
+
+    it('sends what the action prints to stderr without an output path', async () => {
+      const stdoutWrite = process.stdout.write
+      const stderrWrite = process.stderr.write
+      const stdout: string[] = []
+      const stderr: string[] = []
+      const capture = (chunks: string[]) => ((chunk: string) => chunks.push(chunk) > 0) as typeof process.stdout.write
+      process.stdout.write = capture(stdout)
+      process.stderr.write = capture(stderr)
+
+      try {
+        await reportAction(async () => {
+          process.stdout.write('progress\n')
+          return 'report\n'
+        })({}, HRE)
+      } finally {
+        process.stdout.write = stdoutWrite
+        process.stderr.write = stderrWrite
+      }
+
+      expect(stderr).to.deep.equal(['progress\n'])
+      expect(stdout).to.deep.equal(['report\n'])
+    })
+
+    it('restores stdout if the action throws', async () => {
+      const stdoutWrite = process.stdout.write
+
+      let error: Error | undefined
+      await reportAction(async () => {
+        throw new Error('failed')
+      })({}, HRE).catch(e => (error = e))
+
+      expect(error?.message).to.equal('failed')
+      expect(process.stdout.write).to.equal(stdoutWrite)
+    })
+  })
+})
@@ -0,0 +1,210 @@
+import { expect } from 'chai'
+import { compareStorageLayouts, StorageEntry, StorageLayout, StorageType } from '../../../util/storageLayout'
+
+const entry = (label: string, slot: number, type: string, offset = 0): StorageEntry => ({
+  label,
+  offset,
+  slot: slot.toString(),
+  type,
+})
+
+const inplace = (label: string, numberOfBytes: number, members?: StorageEntry[]): StorageType => ({
+  encoding: 'inplace',
+  label,
+  numberOfBytes: numberOfBytes.toString(),
+  members,
+})
+
+const TYPES: { [id: string]: StorageType } = {
+  t_address: inplace('address', 20),
+  t_uint96: inplace('uint96', 12),
+  t_uint256: inplace('uint256', 32),
+  t_int256: inplace('int256', 32),
+  t_struct_Global: inplace('struct Global', 32, [
+    entry('currentId', 0, 't_uint96'),
+    entry('owner', 0, 't_address', 12),
+  ]),
+  t_struct_Local: inplace('struct Local', 32, [entry('collateral', 0, 't_uint256')]),
+  t_mapping_Local: {
+    encoding: 'mapping',
+    label: 'mapping(address => struct Local)',
+    numberOfBytes: '32',
+    key: 't_address',
+    value: 't_struct_Local',
+  },
+  t_array_uint256: {
+    encoding: 'dynamic_array',
+    label: 'uint256[]',
+    numberOfBytes: '32',
+    base: 't_uint256',
+  },
+}
+
+// A Market-like layout with a packed struct, a mapping of structs and an array
+const layout = (storage: StorageEntry[], types: { [id: string]: StorageType } = {}): StorageLayout => ({
+  storage,
+  types: { ...TYPES, ...types },
+})
+
+const STORAGE = [
+  entry('_global', 0, 't_struct_Global'),
+  entry('_locals', 1, 't_mapping_Local'),
+  entry('_ids', 2, 't_array_uint256'),
+  entry('_last', 3, 't_uint256'),
+]
+
+describe('storageLayout', () => {
+  describe('#compareStorageLayouts', () => {
+    it('accepts an unchanged layout', () => {
+      expect(compareStorageLayouts(layout(STORAGE), layout(STORAGE))).to.deep.equal([])
+    })
+
+    it('accepts layouts without types', () => {
+      expect(compareStorageLayouts({ storage: [], types: null }, { storage: [], types: null })).to.deep.equal([])
+    })
+
+    it('accepts appended variables', () => {
+      expect(compareStorageLayouts(layout(STORAGE), layout([...STORAGE, entry('_new', 4, 't_uint256')]))).to.deep.equal(
+        [],
+      )
+    })
+
+    it('rejects a removed variable', () => {
+      expect(compareStorageLayouts(layout(STORAGE), layout(STORAGE.slice(0, 3)))).to.deep.equal([
+        { path: '_last', severity: 'error', message: 'removed' },
+      ])
+    })
+
+    it('rejects reordered variables', () => {
+      const next = [STORAGE[0], STORAGE[1], entry('_last', 2, 't_uint256'), entry('_ids', 3, 't_array_uint256')]
+
+      expect(compareStorageLayouts(layout(STORAGE), layout(next))).to.deep.include.members([
+        { path: '_ids', severity: 'error', message: 'reordered, _last is now in its place' },
+        { path: '_last', severity: 'error', message: 'reordered, _ids is now in its place' },
+      ])
+    })
+
+    it('warns on a renamed variable', () => {
+      const next = [...STORAGE.slice(0, 3), entry('_latest', 3, 't_uint256')]
+
+      expect(compareStorageLayouts(layout(STORAGE), layout(next))).to.deep.equal([
+        { path: '_last', severity: 'warning', message: 'renamed to _latest' },
+      ])
+    })
+
+    it('rejects a moved variable', () => {
+      const next = [...STORAGE.slice(0, 3), entry('_last', 4, 't_uint256')]
+
+      expect(compareStorageLayouts(layout(STORAGE), layout(next))).to.deep.equal([
+        { path: '_last', severity: 'error', message: 'moved from slot 3:0 to 4:0' },
+      ])
+    })
+
+    it('rejects a changed type encoding', () => {
+      const next = [...STORAGE.slice(0, 3), entry('_last', 3, 't_array_uint256')]
+
+      expect(compareStorageLayouts(layout(STORAGE), layout(next))).to.deep.equal([
+        { path: '_last', severity: 'error', message: 'type changed from uint256 to uint256[]' },
+      ])
+    })
+
+    it('warns on a relabeled type of the same size', () => {
+      const next = [...STORAGE.slice(0, 3), entry('_last', 3, 't_int256')]
+
+      expect(compareStorageLayouts(layout(STORAGE), layout(next))).to.deep.equal([
+        { path: '_last', severity: 'warning', message: 'type relabeled from uint256 to int256' },
+      ])
+    })
+
+    it('checks the members of packed structs', () => {
+      const types = {
+        t_struct_Global: inplace('struct Global', 32, [
+          entry('currentId', 0, 't_uint96'),
+          entry('owner', 0, 't_address'),
+        ]),
+      }
+
+      expect(compareStorageLayouts(layout(STORAGE), layout(STORAGE, types))).to.deep.equal([
+        { path: '_global.owner', severity: 'error', message: 'moved from slot 0:12 to 0:0' },
+      ])
+    })
+
+    it('rejects a struct replaced by a value type', () => {
+      const types = { t_struct_Global: inplace('uint256', 32) }
+
+      expect(compareStorageLayouts(layout(STORAGE), layout(STORAGE, types))).to.deep.equal([
+        { path: '_global', severity: 'error', message: 'type changed from struct Global to uint256' },
+      ])
+    })
+
+    it('rejects a struct that grows into the following storage', () => {
+      const types = {
+        t_struct_Global: inplace('struct Global', 64, [
+          entry('currentId', 0, 't_uint96'),
+          entry('owner', 0, 't_address', 12),
+          entry('latestId', 1, 't_uint256'),
+        ]),
+      }
+
+      expect(compareStorageLayouts(layout(STORAGE), layout(STORAGE, types))).to.deep.equal([
+        {
+          path: '_global',
+          severity: 'error',
+          message: 'size changed from 32 to 64 bytes, colliding with the following storage',
+        },
+      ])
+    })
+
+    it('accepts the last variable growing', () => {
+      const previous = layout([entry('_global', 0, 't_struct_Global')])
+      const next = layout([entry('_global', 0, 't_struct_Global')], {
+        t_struct_Global: inplace('struct Global', 64, [
+          entry('currentId', 0, 't_uint96'),
+          entry('owner', 0, 't_address', 12),
+          entry('latestId', 1, 't_uint256'),
+        ]),
+      })
+
+      expect(compareStorageLayouts(previous, next)).to.deep.equal([])
+    })
+
+    it('accepts a mapping value struct that grows', () => {
+      const types = {
+        t_struct_Local: inplace('struct Local', 64, [
+          entry('collateral', 0, 't_uint256'),
+          entry('reward', 1, 't_uint256'),
+        ]),
+      }
+
+      expect(compareStorageLayouts(layout(STORAGE), layout(STORAGE, types))).to.deep.equal([])
+    })
+
+    it('rejects a changed mapping key', () => {
+      const types = { t_mapping_Local: { ...TYPES.t_mapping_Local, key: 't_uint256' } }
+
+      expect(compareStorageLayouts(layout(STORAGE), layout(STORAGE, types))).to.deep.equal([
+        { path: '_locals', severity: 'error', message: 'mapping key changed to uint256' },
+      ])
+    })
+
+    it('checks the members of mapping value structs', () => {
+      const types = { t_struct_Local: inplace('struct Local', 32, []) }
+
+      expect(compareStorageLayouts(layout(STORAGE), layout(STORAGE, types))).to.deep.equal([
+        { path: '_locals.collateral', severity: 'error', message: 'removed' },
+      ])
+    })
+
+    it('rejects an array element that changes size', () => {
+      const types = { t_array_uint256: { ...TYPES.t_array_uint256, base: 't_uint96' } }
+
+      expect(compareStorageLayouts(layout(STORAGE), layout(STORAGE, types))).to.deep.equal([
+        {
+          path: '_ids[]',
+          severity: 'error',
+          message: 'size changed from 32 to 12 bytes, colliding with the following storage',
+        },
+      ])
+    })
+  })
+})
@@ -0,0 +1,40 @@
+import HRE from 'hardhat'
+import { expect } from 'chai'
+import { BigNumber } from 'ethers'
+import { ProxyAdmin__factory } from '../../../types/generated'
+import { forkNetwork } from '../../../../common/testutil/network'
+import { getLabsMultisig } from '../../../../common/testutil/constants'
+import { loadMarketConfig, NetworkConfig } from '../../../util/marketConfig'
+
+// The verification suites check the forked network against the same config its deploy is driven by
+export const network = forkNetwork()
+export const config: NetworkConfig = loadMarketConfig(network)
+
+// Mainnets are owned by the timelock, and paused by the labs multisig where the network has one
+export async function expectedOwner(): Promise<string> {
+  return (await HRE.deployments.get('TimelockController')).address
+}
+
+export function expectedPauser(): string | null {
+  return getLabsMultisig(network)
+}
+
+// Checks that a proxy is administered by the ProxyAdmin and points at the named implementation deployment
+export async function expectProxy(proxy: string, implementation: string): Promise<void> {
+  const [signer] = await HRE.ethers.getSigners()
+  const proxyAdmin = ProxyAdmin__factory.connect((await HRE.deployments.get('ProxyAdmin')).address, signer)
+  expect(await proxyAdmin.callStatic.getProxyAdmin(proxy)).to.equal(proxyAdmin.address)
+  expect(await proxyAdmin.callStatic.getProxyImplementation(proxy)).to.equal(
+    (await HRE.deployments.get(implementation)).address,
+  )
+}
+
+// Checks each field of a parsed config parameter against the on-chain parameter, recursing into nested structs
+export function expectParameter(actual: unknown, expected: unknown, path: string): void {
+  for (const [key, value] of Object.entries(expected as Record<string, unknown>)) {
+    const actualValue = (actual as Record<string, unknown>)[key]
+    if (BigNumber.isBigNumber(value) || typeof value === 'boolean')
+      expect(actualValue, `${path}.${key}`).to.equal(value)
+    else expectParameter(actualValue, value, `${path}.${key}`)
+  }
+}
@@ -0,0 +1,57 @@
+import HRE from 'hardhat'
+import { expect } from 'chai'
+import {
+  MarketFactory,
+  MarketFactory__factory,
+  Market__factory,
+  OracleFactory,
+  OracleFactory__factory,
+} from '../../../types/generated'
+import { constants } from 'ethers'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { getMarketAddress } from '../../../util/market'
+import { config, expectedOwner, expectedPauser, expectParameter, expectProxy } from './helpers'
+
+describe('Verify Markets', () => {
+  let signer: SignerWithAddress
+  let marketFactory: MarketFactory
+  let oracleFactory: OracleFactory
+
+  beforeEach(async () => {
+    ;[signer] = await HRE.ethers.getSigners()
+    marketFactory = MarketFactory__factory.connect((await HRE.deployments.get('MarketFactory')).address, signer)
+    oracleFactory = OracleFactory__factory.connect((await HRE.deployments.get('OracleFactory')).address, signer)
+  })
+
+  it('MarketFactory', async () => {
+    await expect(marketFactory.callStatic.initialize()).to.be.reverted
+    expect(await marketFactory.callStatic.owner()).to.equal(await expectedOwner())
+    if (expectedPauser()) expect(await marketFactory.callStatic.pauser()).to.equal(expectedPauser())
+    expect(await marketFactory.callStatic.implementation()).to.equal((await HRE.deployments.get('MarketImpl')).address)
+    await expectProxy(marketFactory.address, 'MarketFactoryImpl')
+    expect(await oracleFactory.callStatic.callers(marketFactory.address)).to.be.true
+  })
+
+  it('Protocol Parameters', async () => {
+    expect(await marketFactory.paused()).to.be.false
+    expectParameter(await marketFactory.callStatic.parameter(), config.protocolParameter, 'protocolParameter')
+  })
+
+  for (const marketConfig of config.markets) {
+    it(`Market: ${marketConfig.key}`, async () => {
+      const address = await getMarketAddress(HRE, marketFactory, oracleFactory, marketConfig)
+      expect(address).to.not.equal(constants.AddressZero)
+      const market = Market__factory.connect(address, signer)
+
+      expect(await market.callStatic.factory()).to.equal(marketFactory.address)
+      expect(await market.callStatic.token()).to.equal((await HRE.deployments.get('DSU')).address)
+      expect(await market.callStatic.oracle()).to.equal(await oracleFactory.callStatic.oracles(marketConfig.oracleId))
+      expect(await market.callStatic.payoff()).to.equal(
+        marketConfig.payoff === '' ? constants.AddressZero : (await HRE.deployments.get(marketConfig.payoff)).address,
+      )
+
+      expectParameter(await market.callStatic.parameter(), marketConfig.marketParameter, 'marketParameter')
+      expectParameter(await market.callStatic.riskParameter(), marketConfig.riskParameter, 'riskParameter')
+    })
+  }
+})
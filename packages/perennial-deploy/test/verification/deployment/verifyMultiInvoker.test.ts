@@ -0,0 +1,58 @@
+import HRE from 'hardhat'
+import { expect } from 'chai'
+import {
+  IERC20__factory,
+  MarketFactory__factory,
+  MultiInvoker,
+  MultiInvoker__factory,
+  VaultFactory__factory,
+} from '../../../types/generated'
+import { constants } from 'ethers'
+import { isArbitrum } from '../../../../common/testutil/network'
+import { DEFAULT_BLOCK_RANGE, deploymentBlock, queryInRanges } from '../../../util/events'
+import { expectProxy, network } from './helpers'
+
+describe('Verify MultiInvoker', () => {
+  let multiInvoker: MultiInvoker
+
+  beforeEach(async () => {
+    const { deployments, ethers } = HRE
+    const [signer] = await ethers.getSigners()
+    multiInvoker = MultiInvoker__factory.connect((await deployments.get('MultiInvoker')).address, signer)
+  })
+
+  it('MultiInvoker', async () => {
+    await expectProxy(
+      multiInvoker.address,
+      isArbitrum(network) ? 'MultiInvokerImpl_Arbitrum' : 'MultiInvokerImpl_Optimism',
+    )
+    await expect(multiInvoker.initialize(constants.AddressZero)).to.be.reverted
+  })
+
+  it('Approvals', async () => {
+    const { deployments, ethers } = HRE
+    const DSU = IERC20__factory.connect((await deployments.get('DSU')).address, ethers.provider)
+    const marketFactory = MarketFactory__factory.connect(
+      (await deployments.get('MarketFactory')).address,
+      ethers.provider,
+    )
+    const vaultFactory = VaultFactory__factory.connect((await deployments.get('VaultFactory')).address, ethers.provider)
+    const latestBlock = await ethers.provider.getBlockNumber()
+    const markets = await queryInRanges(
+      deploymentBlock(await deployments.get('MarketFactory')),
+      latestBlock,
+      DEFAULT_BLOCK_RANGE,
+      (fromBlock, toBlock) => marketFactory.queryFilter(marketFactory.filters.InstanceRegistered(), fromBlock, toBlock),
+    )
+    const vaults = await queryInRanges(
+      deploymentBlock(await deployments.get('VaultFactory')),
+      latestBlock,
+      DEFAULT_BLOCK_RANGE,
+      (fromBlock, toBlock) => vaultFactory.queryFilter(vaultFactory.filters.InstanceRegistered(), fromBlock, toBlock),
+    )
+
+    for (const target of [...markets, ...vaults].map(e => e.args.instance)) {
+      expect(await DSU.callStatic.allowance(multiInvoker.address, target), target).to.equal(constants.MaxUint256)
+    }
+  })
+})
@@ -0,0 +1,50 @@
+import HRE from 'hardhat'
+import { expect } from 'chai'
+import { constants } from 'ethers'
+import { OracleFactory, OracleFactory__factory, PythFactory, PythFactory__factory } from '../../../types/generated'
+import { DEFAULT_GRANULARITY, DEFAULT_MAX_CLAIM_AMOUNT } from '../../../deploy/003_deploy_oracle'
+import { ORACLE_IDS } from '../../../util/oracleIds'
+import { expectedOwner, expectProxy, network } from './helpers'
+
+describe('Verify Oracle', () => {
+  let oracleFactory: OracleFactory
+  let pythFactory: PythFactory
+
+  beforeEach(async () => {
+    const { deployments, ethers } = HRE
+    const [signer] = await ethers.getSigners()
+    oracleFactory = OracleFactory__factory.connect((await deployments.get('OracleFactory')).address, signer)
+    pythFactory = PythFactory__factory.connect((await deployments.get('PythFactory')).address, signer)
+  })
+
+  it('OracleFactory', async () => {
+    await expectProxy(oracleFactory.address, 'OracleFactoryImpl')
+    await expect(oracleFactory.initialize(constants.AddressZero, constants.AddressZero, constants.AddressZero)).to.be
+      .reverted
+    expect(await oracleFactory.callStatic.owner()).to.equal(await expectedOwner())
+    expect(await oracleFactory.callStatic.implementation()).to.equal((await HRE.deployments.get('OracleImpl')).address)
+    expect(await oracleFactory.callStatic.maxClaim()).to.equal(DEFAULT_MAX_CLAIM_AMOUNT)
+    expect(await oracleFactory.callStatic.factories(pythFactory.address)).to.be.true
+  })
+
+  it('PythFactory', async () => {
+    await expectProxy(pythFactory.address, 'PythFactoryImpl')
+    await expect(pythFactory.initialize(constants.AddressZero, constants.AddressZero, constants.AddressZero)).to.be
+      .reverted
+    expect(await pythFactory.callStatic.owner()).to.equal(await expectedOwner())
+    expect(await pythFactory.callStatic.implementation()).to.equal(
+      (await HRE.deployments.get('KeeperOracleImpl')).address,
+    )
+    expect((await pythFactory.callStatic.granularity()).currentGranularity).to.equal(DEFAULT_GRANULARITY)
+    expect(await pythFactory.callStatic.callers(oracleFactory.address)).to.be.true
+  })
+
+  for (const [asset, id] of Object.entries(ORACLE_IDS[network])) {
+    it(`Oracle: ${asset}`, async () => {
+      const oracle = await oracleFactory.callStatic.oracles(id)
+      expect(oracle).to.not.equal(constants.AddressZero)
+      expect(await oracleFactory.callStatic.instances(oracle)).to.be.true
+      expect(await pythFactory.callStatic.oracles(id)).to.not.equal(constants.AddressZero)
+    })
+  }
+})
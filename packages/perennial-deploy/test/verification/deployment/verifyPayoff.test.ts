@@ -0,0 +1,41 @@
+import HRE from 'hardhat'
+import { expect } from 'chai'
+import { PayoffFactory, PayoffFactory__factory } from '../../../types/generated'
+import { PAYOFFS } from '../../../deploy/002_deploy_payoff'
+import { DEFAULT_BLOCK_RANGE, deploymentBlock, queryInRanges } from '../../../util/events'
+import { expectedOwner, expectProxy } from './helpers'
+
+describe('Verify Payoff', () => {
+  let payoffFactory: PayoffFactory
+
+  beforeEach(async () => {
+    const { deployments, ethers } = HRE
+    const [signer] = await ethers.getSigners()
+    payoffFactory = PayoffFactory__factory.connect((await deployments.get('PayoffFactory')).address, signer)
+  })
+
+  it('PayoffFactory', async () => {
+    await expectProxy(payoffFactory.address, 'PayoffFactoryImpl')
+    await expect(payoffFactory.initialize()).to.be.reverted
+    expect(await payoffFactory.callStatic.owner()).to.equal(await expectedOwner())
+  })
+
+  it('Registered Payoffs', async () => {
+    const registered = await queryInRanges(
+      deploymentBlock(await HRE.deployments.get('PayoffFactory')),
+      await HRE.ethers.provider.getBlockNumber(),
+      DEFAULT_BLOCK_RANGE,
+      (fromBlock, toBlock) => payoffFactory.queryFilter(payoffFactory.filters.InstanceRegistered(), fromBlock, toBlock),
+    )
+    const expected = await Promise.all(PAYOFFS.map(async payoff => (await HRE.deployments.get(payoff)).address))
+
+    // Every registered payoff is one the deploy manages, so nothing was registered outside of it
+    expect(registered.map(e => e.args.instance)).to.have.members(expected)
+  })
+
+  for (const payoff of PAYOFFS) {
+    it(`Payoff: ${payoff}`, async () => {
+      expect(await payoffFactory.callStatic.instances((await HRE.deployments.get(payoff)).address)).to.be.true
+    })
+  }
+})
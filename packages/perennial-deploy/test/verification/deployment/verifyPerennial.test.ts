@@ -5,9 +5,10 @@ import {
   ProxyAdmin__factory,
   TimelockController,
   TimelockController__factory,
-} from '../../../../types/generated'
-import { getMultisigAddress } from '../../../../../common/testutil/constants'
+} from '../../../types/generated'
+import { getMultisigAddress } from '../../../../common/testutil/constants'
 import { constants } from 'ethers'
+import { expectedOwner, network } from './helpers'
 
 describe('Verify Perennial', () => {
   let timelock: TimelockController
@@ -19,8 +20,8 @@ describe('Verify Perennial', () => {
     const [signer] = await ethers.getSigners()
     timelock = TimelockController__factory.connect((await deployments.get('TimelockController')).address, signer)
     proxyAdmin = ProxyAdmin__factory.connect((await deployments.get('ProxyAdmin')).address, signer)
-    if (!getMultisigAddress('arbitrum')) throw new Error('No Multisig Found')
-    multisig = getMultisigAddress('arbitrum') as string
+    if (!getMultisigAddress(network)) throw new Error('No Multisig Found')
+    multisig = getMultisigAddress(network) as string
   })
 
   it('TimelockController', async () => {
@@ -68,6 +69,6 @@ describe('Verify Perennial', () => {
   })
 
   it('ProxyAdmin', async () => {
-    expect(await proxyAdmin.callStatic.owner()).to.equal(timelock.address)
+    expect(await proxyAdmin.callStatic.owner()).to.equal(await expectedOwner())
   })
 })
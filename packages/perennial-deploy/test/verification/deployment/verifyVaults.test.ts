@@ -0,0 +1,56 @@
+import HRE from 'hardhat'
+import { expect } from 'chai'
+import {
+  MarketFactory,
+  MarketFactory__factory,
+  OracleFactory,
+  OracleFactory__factory,
+  VaultFactory,
+  VaultFactory__factory,
+  Vault__factory,
+} from '../../../types/generated'
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { getMarketAddress } from '../../../util/market'
+import { config, expectedOwner, expectedPauser, expectParameter, expectProxy } from './helpers'
+
+describe('Verify Vault', () => {
+  let signer: SignerWithAddress
+  let marketFactory: MarketFactory
+  let vaultFactory: VaultFactory
+  let oracleFactory: OracleFactory
+
+  beforeEach(async () => {
+    ;[signer] = await HRE.ethers.getSigners()
+    marketFactory = MarketFactory__factory.connect((await HRE.deployments.get('MarketFactory')).address, signer)
+    vaultFactory = VaultFactory__factory.connect((await HRE.deployments.get('VaultFactory')).address, signer)
+    oracleFactory = OracleFactory__factory.connect((await HRE.deployments.get('OracleFactory')).address, signer)
+  })
+
+  it('VaultFactory', async () => {
+    await expect(vaultFactory.callStatic.initialize()).to.be.reverted
+    expect(await vaultFactory.callStatic.owner()).to.equal(await expectedOwner())
+    if (expectedPauser()) expect(await vaultFactory.callStatic.pauser()).to.equal(expectedPauser())
+    expect(await vaultFactory.callStatic.implementation()).to.equal((await HRE.deployments.get('VaultImpl')).address)
+    await expectProxy(vaultFactory.address, 'VaultFactoryImpl')
+  })
+
+  for (const vaultConfig of config.vaults) {
+    it(`Vault: ${vaultConfig.key}`, async () => {
+      const vault = Vault__factory.connect((await HRE.deployments.get(vaultConfig.key)).address, signer)
+      expect(await vaultFactory.callStatic.instances(vault.address)).to.be.true
+      expect(await vault.callStatic.name()).to.equal(`Perennial V2 Vault: ${vaultConfig.name}`)
+      expect(await vault.callStatic.asset()).to.equal((await HRE.deployments.get(vaultConfig.asset)).address)
+      expectParameter(await vault.callStatic.parameter(), vaultConfig.parameter, 'parameter')
+
+      expect(await vault.callStatic.totalMarkets()).to.equal(vaultConfig.markets.length)
+      for (const [i, registrationConfig] of vaultConfig.markets.entries()) {
+        const registration = await vault.callStatic.registrations(i)
+        expect(registration.market, `registrations[${i}].market`).to.equal(
+          await getMarketAddress(HRE, marketFactory, oracleFactory, registrationConfig.market),
+        )
+        expect(registration.weight, `registrations[${i}].weight`).to.equal(registrationConfig.weight)
+        expect(registration.leverage, `registrations[${i}].leverage`).to.equal(registrationConfig.leverage)
+      }
+    })
+  }
+})
@@ -0,0 +1,126 @@
+import { BigNumber, utils } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { buildErrorRegistry } from '../../common/testutil/errors'
+
+export interface DecodedCall {
+  // Deployment name of the target, or the artifact the selector was found in if the target is not a deployment
+  contract: string
+  method: string
+  args: { [name: string]: unknown }
+}
+
+export interface DecodedError {
+  // Artifact the error selector was found in
+  contract: string
+  error: string
+  args: { [name: string]: unknown }
+}
+
+export interface SelectorRegistry {
+  functions: Map<string, { contract: string; fragment: utils.FunctionFragment }>
+  errors: Map<string, { contract: string; fragment: utils.ErrorFragment }>
+}
+
+// Indexes the function and error selectors of every compiled artifact, for calls to targets that are not a known
+// deployment and for reverts bubbled up from any contract in the call
+export async function buildSelectorRegistry(HRE: HardhatRuntimeEnvironment): Promise<SelectorRegistry> {
+  const functions: SelectorRegistry['functions'] = new Map()
+  const errors: SelectorRegistry['errors'] = new Map()
+  for (const name of await HRE.artifacts.getAllFullyQualifiedNames()) {
+    const { contractName, abi } = await HRE.artifacts.readArtifact(name)
+    const iface = new utils.Interface(abi)
+    for (const fragment of Object.values(iface.functions)) {
+      const selector = iface.getSighash(fragment)
+      if (!functions.has(selector)) functions.set(selector, { contract: contractName, fragment })
+    }
+    for (const fragment of Object.values(iface.errors)) {
+      const selector = iface.getSighash(fragment)
+      if (!errors.has(selector)) errors.set(selector, { contract: contractName, fragment })
+    }
+  }
+
+  // Packages not compiled into this one, such as reward, contribute their errors from their own artifacts where built
+  try {
+    for (const { selector, signature, contracts } of buildErrorRegistry().values()) {
+      if (errors.has(selector)) continue
+      const [fragment] = Object.values(new utils.Interface([`error ${signature}`]).errors)
+      errors.set(selector, { contract: contracts[0], fragment })
+    }
+  } catch {
+    console.log('[WARNING] Not every package is compiled, errors are only decoded from this package')
+  }
+  return { functions, errors }
+}
+
+// Decodes calldata with the target deployment's ABI where it matches, falling back to the selector registry
+export function decodeCall(
+  registry: SelectorRegistry,
+  data: string,
+  target?: { name: string; iface: utils.Interface },
+): DecodedCall | undefined {
+  const selector = data.slice(0, 10).toLowerCase()
+  if (target) {
+    const fragment = Object.values(target.iface.functions).find(f => target.iface.getSighash(f) === selector)
+    if (fragment)
+      return { contract: target.name, method: fragment.name, args: decodeArgs(target.iface, fragment, data) }
+  }
+
+  const match = registry.functions.get(selector)
+  if (!match) return undefined
+  const iface = new utils.Interface([match.fragment])
+  return {
+    contract: target?.name ?? match.contract,
+    method: match.fragment.name,
+    args: decodeArgs(iface, match.fragment, data),
+  }
+}
+
+// Builtin Error(string) and Panic(uint256) reverts, which are not declared in any artifact. ethers rejects them as
+// error fragments, so they are decoded from their parameters directly.
+const BUILTIN_ERRORS: { [selector: string]: { error: string; inputs: utils.ParamType[] } } = {
+  '0x08c379a0': { error: 'Error', inputs: [utils.ParamType.from('string message')] },
+  '0x4e487b71': { error: 'Panic', inputs: [utils.ParamType.from('uint256 code')] },
+}
+
+// Decodes revert data into the custom error it encodes, returning undefined for empty or unknown revert data
+export function decodeError(registry: SelectorRegistry, data: string): DecodedError | undefined {
+  const selector = data.slice(0, 10).toLowerCase()
+  const builtin = BUILTIN_ERRORS[selector]
+  if (builtin)
+    return {
+      contract: 'builtin',
+      error: builtin.error,
+      args: formatParams(builtin.inputs, utils.defaultAbiCoder.decode(builtin.inputs, utils.hexDataSlice(data, 4))),
+    }
+
+  const match = registry.errors.get(selector)
+  if (!match) return undefined
+
+  // A bare selector, such as a `// sig:` comment, names the error without arguments to decode
+  const iface = new utils.Interface([match.fragment])
+  return {
+    contract: match.contract,
+    error: match.fragment.name,
+    args:
+      utils.hexDataLength(data) > 4
+        ? formatParams(match.fragment.inputs, iface.decodeErrorResult(match.fragment, data))
+        : {},
+  }
+}
+
+function decodeArgs(iface: utils.Interface, fragment: utils.FunctionFragment, data: string) {
+  const values = iface.decodeFunctionData(fragment, data)
+  return formatParams(fragment.inputs, values)
+}
+
+// Formats decoded values as JSON friendly values, with numbers as decimal strings and structs keyed by member name
+export function formatParams(params: utils.ParamType[], values: utils.Result): { [name: string]: unknown } {
+  return Object.fromEntries(params.map((param, i) => [param.name || `${i}`, formatValue(param, values[i])]))
+}
+
+function formatValue(param: utils.ParamType, value: unknown): unknown {
+  if (BigNumber.isBigNumber(value)) return value.toString()
+  if (param.baseType === 'tuple') return formatParams(param.components, value as utils.Result)
+  if (param.baseType === 'array') return (value as unknown[]).map(item => formatValue(param.arrayChildren, item))
+  return value
+}
@@ -0,0 +1,57 @@
+import { BigNumber, utils } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { isFork, isLocalhost } from '../../common/testutil/network'
+import { ORACLE_IDS } from './oracleIds'
+
+// Prices the devnet oracles are first committed at, keyed by the oracle's asset in ORACLE_IDS
+export const DEVNET_PRICES: { [asset: string]: string } = {
+  eth: '2000',
+  btc: '40000',
+}
+
+// A devnet is a local network running against the in-repo mocks rather than a fork
+export function isDevnet(networkName: string): boolean {
+  return isLocalhost(networkName) && !isFork()
+}
+
+// Resolves an oracle asset from ORACLE_IDS or a raw oracle id to the oracle id
+export function getDevnetOracleId(HRE: HardhatRuntimeEnvironment, assetOrId: string): string {
+  if (utils.isHexString(assetOrId, 32)) return assetOrId
+  const oracleId = ORACLE_IDS[HRE.deployments.getNetworkName()]?.[assetOrId]
+  if (!oracleId) throw new Error(`Unknown devnet oracle ${assetOrId}`)
+  return oracleId
+}
+
+// Reads the latest committed price of each devnet oracle, falling back to its seed price if none has been committed
+export async function getDevnetPrices(
+  HRE: HardhatRuntimeEnvironment,
+  oracleIds: string[],
+): Promise<{ [oracleId: string]: BigNumber }> {
+  const { ethers, deployments } = HRE
+  const { address } = await deployments.get('DevnetOracleFactory')
+  const oracleFactory = await ethers.getContractAt('DevnetOracleFactory', address)
+  const assets = Object.entries(ORACLE_IDS[deployments.getNetworkName()] ?? {})
+
+  const prices: { [oracleId: string]: BigNumber } = {}
+  for (const oracleId of oracleIds) {
+    const oracle = await ethers.getContractAt('IOracleProvider', await oracleFactory.oracles(oracleId))
+    const latest = await oracle.latest()
+    const asset = assets.find(([, id]) => id === oracleId)?.[0]
+    if (latest.valid) prices[oracleId] = latest.price
+    else if (asset && DEVNET_PRICES[asset]) prices[oracleId] = utils.parseUnits(DEVNET_PRICES[asset], 6)
+    else throw new Error(`No price for devnet oracle ${oracleId}`)
+  }
+  return prices
+}
+
+// Commits a price to each devnet oracle, settling every version requested before this block
+export async function commitDevnetPrices(
+  HRE: HardhatRuntimeEnvironment,
+  prices: { [oracleId: string]: BigNumber },
+): Promise<void> {
+  const { ethers, deployments, getNamedAccounts } = HRE
+  const { deployer } = await getNamedAccounts()
+  const { address } = await deployments.get('DevnetOracleFactory')
+  const oracleFactory = await ethers.getContractAt('DevnetOracleFactory', address, await ethers.getSigner(deployer))
+  await (await oracleFactory.commit(Object.keys(prices), Object.values(prices))).wait()
+}
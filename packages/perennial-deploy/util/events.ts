@@ -0,0 +1,66 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { Deployment } from 'hardhat-deploy/types'
+
+export const DEFAULT_BLOCK_RANGE = 10_000
+
+export interface ScannedRange<T> {
+  fromBlock: number
+  toBlock: number
+  data: T
+}
+
+export type EventCache<T> = { [key: string]: ScannedRange<T> }
+
+// Runs `query` over [fromBlock, toBlock] in windows of at most `blockRange` blocks so that
+// RPC providers with log range limits can serve the request
+export async function queryInRanges<T>(
+  fromBlock: number,
+  toBlock: number,
+  blockRange: number,
+  query: (fromBlock: number, toBlock: number) => Promise<T[]>,
+): Promise<T[]> {
+  if (blockRange <= 0) throw new Error('Block range must be positive')
+
+  const results: T[] = []
+  for (let start = fromBlock; start <= toBlock; start += blockRange) {
+    const end = Math.min(start + blockRange - 1, toBlock)
+    results.push(...(await query(start, end)))
+  }
+  return results
+}
+
+// The block the deployment was mined in, where scans of the events it emits can start instead of genesis
+export function deploymentBlock(deployment: Deployment): number {
+  return deployment.receipt?.blockNumber ?? 0
+}
+
+export function loadEventCache<T>(path: string): EventCache<T> {
+  if (!existsSync(path)) return {}
+  return JSON.parse(readFileSync(path, 'utf-8')) as EventCache<T>
+}
+
+export function saveEventCache<T>(path: string, cache: EventCache<T>): void {
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, JSON.stringify(cache, null, 2))
+}
+
+// Extends the cached range for `key` up to `toBlock`, only scanning blocks that have not been scanned yet.
+// A cached range that starts after `fromBlock` or ends past `toBlock` (e.g. a reset local fork) is discarded.
+export async function scanWithCache<T>(
+  cache: EventCache<T>,
+  key: string,
+  fromBlock: number,
+  toBlock: number,
+  initial: T,
+  scan: (fromBlock: number, toBlock: number, previous: T) => Promise<T>,
+): Promise<T> {
+  let cached: ScannedRange<T> | undefined = cache[key]
+  if (cached && (cached.fromBlock > fromBlock || cached.toBlock > toBlock)) cached = undefined
+
+  const scanFrom = cached ? cached.toBlock + 1 : fromBlock
+  const data = scanFrom <= toBlock ? await scan(scanFrom, toBlock, cached?.data ?? initial) : cached?.data ?? initial
+
+  cache[key] = { fromBlock: cached?.fromBlock ?? fromBlock, toBlock, data }
+  return data
+}
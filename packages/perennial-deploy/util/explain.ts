@@ -0,0 +1,170 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { BigNumber, constants, utils } from 'ethers'
+import { forkNetwork, isFork } from '../../common/testutil/network'
+import { loadMarketConfig, NetworkConfig } from './marketConfig'
+import { getMarketAddress } from './market'
+import {
+  DecodedInterfaceFee,
+  DecodedInvocation,
+  FULLY_CLOSED,
+  MAX_UINT,
+  MIN_INT,
+  MIN_INT64,
+  OrderComparison,
+  OrderSide,
+  PerennialAction,
+} from '../../common/util/invoke'
+
+export interface ExplainedInvocation {
+  action: string
+  details: { [field: string]: string }
+}
+
+// Lower cased address to a readable name
+export type AddressNames = Map<string, string>
+
+// Names every deployment, and every configured market by its config key
+export async function loadAddressNames(HRE: HardhatRuntimeEnvironment): Promise<AddressNames> {
+  const {
+    ethers,
+    deployments: { all, get, getNetworkName },
+  } = HRE
+  const network = isFork() ? forkNetwork() : getNetworkName()
+  const names: AddressNames = new Map()
+  for (const [name, deployment] of Object.entries(await all())) names.set(deployment.address.toLowerCase(), name)
+
+  let config: NetworkConfig | undefined
+  try {
+    config = loadMarketConfig(network)
+  } catch {
+    console.log(`[WARNING] No market config for ${network}, markets will not be named`)
+  }
+  const oracleFactory = await ethers.getContractAt('IOracleFactory', (await get('OracleFactory')).address)
+  const marketFactory = await ethers.getContractAt('IMarketFactory', (await get('MarketFactory')).address)
+  for (const marketConfig of config?.markets ?? []) {
+    const address = await getMarketAddress(HRE, marketFactory, oracleFactory, marketConfig)
+    if (address !== constants.AddressZero) names.set(address.toLowerCase(), `${marketConfig.key} market`)
+  }
+  return names
+}
+
+// Describes a decoded invocation in readable units, spelling out the magic values the invoker and market accept
+export function explainInvocation(invocation: DecodedInvocation, names: AddressNames): ExplainedInvocation {
+  const name = (address: string) => {
+    const known = names.get(address.toLowerCase())
+    return known ? `${known} (${address})` : address
+  }
+
+  switch (invocation.action) {
+    case PerennialAction.NO_OP:
+      return { action: 'NO_OP', details: {} }
+    case PerennialAction.UPDATE_POSITION:
+      return {
+        action: 'UPDATE_POSITION',
+        details: {
+          market: name(invocation.market),
+          maker: formatPosition(invocation.maker),
+          long: formatPosition(invocation.long),
+          short: formatPosition(invocation.short),
+          collateral: formatCollateral(invocation.collateral),
+          wrap: invocation.wrap ? 'wraps USDC deposits and unwraps withdrawals' : 'DSU',
+          interfaceFee1: formatInterfaceFee(invocation.interfaceFee1, name),
+          interfaceFee2: formatInterfaceFee(invocation.interfaceFee2, name),
+        },
+      }
+    case PerennialAction.UPDATE_VAULT:
+      return {
+        action: 'UPDATE_VAULT',
+        details: {
+          vault: name(invocation.vault),
+          depositAssets: utils.formatUnits(invocation.depositAssets, 6),
+          redeemShares: invocation.redeemShares.eq(MAX_UINT)
+            ? 'MAX_UINT (redeem all)'
+            : utils.formatUnits(invocation.redeemShares, 6),
+          claimAssets: invocation.claimAssets.eq(MAX_UINT)
+            ? 'MAX_UINT (claim all)'
+            : utils.formatUnits(invocation.claimAssets, 6),
+          wrap: invocation.wrap ? 'wraps USDC deposits and unwraps claims' : 'DSU',
+        },
+      }
+    case PerennialAction.PLACE_ORDER: {
+      const { order } = invocation
+      return {
+        action: 'PLACE_ORDER',
+        details: {
+          market: name(invocation.market),
+          trigger: `when price ${formatComparison(order.comparison)} ${utils.formatUnits(order.price, 6)}`,
+          side: OrderSide[order.side] ?? `invalid (${order.side})`,
+          delta: formatOrderDelta(order.side, order.delta),
+          maxFee: `${utils.formatUnits(order.fee, 6)} USD`,
+          interfaceFee1: formatInterfaceFee(order.interfaceFee1, name),
+          interfaceFee2: formatInterfaceFee(order.interfaceFee2, name),
+        },
+      }
+    }
+    case PerennialAction.CANCEL_ORDER:
+      return {
+        action: 'CANCEL_ORDER',
+        details: { market: name(invocation.market), nonce: invocation.nonce.toString() },
+      }
+    case PerennialAction.EXEC_ORDER:
+      return {
+        action: 'EXEC_ORDER',
+        details: {
+          account: invocation.account,
+          market: name(invocation.market),
+          nonce: invocation.nonce.toString(),
+        },
+      }
+    case PerennialAction.COMMIT_PRICE:
+      return {
+        action: 'COMMIT_PRICE',
+        details: {
+          oracleProviderFactory: name(invocation.oracleProviderFactory),
+          ids: invocation.ids.join(', '),
+          version: `${invocation.version} (${new Date(invocation.version.toNumber() * 1000).toISOString()})`,
+          value: `${utils.formatEther(invocation.value)} ETH`,
+          vaa: `${utils.hexDataLength(invocation.data)} bytes ${invocation.data}`,
+          revertOnFailure: String(invocation.revertOnFailure),
+        },
+      }
+    case PerennialAction.APPROVE:
+      return { action: 'APPROVE', details: { target: name(invocation.target) } }
+  }
+}
+
+function formatPosition(position: BigNumber): string {
+  if (position.eq(MAX_UINT)) return 'MAX_UINT (unchanged)'
+  if (position.eq(FULLY_CLOSED)) return 'FULLY_CLOSED (close all closable)'
+  return utils.formatUnits(position, 6)
+}
+
+function formatCollateral(collateral: BigNumber): string {
+  if (collateral.eq(MIN_INT)) return 'MIN_INT (withdraw all)'
+  if (collateral.isZero()) return '0 (unchanged)'
+  return `${collateral.gt(0) ? 'deposit' : 'withdraw'} ${utils.formatUnits(collateral.abs(), 6)}`
+}
+
+// Only lte and gte orders can be placed, any other comparison is rejected by the invoker
+function formatComparison(comparison: number): string {
+  if (comparison === OrderComparison.LTE) return '<='
+  if (comparison === OrderComparison.GTE) return '>='
+  return `invalid (${comparison})`
+}
+
+// A zero delta closes the side, while collateral orders withdraw all collateral on the int64 minimum
+function formatOrderDelta(side: number, delta: BigNumber): string {
+  if (side === OrderSide.COLLATERAL) {
+    if (delta.eq(MIN_INT64)) return 'MIN_INT64 (withdraw all)'
+    return delta.lt(0)
+      ? `withdraw ${utils.formatUnits(delta.abs(), 6)}`
+      : 'invalid (collateral orders may only withdraw)'
+  }
+  if (delta.isZero()) return '0 (close)'
+  return `${delta.gt(0) ? 'increase' : 'decrease'} by ${utils.formatUnits(delta.abs(), 6)}`
+}
+
+function formatInterfaceFee(fee: DecodedInterfaceFee, name: (address: string) => string): string {
+  if (fee.amount.isZero()) return 'none'
+  return `${utils.formatUnits(fee.amount, 6)} ${fee.unwrap ? 'USDC' : 'DSU'} to ${name(fee.receiver)}`
+}
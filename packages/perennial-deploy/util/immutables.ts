@@ -0,0 +1,12 @@
+import { BigNumberish } from 'ethers'
+
+export const KEEPER_ORACLE_TIMEOUT = 60
+export const PYTH_VALID_FROM = 4
+export const PYTH_VALID_TO = 12
+
+// Constructor arguments the deploy scripts build each implementation with, keyed by the public getter that reads them
+// back, so an upgrade can be checked against the values the live implementation was deployed with
+export const INTENDED_IMMUTABLES: { [impl: string]: { [getter: string]: BigNumberish } } = {
+  KeeperOracleImpl: { timeout: KEEPER_ORACLE_TIMEOUT },
+  PythFactoryImpl: { validFrom: PYTH_VALID_FROM, validTo: PYTH_VALID_TO },
+}
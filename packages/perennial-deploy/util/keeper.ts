@@ -0,0 +1,75 @@
+import { BigNumber, BigNumberish, Contract, utils } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { isArbitrum, isBase, isOptimism } from '../../common/testutil/network'
+
+const ARB_GAS_INFO_ADDRESS = '0x000000000000000000000000000000000000006C'
+const OPT_GAS_PRICE_ORACLE_ADDRESS = '0x420000000000000000000000000000000000000F'
+
+export interface KeepConfig {
+  multiplierBase: BigNumberish
+  bufferBase: BigNumberish
+  multiplierCalldata: BigNumberish
+  bufferCalldata: BigNumberish
+}
+
+export interface KeeperPrices {
+  // L2 base fee in wei
+  baseFee: BigNumber
+  // L1 base fee in wei, zero on networks without L1 data costs
+  l1BaseFee: BigNumber
+  // ETH price in USD with 18 decimals
+  etherPrice: BigNumber
+}
+
+// Reads the gas prices and ether price that Kept uses to compute keeper rewards
+export async function getKeeperPrices(HRE: HardhatRuntimeEnvironment): Promise<KeeperPrices> {
+  const {
+    ethers,
+    deployments: { get, getNetworkName },
+  } = HRE
+
+  const block = await ethers.provider.getBlock('latest')
+  const feed = new Contract((await get('ChainlinkETHUSDFeed')).address, ChainlinkFeedABI, ethers.provider)
+  const [, answer] = await feed.latestRoundData()
+
+  let l1BaseFee = BigNumber.from(0)
+  if (isArbitrum(getNetworkName())) {
+    const arbGasInfo = new Contract(ARB_GAS_INFO_ADDRESS, ArbGasInfoABI, ethers.provider)
+    l1BaseFee = await arbGasInfo.getL1BaseFeeEstimate()
+  } else if (isOptimism(getNetworkName()) || isBase(getNetworkName())) {
+    const gasPriceOracle = new Contract(OPT_GAS_PRICE_ORACLE_ADDRESS, OptGasPriceOracleABI, ethers.provider)
+    l1BaseFee = await gasPriceOracle.l1BaseFee()
+  }
+
+  return {
+    baseFee: block.baseFeePerGas ?? BigNumber.from(0),
+    l1BaseFee,
+    etherPrice: BigNumber.from(answer).mul(1e10),
+  }
+}
+
+// Estimates the keeper reward in USD (18 decimals) paid by a Kept contract for the given config.
+// Follows Kept._calculateFee, approximating the L1 calldata cost with 16 gas per applicable calldata byte.
+export function estimateKeeperFee(
+  config: KeepConfig,
+  prices: KeeperPrices,
+  gasUsed: BigNumberish,
+  applicableCalldataLength = 0,
+): BigNumber {
+  const baseGas = BigNumber.from(gasUsed).mul(config.multiplierBase).div(utils.parseEther('1')).add(config.bufferBase)
+  const calldataGas = BigNumber.from(applicableCalldataLength * 16)
+    .mul(config.multiplierCalldata)
+    .div(utils.parseEther('1'))
+    .add(config.bufferCalldata)
+
+  const feeInEther = baseGas.mul(prices.baseFee).add(calldataGas.mul(prices.l1BaseFee))
+  return feeInEther.mul(prices.etherPrice).div(utils.parseEther('1'))
+}
+
+const ChainlinkFeedABI = [
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+]
+
+const ArbGasInfoABI = ['function getL1BaseFeeEstimate() view returns (uint256)']
+
+const OptGasPriceOracleABI = ['function l1BaseFee() view returns (uint256)']
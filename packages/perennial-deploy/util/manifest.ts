@@ -0,0 +1,190 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { constants, utils } from 'ethers'
+import { forkNetwork, isFork } from '../../common/testutil/network'
+import { DEFAULT_BLOCK_RANGE, deploymentBlock, queryInRanges } from './events'
+import { loadMarketConfig, NetworkConfig } from './marketConfig'
+import { getMarketAddress } from './market'
+
+// Bumped whenever the manifest shape changes in a way consumers need to handle
+export const MANIFEST_VERSION = 1
+
+export interface ManifestContract {
+  address: string
+  abiHash: string
+  libraries: { [library: string]: string }
+}
+
+export interface ManifestProxy {
+  address: string
+  implementation: string
+  // Deployment name of the implementation, empty if it is not a known deployment
+  implementationName: string
+}
+
+export interface ManifestMarket {
+  address: string
+  // Key of the market in the network config, empty if it is not configured
+  key: string
+  oracleId: string
+  oracle: string
+  payoff: string
+  token: string
+}
+
+export interface ManifestVault {
+  address: string
+  name: string
+  asset: string
+  registrations: { market: string; weight: number; leverage: string }[]
+}
+
+export interface Manifest {
+  version: number
+  packageVersion: string
+  network: string
+  chainId: number
+  blockNumber: number
+  contracts: { [name: string]: ManifestContract }
+  proxies: { [name: string]: ManifestProxy }
+  markets: ManifestMarket[]
+  vaults: ManifestVault[]
+}
+
+// Builds the manifest from the hardhat-deploy deployments and the factories' instance events, scanned from each
+// factory's deployment block in windows of `blockRange` blocks
+export async function buildManifest(
+  HRE: HardhatRuntimeEnvironment,
+  blockRange = DEFAULT_BLOCK_RANGE,
+): Promise<Manifest> {
+  const {
+    ethers,
+    deployments: { all, get, getNetworkName },
+  } = HRE
+  const network = isFork() ? forkNetwork() : getNetworkName()
+  const deployments = await all()
+  const { version: packageVersion } = JSON.parse(readFileSync(join(HRE.config.paths.root, 'package.json'), 'utf-8'))
+
+  const contracts: Manifest['contracts'] = {}
+  for (const [name, deployment] of Object.entries(deployments).sort(([a], [b]) => a.localeCompare(b))) {
+    contracts[name] = {
+      address: deployment.address,
+      abiHash: utils.keccak256(utils.toUtf8Bytes(JSON.stringify(deployment.abi))),
+      libraries: deployment.libraries ?? {},
+    }
+  }
+
+  // Proxies are the deployments exposing upgradeTo, mirroring verify-proxies
+  const proxyAdmin = await ethers.getContractAt('ProxyAdmin', (await get('ProxyAdmin')).address)
+  const proxies: Manifest['proxies'] = {}
+  for (const [name, deployment] of Object.entries(deployments)) {
+    if (!deployment.abi.some(({ name }) => name === 'upgradeTo') || name === 'Pyth') continue
+    const implementation = await proxyAdmin.getProxyImplementation(deployment.address)
+    const implementationName =
+      Object.entries(deployments).find(([, d]) => d.address.toLowerCase() === implementation.toLowerCase())?.[0] ?? ''
+    proxies[name] = { address: deployment.address, implementation, implementationName }
+  }
+
+  const blockNumber = await ethers.provider.getBlockNumber()
+  const oracleFactoryDeployment = await get('OracleFactory')
+  const marketFactoryDeployment = await get('MarketFactory')
+  const vaultFactoryDeployment = await get('VaultFactory')
+  const oracleFactory = await ethers.getContractAt('IOracleFactory', oracleFactoryDeployment.address)
+  const marketFactory = await ethers.getContractAt('IMarketFactory', marketFactoryDeployment.address)
+  const vaultFactory = await ethers.getContractAt('IVaultFactory', vaultFactoryDeployment.address)
+  const oracleEvents = await queryInRanges(
+    deploymentBlock(oracleFactoryDeployment),
+    blockNumber,
+    blockRange,
+    (from, to) => oracleFactory.queryFilter(oracleFactory.filters.OracleCreated(), from, to),
+  )
+  const marketEvents = await queryInRanges(
+    deploymentBlock(marketFactoryDeployment),
+    blockNumber,
+    blockRange,
+    (from, to) => marketFactory.queryFilter(marketFactory.filters.InstanceRegistered(), from, to),
+  )
+  const vaultEvents = await queryInRanges(
+    deploymentBlock(vaultFactoryDeployment),
+    blockNumber,
+    blockRange,
+    (from, to) => vaultFactory.queryFilter(vaultFactory.filters.InstanceRegistered(), from, to),
+  )
+  const oracleIds = new Map(oracleEvents.map(e => [e.args.oracle.toLowerCase(), e.args.id]))
+
+  // Markets are named by their config key where the network has a config
+  let config: NetworkConfig | undefined
+  try {
+    config = loadMarketConfig(network)
+  } catch {
+    console.log(`[WARNING] No market config for ${network}, markets will not be named`)
+  }
+  const marketKeys = new Map<string, string>()
+  for (const marketConfig of config?.markets ?? []) {
+    const address = await getMarketAddress(HRE, marketFactory, oracleFactory, marketConfig)
+    if (address !== constants.AddressZero) marketKeys.set(address.toLowerCase(), marketConfig.key)
+  }
+
+  const markets: ManifestMarket[] = []
+  for (const { args } of marketEvents) {
+    const market = await ethers.getContractAt('IMarket', args.instance)
+    const [oracle, payoff, token] = await Promise.all([market.oracle(), market.payoff(), market.token()])
+    markets.push({
+      address: market.address,
+      key: marketKeys.get(market.address.toLowerCase()) ?? '',
+      oracleId: oracleIds.get(oracle.toLowerCase()) ?? constants.HashZero,
+      oracle,
+      payoff,
+      token,
+    })
+  }
+
+  const vaults: ManifestVault[] = []
+  for (const { args } of vaultEvents) {
+    const vault = await ethers.getContractAt('IVault', args.instance)
+    const [name, asset, totalMarkets] = await Promise.all([vault.name(), vault.asset(), vault.totalMarkets()])
+    const registrations: ManifestVault['registrations'] = []
+    for (let i = 0; i < totalMarkets.toNumber(); i++) {
+      const registration = await vault.registrations(i)
+      registrations.push({
+        market: registration.market,
+        weight: Number(registration.weight),
+        leverage: utils.formatUnits(registration.leverage, 6),
+      })
+    }
+    vaults.push({ address: vault.address, name, asset, registrations })
+  }
+
+  return {
+    version: MANIFEST_VERSION,
+    packageVersion,
+    network,
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    blockNumber,
+    contracts,
+    proxies,
+    markets,
+    vaults,
+  }
+}
+
+// Renders the manifest as a TypeScript module of constants, with markets keyed by their config key where named
+export function renderManifestModule(manifest: Manifest): string {
+  const addresses = Object.fromEntries(Object.entries(manifest.contracts).map(([name, c]) => [name, c.address]))
+  const markets = Object.fromEntries(manifest.markets.map(market => [market.key || market.address, market]))
+  const constant = (name: string, value: unknown) =>
+    `export const ${name} = ${JSON.stringify(value, null, 2)} as const\n`
+
+  return [
+    `// Generated by the export-manifest task from the ${manifest.network} deployment at block ${manifest.blockNumber}.`,
+    '// Do not edit by hand.',
+    '',
+    `export const MANIFEST_VERSION = ${manifest.version}\n`,
+    `export const CHAIN_ID = ${manifest.chainId}\n`,
+    constant('ADDRESSES', addresses),
+    constant('PROXIES', manifest.proxies),
+    constant('MARKETS', markets),
+    constant('VAULTS', manifest.vaults),
+  ].join('\n')
+}
@@ -0,0 +1,41 @@
+import { constants } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { IMarket, IMarketFactory, IOracleFactory } from '../types/generated'
+import { MarketConfig } from './marketConfig'
+import { queryInRanges } from './events'
+
+// The market's beneficiary and coordinator are not exposed by a getter, so are read from their latest update events
+// between `fromBlock`, the block the market was registered in, and `toBlock`
+export async function getFeeReceivers(
+  market: IMarket,
+  fromBlock: number,
+  toBlock: number,
+  blockRange: number,
+): Promise<{ beneficiary: string; coordinator: string }> {
+  const [beneficiaryUpdates, coordinatorUpdates] = await Promise.all([
+    queryInRanges(fromBlock, toBlock, blockRange, (from, to) =>
+      market.queryFilter(market.filters.BeneficiaryUpdated(), from, to),
+    ),
+    queryInRanges(fromBlock, toBlock, blockRange, (from, to) =>
+      market.queryFilter(market.filters.CoordinatorUpdated(), from, to),
+    ),
+  ])
+
+  return {
+    beneficiary: beneficiaryUpdates.at(-1)?.args.newBeneficiary ?? constants.AddressZero,
+    coordinator: coordinatorUpdates.at(-1)?.args.newCoordinator ?? constants.AddressZero,
+  }
+}
+
+// Resolves the address of a configured market, zero if it has not been created
+export async function getMarketAddress(
+  HRE: HardhatRuntimeEnvironment,
+  marketFactory: IMarketFactory,
+  oracleFactory: IOracleFactory,
+  market: MarketConfig,
+): Promise<string> {
+  const oracleAddress = await oracleFactory.oracles(market.oracleId)
+  const payoffAddress =
+    market.payoff === '' ? constants.AddressZero : (await HRE.deployments.get(market.payoff)).address
+  return marketFactory.markets(oracleAddress, payoffAddress)
+}
@@ -0,0 +1,382 @@
+import { BigNumber, constants, utils } from 'ethers'
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { ORACLE_IDS } from './oracleIds'
+import { isLocalhost } from '../../common/testutil/network'
+
+export const MARKET_CONFIG_DIR = join(__dirname, '..', 'config', 'markets')
+
+export type FieldSchema = { type: 'ufixed6'; bits: number } | { type: 'uint'; bits: number } | { type: 'bool' }
+export interface Schema {
+  [field: string]: FieldSchema | Schema
+}
+
+const ufixed6 = (bits: number): FieldSchema => ({ type: 'ufixed6', bits })
+const uint = (bits: number): FieldSchema => ({ type: 'uint', bits })
+const bool: FieldSchema = { type: 'bool' }
+
+// Field widths mirror the storage packing in ProtocolParameterStorage
+export const PROTOCOL_PARAMETER_SCHEMA: Schema = {
+  protocolFee: ufixed6(24),
+  maxFee: ufixed6(24),
+  maxFeeAbsolute: ufixed6(48),
+  maxCut: ufixed6(24),
+  maxRate: ufixed6(32),
+  minMaintenance: ufixed6(24),
+  minEfficiency: ufixed6(24),
+}
+
+// Field widths mirror the storage packing in MarketParameterStorageLib
+export const MARKET_PARAMETER_SCHEMA: Schema = {
+  fundingFee: ufixed6(24),
+  interestFee: ufixed6(24),
+  positionFee: ufixed6(24),
+  oracleFee: ufixed6(24),
+  riskFee: ufixed6(24),
+  maxPendingGlobal: uint(16),
+  maxPendingLocal: uint(16),
+  makerRewardRate: ufixed6(40),
+  longRewardRate: ufixed6(40),
+  shortRewardRate: ufixed6(40),
+  settlementFee: ufixed6(48),
+  makerCloseAlways: bool,
+  takerCloseAlways: bool,
+  closed: bool,
+}
+
+// Field widths mirror the storage packing in RiskParameterStorageLib
+export const RISK_PARAMETER_SCHEMA: Schema = {
+  margin: ufixed6(24),
+  maintenance: ufixed6(24),
+  takerFee: ufixed6(24),
+  takerSkewFee: ufixed6(24),
+  takerImpactFee: ufixed6(24),
+  makerFee: ufixed6(24),
+  makerImpactFee: ufixed6(24),
+  makerLimit: ufixed6(64),
+  efficiencyLimit: ufixed6(24),
+  liquidationFee: ufixed6(24),
+  minLiquidationFee: ufixed6(48),
+  maxLiquidationFee: ufixed6(48),
+  utilizationCurve: {
+    minRate: ufixed6(32),
+    maxRate: ufixed6(32),
+    targetRate: ufixed6(32),
+    targetUtilization: ufixed6(24),
+  },
+  pController: {
+    k: ufixed6(48),
+    max: ufixed6(32),
+  },
+  minMargin: ufixed6(48),
+  minMaintenance: ufixed6(48),
+  skewScale: ufixed6(64),
+  staleAfter: uint(24),
+  makerReceiveOnly: bool,
+}
+
+// Field widths mirror the storage packing in VaultParameterStorageLib
+export const VAULT_PARAMETER_SCHEMA: Schema = {
+  cap: ufixed6(64),
+}
+
+// Field widths mirror the storage packing in RegistrationStorageLib, the market is referenced by its config key
+export const REGISTRATION_SCHEMA: Schema = {
+  weight: uint(32),
+  leverage: ufixed6(32),
+}
+
+export interface ProtocolParameter {
+  protocolFee: BigNumber
+  maxFee: BigNumber
+  maxFeeAbsolute: BigNumber
+  maxCut: BigNumber
+  maxRate: BigNumber
+  minMaintenance: BigNumber
+  minEfficiency: BigNumber
+}
+
+export interface MarketParameter {
+  fundingFee: BigNumber
+  interestFee: BigNumber
+  positionFee: BigNumber
+  oracleFee: BigNumber
+  riskFee: BigNumber
+  maxPendingGlobal: BigNumber
+  maxPendingLocal: BigNumber
+  makerRewardRate: BigNumber
+  longRewardRate: BigNumber
+  shortRewardRate: BigNumber
+  settlementFee: BigNumber
+  makerCloseAlways: boolean
+  takerCloseAlways: boolean
+  closed: boolean
+}
+
+export interface RiskParameter {
+  margin: BigNumber
+  maintenance: BigNumber
+  takerFee: BigNumber
+  takerSkewFee: BigNumber
+  takerImpactFee: BigNumber
+  makerFee: BigNumber
+  makerImpactFee: BigNumber
+  makerLimit: BigNumber
+  efficiencyLimit: BigNumber
+  liquidationFee: BigNumber
+  minLiquidationFee: BigNumber
+  maxLiquidationFee: BigNumber
+  utilizationCurve: { minRate: BigNumber; maxRate: BigNumber; targetRate: BigNumber; targetUtilization: BigNumber }
+  pController: { k: BigNumber; max: BigNumber }
+  minMargin: BigNumber
+  minMaintenance: BigNumber
+  skewScale: BigNumber
+  staleAfter: BigNumber
+  makerReceiveOnly: boolean
+}
+
+export interface MarketConfig {
+  // Key of the market in the network config
+  key: string
+  // Oracle id resolved from ORACLE_IDS
+  oracleId: string
+  // Payoff deployment name, empty for no payoff
+  payoff: string
+  marketParameter: MarketParameter
+  riskParameter: RiskParameter
+}
+
+export interface VaultParameter {
+  cap: BigNumber
+}
+
+export interface VaultRegistrationConfig {
+  market: MarketConfig
+  weight: BigNumber
+  leverage: BigNumber
+}
+
+export interface VaultConfig {
+  // Deployment name of the vault
+  key: string
+  name: string
+  // Deployment name of the vault's underlying asset
+  asset: string
+  parameter: VaultParameter
+  // Registrations in market id order, the first market is the vault's initial market
+  markets: VaultRegistrationConfig[]
+}
+
+export interface NetworkConfig {
+  network: string
+  protocolParameter: ProtocolParameter
+  markets: MarketConfig[]
+  vaults: VaultConfig[]
+}
+
+// Loads and validates the market config for a network, resolving oracle ids and filling in default parameters.
+// Forks load the config of the forked network, so the local networks share the devnet config.
+export function loadMarketConfig(
+  network: string,
+  path = join(MARKET_CONFIG_DIR, `${isLocalhost(network) ? 'devnet' : network}.json`),
+): NetworkConfig {
+  if (!existsSync(path)) throw new Error(`No market config found for ${network} at ${path}`)
+  return parseMarketConfig(network, JSON.parse(readFileSync(path, 'utf-8')), path)
+}
+
+export function parseMarketConfig(network: string, raw: unknown, path = network): NetworkConfig {
+  const errors: string[] = []
+  const root = expectObject(raw, '', errors)
+  const defaults = expectObject(root.defaults ?? {}, 'defaults', errors)
+  const oracleIds = ORACLE_IDS[network] ?? {}
+
+  const protocolParameter = parseParameters<ProtocolParameter>(
+    root.protocolParameter,
+    PROTOCOL_PARAMETER_SCHEMA,
+    'protocolParameter',
+    errors,
+  )
+
+  const markets: MarketConfig[] = []
+  for (const [key, rawMarket] of Object.entries(expectObject(root.markets, 'markets', errors))) {
+    const market = expectObject(rawMarket, `markets.${key}`, errors)
+    const oracleId = typeof market.oracle === 'string' ? oracleIds[market.oracle] : undefined
+    if (!oracleId) errors.push(`markets.${key}.oracle: unknown oracle ${market.oracle} for ${network}`)
+    if (market.payoff !== undefined && typeof market.payoff !== 'string')
+      errors.push(`markets.${key}.payoff: expected a deployment name`)
+
+    markets.push({
+      key,
+      oracleId: oracleId ?? constants.HashZero,
+      payoff: (market.payoff as string | undefined) ?? '',
+      marketParameter: parseParameters<MarketParameter>(
+        merge(defaults.marketParameter, market.marketParameter),
+        MARKET_PARAMETER_SCHEMA,
+        `markets.${key}.marketParameter`,
+        errors,
+      ),
+      riskParameter: parseParameters<RiskParameter>(
+        merge(defaults.riskParameter, market.riskParameter),
+        RISK_PARAMETER_SCHEMA,
+        `markets.${key}.riskParameter`,
+        errors,
+      ),
+    })
+  }
+
+  const vaults: VaultConfig[] = []
+  for (const [key, rawVault] of Object.entries(expectObject(root.vaults ?? {}, 'vaults', errors))) {
+    const vault = expectObject(rawVault, `vaults.${key}`, errors)
+    if (typeof vault.name !== 'string') errors.push(`vaults.${key}.name: expected a string`)
+    if (vault.asset !== undefined && typeof vault.asset !== 'string')
+      errors.push(`vaults.${key}.asset: expected a deployment name`)
+    if (!Array.isArray(vault.markets) || vault.markets.length === 0) {
+      errors.push(`vaults.${key}.markets: expected a non-empty list of markets`)
+      continue
+    }
+
+    const registrations: VaultRegistrationConfig[] = []
+    vault.markets.forEach((rawRegistration: unknown, i: number) => {
+      const registrationPath = `vaults.${key}.markets.${i}`
+      const { market: marketKey, ...registration } = expectObject(rawRegistration, registrationPath, errors)
+      const market = markets.find(m => m.key === marketKey)
+      if (!market) errors.push(`${registrationPath}.market: unknown market ${marketKey}`)
+      else
+        registrations.push({
+          market,
+          ...parseParameters<{ weight: BigNumber; leverage: BigNumber }>(
+            registration,
+            REGISTRATION_SCHEMA,
+            registrationPath,
+            errors,
+          ),
+        })
+    })
+    vaults.push({
+      key,
+      name: vault.name as string,
+      asset: (vault.asset as string | undefined) ?? 'DSU',
+      parameter: parseParameters<VaultParameter>(
+        vault.parameter,
+        VAULT_PARAMETER_SCHEMA,
+        `vaults.${key}.parameter`,
+        errors,
+      ),
+      markets: registrations,
+    })
+  }
+
+  if (errors.length > 0) throw new Error(`Invalid market config ${path}:\n  ${errors.join('\n  ')}`)
+  return { network, protocolParameter, markets, vaults }
+}
+
+// Mirrors MarketParameterStorageLib.validate, RiskParameterStorageLib.validate and ProtocolParameterStorageLib.validate.
+// Returns a list of violations, empty if the market can be configured under the given protocol parameter.
+export function validateMarketConfig(
+  market: MarketConfig,
+  protocolParameter: ProtocolParameter,
+  hasReward = false,
+): string[] {
+  const errors: string[] = []
+  const { marketParameter: m, riskParameter: r } = market
+  const one = utils.parseUnits('1', 6)
+  const max = (...values: BigNumber[]) => values.reduce((a, b) => (b.gt(a) ? b : a))
+  const check = (valid: boolean, message: string) => {
+    if (!valid) errors.push(`${market.key}: ${message}`)
+  }
+
+  check(!protocolParameter.protocolFee.gt(protocolParameter.maxCut), 'protocol protocolFee exceeds maxCut')
+  check(!protocolParameter.maxCut.gt(one), 'protocol maxCut exceeds 100%')
+
+  check(!m.settlementFee.gt(protocolParameter.maxFeeAbsolute), 'settlementFee exceeds maxFeeAbsolute')
+  check(!max(m.fundingFee, m.interestFee, m.positionFee).gt(protocolParameter.maxCut), 'fee cut exceeds maxCut')
+  check(!m.oracleFee.add(m.riskFee).gt(one), 'oracleFee + riskFee exceeds 100%')
+  check(
+    hasReward || (m.makerRewardRate.isZero() && m.longRewardRate.isZero() && m.shortRewardRate.isZero()),
+    'reward rates require a reward token',
+  )
+
+  check(
+    !max(r.takerFee, r.takerSkewFee, r.takerImpactFee, r.makerFee, r.makerImpactFee).gt(protocolParameter.maxFee),
+    'trading fee exceeds maxFee',
+  )
+  check(
+    !max(r.minLiquidationFee, r.maxLiquidationFee, r.minMargin, r.minMaintenance).gt(protocolParameter.maxFeeAbsolute),
+    'absolute fee or requirement exceeds maxFeeAbsolute',
+  )
+  check(!r.liquidationFee.gt(protocolParameter.maxCut), 'liquidationFee exceeds maxCut')
+  check(
+    !max(r.utilizationCurve.minRate, r.utilizationCurve.maxRate, r.utilizationCurve.targetRate, r.pController.max).gt(
+      protocolParameter.maxRate,
+    ),
+    'rate exceeds maxRate',
+  )
+  check(!r.maintenance.lt(protocolParameter.minMaintenance), 'maintenance is below minMaintenance')
+  check(!r.margin.lt(r.maintenance), 'margin is below maintenance')
+  check(!r.efficiencyLimit.lt(protocolParameter.minEfficiency), 'efficiencyLimit is below minEfficiency')
+  check(!r.utilizationCurve.targetUtilization.gt(one), 'targetUtilization exceeds 100%')
+  check(!r.minMaintenance.lt(r.minLiquidationFee), 'minMaintenance is below minLiquidationFee')
+  check(!r.minMargin.lt(r.minMaintenance), 'minMargin is below minMaintenance')
+
+  return errors
+}
+
+function parseParameters<T>(raw: unknown, schema: Schema, path: string, errors: string[]): T {
+  const values = expectObject(raw, path, errors)
+  const parsed: Record<string, unknown> = {}
+
+  for (const key of Object.keys(values)) if (!(key in schema)) errors.push(`${path}.${key}: unknown field`)
+
+  for (const [key, field] of Object.entries(schema)) {
+    const fieldPath = `${path}.${key}`
+    if (!('type' in field)) {
+      parsed[key] = parseParameters(values[key], field as Schema, fieldPath, errors)
+      continue
+    }
+    parsed[key] = parseField(values[key], field as FieldSchema, fieldPath, errors)
+  }
+
+  return parsed as T
+}
+
+function parseField(value: unknown, field: FieldSchema, path: string, errors: string[]): BigNumber | boolean {
+  if (field.type === 'bool') {
+    if (typeof value !== 'boolean') errors.push(`${path}: expected a boolean`)
+    return value === true
+  }
+
+  let parsed = BigNumber.from(0)
+  try {
+    if (field.type === 'ufixed6' && (typeof value === 'string' || typeof value === 'number'))
+      parsed = utils.parseUnits(String(value), 6)
+    else if (field.type === 'uint' && typeof value === 'number' && Number.isInteger(value))
+      parsed = BigNumber.from(value)
+    else {
+      errors.push(`${path}: expected ${field.type === 'ufixed6' ? 'a decimal string' : 'an integer'}`)
+      return parsed
+    }
+  } catch {
+    errors.push(`${path}: invalid value ${value}`)
+    return parsed
+  }
+
+  if (parsed.lt(0) || parsed.gte(BigNumber.from(2).pow(field.bits)))
+    errors.push(`${path}: ${value} does not fit in ${field.bits} bits`)
+  return parsed
+}
+
+function expectObject(value: unknown, path: string, errors: string[]): Record<string, unknown> {
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) return value as Record<string, unknown>
+  errors.push(`${path || 'config'}: expected an object`)
+  return {}
+}
+
+// Deep merges market level overrides onto the network defaults
+function merge(defaults: unknown, overrides: unknown): unknown {
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) return overrides ?? defaults
+  if (typeof defaults !== 'object' || defaults === null || Array.isArray(defaults)) return overrides
+
+  const merged: Record<string, unknown> = { ...(defaults as Record<string, unknown>) }
+  for (const [key, value] of Object.entries(overrides)) merged[key] = merge(merged[key], value)
+  return merged
+}
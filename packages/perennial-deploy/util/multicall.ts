@@ -0,0 +1,102 @@
+import { Contract, providers, Signer } from 'ethers'
+
+export const MULTICALL_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11'
+
+export const DEFAULT_BATCH_SIZE = 50
+export const DEFAULT_RETRIES = 3
+export const DEFAULT_BACKOFF = 1000
+
+export interface Call3 {
+  target: string
+  allowFailure: boolean
+  callData: string
+}
+
+export interface Result3 {
+  success: boolean
+  returnData: string
+}
+
+export interface BatchOptions {
+  // Maximum number of keyed call groups sent in a single aggregate3 call
+  batchSize: number
+  // Number of times a failed batch is retried before its keys are marked as failed
+  retries: number
+  // Initial delay in ms before retrying, doubled on every attempt
+  backoff: number
+  // Delay in ms between batches to stay under RPC rate limits
+  delay?: number
+}
+
+export type BatchResult<K> = { key: K; results: Result3[] } | { key: K; error: string }
+
+export function multicallContract(signerOrProvider: Signer | providers.Provider): Contract {
+  return new Contract(MULTICALL_ADDRESS, MultiCallABI, signerOrProvider)
+}
+
+export async function sleep(ms: number): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, ms))
+}
+
+export async function withRetry<T>(fn: () => Promise<T>, retries: number, backoff: number): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn()
+    } catch (e) {
+      if (attempt >= retries) throw e
+      await sleep(backoff * 2 ** attempt)
+    }
+  }
+}
+
+// Simulates each group of calls via aggregate3, batching groups together without ever splitting a group.
+// Results are returned per key so failures can never shift results onto the wrong key.
+export async function aggregateInBatches<K>(
+  multicall: Contract,
+  groups: { key: K; calls: Call3[] }[],
+  { batchSize, retries, backoff, delay }: BatchOptions,
+): Promise<BatchResult<K>[]> {
+  if (batchSize <= 0) throw new Error('Batch size must be positive')
+
+  const results: BatchResult<K>[] = []
+  for (let i = 0; i < groups.length; i += batchSize) {
+    if (i > 0 && delay) await sleep(delay)
+
+    const batch = groups.slice(i, i + batchSize)
+    try {
+      const batchResults: Result3[] = await withRetry(
+        () => multicall.callStatic.aggregate3(batch.flatMap(({ calls }) => calls)),
+        retries,
+        backoff,
+      )
+      let offset = 0
+      for (const { key, calls } of batch) {
+        results.push({ key, results: batchResults.slice(offset, offset + calls.length) })
+        offset += calls.length
+      }
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e)
+      results.push(...batch.map(({ key }) => ({ key, error })))
+    }
+  }
+  return results
+}
+
+export const MultiCallABI = [
+  'function aggregate(tuple(address target, bytes callData)[] calls) payable returns (uint256 blockNumber, bytes[] returnData)',
+  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+  'function aggregate3Value(tuple(address target, bool allowFailure, uint256 value, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+  'function blockAndAggregate(tuple(address target, bytes callData)[] calls) payable returns (uint256 blockNumber, bytes32 blockHash, tuple(bool success, bytes returnData)[] returnData)',
+  'function getBasefee() view returns (uint256 basefee)',
+  'function getBlockHash(uint256 blockNumber) view returns (bytes32 blockHash)',
+  'function getBlockNumber() view returns (uint256 blockNumber)',
+  'function getChainId() view returns (uint256 chainid)',
+  'function getCurrentBlockCoinbase() view returns (address coinbase)',
+  'function getCurrentBlockDifficulty() view returns (uint256 difficulty)',
+  'function getCurrentBlockGasLimit() view returns (uint256 gaslimit)',
+  'function getCurrentBlockTimestamp() view returns (uint256 timestamp)',
+  'function getEthBalance(address addr) view returns (uint256 balance)',
+  'function getLastBlockHash() view returns (bytes32 blockHash)',
+  'function tryAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+  'function tryBlockAndAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) payable returns (uint256 blockNumber, bytes32 blockHash, tuple(bool success, bytes returnData)[] returnData)',
+]
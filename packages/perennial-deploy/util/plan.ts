@@ -0,0 +1,135 @@
+import { BigNumber, constants, Contract, providers, utils } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { Deployment } from 'hardhat-deploy/types'
+import { isArbitrum, isBase, isOptimism } from '../../common/testutil/network'
+import { decodeCall, formatParams, SelectorRegistry } from './decode'
+import { ProposedCall } from './proposal'
+
+// Arbitrum's virtual NodeInterface contract and the OP stack's GasPriceOracle predeploy
+const NODE_INTERFACE_ADDRESS = '0x00000000000000000000000000000000000000C8'
+const GAS_PRICE_ORACLE_ADDRESS = '0x420000000000000000000000000000000000000F'
+
+export interface PlannedTransaction {
+  // Tag of the deploy script that sent the transaction
+  script: string
+  kind: 'deploy' | 'call'
+  from: string
+  // The called contract, or the created contract for deployments
+  to: string
+  contract: string
+  method: string
+  args: { [name: string]: unknown }
+  value: string
+  data: string
+  gasUsed: string
+  // L2 gas charged for posting the calldata to L1 on Arbitrum
+  l1Gas: string
+  // Fee in wei charged for posting the calldata to L1 on the OP stack
+  l1Fee: string
+}
+
+export interface DeployPlan {
+  network: string
+  forkBlock: number
+  deployer: string
+  gasPrice: string
+  transactions: PlannedTransaction[]
+  // Owner gated calls the deploy scripts proposed instead of sending, tagged with the script that proposed them
+  proposed: (ProposedCall & { script: string })[]
+  totals: { transactions: number; gasUsed: string; l1Gas: string; l1Fee: string; estimatedCost: string }
+  // The deploy script that reverted, if the plan could not be completed
+  failed?: { script: string; error: string }
+}
+
+// Describes a mined transaction from the deployment or contract it targets, along with its L2 and L1 gas
+export async function planTransaction(
+  HRE: HardhatRuntimeEnvironment,
+  registry: SelectorRegistry,
+  deployments: { [name: string]: Deployment },
+  script: string,
+  tx: providers.TransactionResponse,
+  receipt: providers.TransactionReceipt,
+): Promise<PlannedTransaction> {
+  const to = tx.to ?? receipt.contractAddress
+  const [name, deployment] = Object.entries(deployments).find(
+    ([, d]) => d.address.toLowerCase() === to.toLowerCase(),
+  ) ?? [undefined, undefined]
+  const { l1Gas, l1Fee } = await estimateL1Cost(HRE, tx)
+  const base = {
+    script,
+    from: tx.from,
+    to,
+    value: tx.value.toString(),
+    data: tx.data,
+    gasUsed: receipt.gasUsed.toString(),
+    l1Gas: l1Gas.toString(),
+    l1Fee: l1Fee.toString(),
+  }
+
+  if (!tx.to) {
+    const constructor = deployment?.abi.find(fragment => fragment.type === 'constructor')
+    return {
+      ...base,
+      kind: 'deploy',
+      contract: name ?? 'unknown',
+      method: 'constructor',
+      args:
+        constructor && deployment?.args ? formatParams(utils.Fragment.from(constructor).inputs, deployment.args) : {},
+    }
+  }
+
+  const decoded = decodeCall(
+    registry,
+    tx.data,
+    name && deployment ? { name, iface: new utils.Interface(deployment.abi) } : undefined,
+  )
+  return {
+    ...base,
+    kind: 'call',
+    contract: decoded?.contract ?? name ?? 'unknown',
+    method: decoded?.method ?? tx.data.slice(0, 10),
+    args: decoded?.args ?? {},
+  }
+}
+
+// Estimates the L1 calldata cost of a transaction. The NodeInterface is served by Arbitrum nodes rather than deployed,
+// so is called on the forked node, while the GasPriceOracle is a regular contract and is called on the fork.
+export async function estimateL1Cost(
+  HRE: HardhatRuntimeEnvironment,
+  tx: providers.TransactionResponse,
+): Promise<{ l1Gas: BigNumber; l1Fee: BigNumber }> {
+  const network = HRE.deployments.getNetworkName()
+
+  if (isArbitrum(network)) {
+    const forkUrl = HRE.config.networks.hardhat.forking?.url
+    if (!forkUrl) throw new Error('No fork url to estimate Arbitrum L1 gas with')
+    const nodeInterface = new Contract(NODE_INTERFACE_ADDRESS, NodeInterfaceABI, new providers.JsonRpcProvider(forkUrl))
+    const { gasEstimateForL1 } = await nodeInterface.callStatic.gasEstimateL1Component(
+      tx.to ?? constants.AddressZero,
+      !tx.to,
+      tx.data,
+    )
+    return { l1Gas: gasEstimateForL1, l1Fee: BigNumber.from(0) }
+  }
+
+  if (isOptimism(network) || isBase(network)) {
+    const gasPriceOracle = new Contract(GAS_PRICE_ORACLE_ADDRESS, GasPriceOracleABI, HRE.ethers.provider)
+    const serialized = utils.serializeTransaction({
+      to: tx.to,
+      nonce: tx.nonce,
+      gasLimit: tx.gasLimit,
+      gasPrice: tx.gasPrice,
+      data: tx.data,
+      value: tx.value,
+      chainId: tx.chainId,
+    })
+    return { l1Gas: BigNumber.from(0), l1Fee: await gasPriceOracle.getL1Fee(serialized) }
+  }
+
+  return { l1Gas: BigNumber.from(0), l1Fee: BigNumber.from(0) }
+}
+
+const NodeInterfaceABI = [
+  'function gasEstimateL1Component(address to, bool contractCreation, bytes data) payable returns (uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)',
+]
+const GasPriceOracleABI = ['function getL1Fee(bytes data) view returns (uint256)']
@@ -0,0 +1,103 @@
+import fetch from 'isomorphic-fetch'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+
+export const HERMES_ENDPOINT = 'https://hermes.pyth.network'
+
+export const PRICE_SOURCES = ['hermes', 'url', 'file'] as const
+export type PriceSourceType = (typeof PRICE_SOURCES)[number]
+
+export interface FeedPublishTime {
+  // Pyth price feed id, 0x prefixed
+  feedId: string
+  publishTime: number
+}
+
+export interface PriceUpdate {
+  // Hex encoded update data covering every feed in publishTimes
+  vaa: string
+  publishTimes: FeedPublishTime[]
+}
+
+export interface PriceSource {
+  getLatestUpdate(feedIds: string[]): Promise<PriceUpdate>
+}
+
+// Reads a combined price update from a Hermes compatible price service
+export function priceServiceSource(endpoint: string): PriceSource {
+  return {
+    getLatestUpdate: async (feedIds: string[]) => {
+      const query = feedIds.map(feedId => `ids[]=${normalizeFeedId(feedId)}`).join('&')
+      const res = await fetch(`${endpoint.replace(/\/$/, '')}/v2/updates/price/latest?${query}&encoding=hex`)
+      if (!res.ok) throw new Error(`Price service request failed: ${res.status} ${res.statusText}`)
+
+      const json = await res.json()
+      const [data] = json.binary?.data ?? []
+      if (!data) throw new Error('No VAA found')
+
+      return {
+        vaa: `0x${data.replace(/^0x/, '')}`,
+        publishTimes: (json.parsed ?? []).map((feed: { id: string; price: { publish_time: number } }) => ({
+          feedId: normalizeFeedId(feed.id),
+          publishTime: feed.price.publish_time,
+        })),
+      }
+    },
+  }
+}
+
+// Replays recorded price updates from a JSON file, using the most recent update covering every requested feed
+export function fileSource(path: string): PriceSource {
+  if (!existsSync(path)) throw new Error(`Price update file ${path} not found`)
+  const recorded: PriceUpdate[] = JSON.parse(readFileSync(path, 'utf-8'))
+
+  return {
+    getLatestUpdate: async (feedIds: string[]) => {
+      const updates = recorded.filter(update =>
+        feedIds.every(feedId =>
+          update.publishTimes.some(published => normalizeFeedId(published.feedId) === normalizeFeedId(feedId)),
+        ),
+      )
+      if (updates.length === 0) throw new Error(`No recorded update found for ${feedIds.join(', ')}`)
+
+      const latest = updates.reduce((a, b) => (oldestPublishTime(b) > oldestPublishTime(a) ? b : a))
+      return {
+        vaa: latest.vaa,
+        publishTimes: latest.publishTimes.map(({ feedId, publishTime }) => ({
+          feedId: normalizeFeedId(feedId),
+          publishTime,
+        })),
+      }
+    },
+  }
+}
+
+export function createPriceSource(source: string, { url, file }: { url?: string; file?: string }): PriceSource {
+  switch (source as PriceSourceType) {
+    case 'hermes':
+      return priceServiceSource(HERMES_ENDPOINT)
+    case 'url':
+      if (!url) throw new Error('No price service url provided')
+      return priceServiceSource(url)
+    case 'file':
+      if (!file) throw new Error('No price update file provided')
+      return fileSource(file)
+    default:
+      throw new Error(`Invalid price source ${source}, expected one of ${PRICE_SOURCES.join(', ')}`)
+  }
+}
+
+// Appends an update to a file in the format read by fileSource
+export function recordUpdate(path: string, update: PriceUpdate): void {
+  const recorded: PriceUpdate[] = existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) : []
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, JSON.stringify([...recorded, update], null, 2) + '\n')
+}
+
+export function normalizeFeedId(feedId: string): string {
+  return `0x${feedId.replace(/^0x/, '').toLowerCase()}`
+}
+
+function oldestPublishTime(update: PriceUpdate): number {
+  return Math.min(...update.publishTimes.map(({ publishTime }) => publishTime))
+}
@@ -0,0 +1,182 @@
+import { BaseContract, BigNumber, constants, Contract, utils } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { mkdirSync, writeFileSync } from 'fs'
+import { dirname, join } from 'path'
+import { getMultisigAddress } from '../../common/testutil/constants'
+import { forkNetwork, isFork } from '../../common/testutil/network'
+
+export const PROPOSAL_MODES = ['timelock', 'safe'] as const
+export type ProposalMode = (typeof PROPOSAL_MODES)[number]
+
+export interface ProposedCall {
+  // The owner the call must be sent from
+  owner: string
+  target: string
+  value: string
+  data: string
+  description: string
+}
+
+// Calls collected by the deploy scripts and tasks run in this process
+const proposedCalls: ProposedCall[] = []
+
+// Reads the proposal mode from PROPOSAL_MODE, undefined if calls should be sent directly
+export function getProposalMode(): ProposalMode | undefined {
+  const mode = process.env.PROPOSAL_MODE
+  if (!mode) return undefined
+  if (!PROPOSAL_MODES.includes(mode as ProposalMode))
+    throw new Error(`Invalid PROPOSAL_MODE ${mode}, expected one of ${PROPOSAL_MODES.join(', ')}`)
+  return mode as ProposalMode
+}
+
+export function getProposalPath(HRE: HardhatRuntimeEnvironment): string {
+  const network = isFork() ? forkNetwork() : HRE.deployments.getNetworkName()
+  return process.env.PROPOSAL_OUTPUT ?? join(HRE.config.paths.root, 'proposals', `${network}.json`)
+}
+
+// Resolves the owner of an Ownable contract, or of the factory for an Instance such as a Market or Vault
+export async function getOwner(contract: BaseContract): Promise<string> {
+  const ownable = new Contract(contract.address, OwnableABI, contract.provider)
+  try {
+    return await ownable.owner()
+  } catch {
+    return new Contract(await ownable.factory(), OwnableABI, contract.provider).owner()
+  }
+}
+
+// Sends an owner gated call from the contract's signer. In proposal mode, calls to contracts owned by anyone other than
+// the signer are added to the proposal instead. Returns whether the call was proposed rather than sent.
+export async function ownerCall(
+  HRE: HardhatRuntimeEnvironment,
+  contract: BaseContract,
+  method: string,
+  args: unknown[],
+  { owner, description }: { owner?: string; description?: string } = {},
+): Promise<boolean> {
+  const signer = await contract.signer.getAddress()
+  const callOwner = owner ?? (await getOwner(contract))
+
+  if (!getProposalMode() || callOwner.toLowerCase() === signer.toLowerCase()) {
+    await (await contract.functions[method](...args)).wait()
+    return false
+  }
+
+  await propose(HRE, {
+    owner: callOwner,
+    target: contract.address,
+    value: '0',
+    data: contract.interface.encodeFunctionData(method, args),
+    description: description ?? `${method} on ${contract.address}`,
+  })
+  return true
+}
+
+// The calls proposed so far by the deploy scripts and tasks run in this process
+export function getProposedCalls(): ProposedCall[] {
+  return [...proposedCalls]
+}
+
+// Adds a call to the proposal and rewrites the proposal file with every call collected so far
+export async function propose(HRE: HardhatRuntimeEnvironment, call: ProposedCall): Promise<void> {
+  const mode = getProposalMode()
+  if (!mode) throw new Error('PROPOSAL_MODE is not set')
+
+  proposedCalls.push(call)
+
+  const path = getProposalPath(HRE)
+  mkdirSync(dirname(path), { recursive: true })
+  const { schedule, execute, unsent } = await buildProposal(HRE, mode, proposedCalls)
+  writeFileSync(path, JSON.stringify(schedule, null, 2) + '\n')
+  if (execute) writeFileSync(path.replace(/(\.json)?$/, '.execute.json'), JSON.stringify(execute, null, 2) + '\n')
+
+  // The proposal is rebuilt for every call, so each call is only warned about when it is added
+  if (unsent.includes(call)) console.log(`[WARNING] ${call.description} must be sent by ${call.owner}`)
+  process.stdout.write(`proposing ${call.description}...`)
+}
+
+// Calls owned by the timelock are batched into a single scheduleBatch/executeBatch operation, while calls owned by
+// anyone else are listed to be sent directly by their owner. In safe mode, calls that are owned by neither the timelock
+// nor the multisig can not be included in the batches, and are returned as unsent.
+export async function buildProposal(
+  HRE: HardhatRuntimeEnvironment,
+  mode: ProposalMode,
+  calls: ProposedCall[],
+): Promise<{ schedule: unknown; execute?: unknown; unsent: ProposedCall[] }> {
+  const {
+    ethers,
+    deployments: { getOrNull, getNetworkName },
+  } = HRE
+
+  const timelockDeployment = await getOrNull('TimelockController')
+  const timelock = timelockDeployment
+    ? await ethers.getContractAt('TimelockController', timelockDeployment.address)
+    : undefined
+  const isTimelockCall = (call: ProposedCall) => call.owner.toLowerCase() === timelock?.address.toLowerCase()
+
+  const batched = calls.filter(isTimelockCall)
+  const direct = calls.filter(call => !isTimelockCall(call))
+
+  let scheduleBatch: { to: string; value: string; data: string } | undefined
+  let executeBatch: { to: string; value: string; data: string } | undefined
+  let operation: { predecessor: string; salt: string; delay: string } | undefined
+  if (timelock && batched.length > 0) {
+    const batch = [batched.map(c => c.target), batched.map(c => c.value), batched.map(c => c.data)] as const
+    // The block is mixed into the default salt so that re-proposing an identical batch, e.g. to retry an expired or
+    // cancelled operation, does not collide with the operation already scheduled
+    const salt =
+      process.env.PROPOSAL_SALT ??
+      utils.keccak256(
+        utils.defaultAbiCoder.encode(['bytes[]', 'uint256'], [batch[2], await ethers.provider.getBlockNumber()]),
+      )
+    const delay: BigNumber = await timelock.getMinDelay()
+
+    operation = { predecessor: constants.HashZero, salt, delay: delay.toString() }
+    scheduleBatch = {
+      to: timelock.address,
+      value: '0',
+      data: timelock.interface.encodeFunctionData('scheduleBatch', [...batch, constants.HashZero, salt, delay]),
+    }
+    executeBatch = {
+      to: timelock.address,
+      value: '0',
+      data: timelock.interface.encodeFunctionData('executeBatch', [...batch, constants.HashZero, salt]),
+    }
+  }
+
+  if (mode === 'timelock')
+    return {
+      schedule: { network: getNetworkName(), ...operation, scheduleBatch, executeBatch, batched, direct },
+      unsent: [],
+    }
+
+  // Safe transaction builder batches, the timelock's proposer and executor is the protocol multisig
+  const multisig = getMultisigAddress(isFork() ? forkNetwork() : getNetworkName())
+  if (!multisig) throw new Error('No multisig for network')
+  const { chainId } = await ethers.provider.getNetwork()
+  const safeBatch = (name: string, transactions: { to: string; value: string; data: string }[]) => ({
+    version: '1.0',
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: { name, description: '', txBuilderVersion: '1.16.3', createdFromSafeAddress: multisig },
+    transactions: transactions.map(({ to, value, data }) => ({
+      to,
+      value,
+      data,
+      contractMethod: null,
+      contractInputsValues: null,
+    })),
+  })
+
+  const multisigCalls = direct.filter(call => call.owner.toLowerCase() === multisig.toLowerCase())
+
+  return {
+    schedule: safeBatch('Schedule', [
+      ...multisigCalls.map(({ target, value, data }) => ({ to: target, value, data })),
+      ...(scheduleBatch ? [scheduleBatch] : []),
+    ]),
+    execute: executeBatch ? safeBatch('Execute', [executeBatch]) : undefined,
+    unsent: direct.filter(call => call.owner.toLowerCase() !== multisig.toLowerCase()),
+  }
+}
+
+const OwnableABI = ['function owner() view returns (address)', 'function factory() view returns (address)']
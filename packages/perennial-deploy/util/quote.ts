@@ -0,0 +1,378 @@
+import { BigNumber, BigNumberish, Contract, providers, Signer } from 'ethers'
+import { IMarket, IMarket__factory, IMarketFactory__factory, IOracleProvider__factory } from '../types/generated'
+import {
+  GlobalStructOutput,
+  LocalStructOutput,
+  MarketParameterStructOutput,
+  PositionStructOutput,
+  RiskParameterStructOutput,
+} from '../types/generated/@equilibria/perennial-v2/contracts/interfaces/IMarket'
+import * as Fixed6 from '../../common/util/fixed6'
+import { FULLY_CLOSED, MAX_UINT, MIN_INT } from '../../common/util/invoke'
+import { Call3, multicallContract, Result3 } from './multicall'
+import {
+  decreasesLiquidity,
+  increasesPosition,
+  isEmpty,
+  liquidationFee,
+  liquidityCheckApplicable,
+  Order,
+  orderMagnitude,
+  registerFee,
+  singleSided,
+} from '../../common/util/order'
+import {
+  applyOrder,
+  efficiency,
+  magnitude,
+  maintained,
+  maintenance,
+  margin,
+  margined,
+  orderTo,
+  PositionSize,
+  socialized,
+} from '../../common/util/position'
+
+// Market.update arguments, where omitted sides default to MAX_UINT and omitted collateral to zero
+export interface UpdateTarget {
+  maker?: BigNumberish
+  long?: BigNumberish
+  short?: BigNumberish
+  collateral?: BigNumberish
+  protect?: boolean
+}
+
+// Post-settlement market and account state, as read by Market._loadContext and Market._loadUpdateContext
+export interface UpdateQuoteContext {
+  marketParameter: MarketParameterStructOutput
+  riskParameter: RiskParameterStructOutput
+  global: GlobalStructOutput
+  local: LocalStructOutput
+  latestPosition: { global: PositionStructOutput; local: PositionStructOutput }
+  // The pending positions at global.currentId and local.currentId
+  currentPosition: { global: PositionStructOutput; local: PositionStructOutput }
+  // The local pending positions from local.latestId + 1 up to, but excluding, local.currentId
+  pendingPositions: PositionStructOutput[]
+  // The latest oracle timestamp, with the price replaced by global.latestPrice as in Market._settle
+  latestVersion: { timestamp: BigNumber; price: BigNumber }
+  currentTimestamp: BigNumber
+  // Whether the sender is the account or one of its approved operators
+  senderAllowed: boolean
+}
+
+export interface UpdateQuote {
+  // The order the update creates, with its position fee and keeper (settlement) fee
+  order: Order
+  // The account's current position after the update
+  position: PositionSize
+  // The collateral change after magic values
+  collateral: BigNumber
+  // The collateral left once all pending fees, including this order's, are paid
+  pendingCollateral: BigNumber
+  margin: BigNumber
+  maintenance: BigNumber
+  protected: boolean
+  // The liquidation fee the account is protected with, zero unless protected
+  liquidationFee: BigNumber
+  // The Market error _invariant would revert with, undefined if the update would succeed
+  error?: string
+}
+
+// Quotes a Market.update from the given sender on the account's behalf against the current block, by reading the
+// market's post-settlement state and mirroring Market._update. Settlement is simulated with the settle-only update
+// used by check-health, so the quote does not require the account to be settled first. Token transfers are not checked.
+export async function quoteUpdate(
+  signerOrProvider: Signer | providers.Provider,
+  marketAddress: string,
+  account: string,
+  target: UpdateTarget,
+  sender: string = account,
+): Promise<UpdateQuote> {
+  return computeUpdateQuote(await loadUpdateQuoteContext(signerOrProvider, marketAddress, account, sender), target)
+}
+
+export async function loadUpdateQuoteContext(
+  signerOrProvider: Signer | providers.Provider,
+  marketAddress: string,
+  account: string,
+  sender: string = account,
+): Promise<UpdateQuoteContext> {
+  const market = IMarket__factory.connect(marketAddress, signerOrProvider)
+  const multicall = multicallContract(signerOrProvider)
+  const [oracleAddress, factoryAddress] = await Promise.all([market.oracle(), market.factory()])
+  const oracle = IOracleProvider__factory.connect(oracleAddress, signerOrProvider)
+  const marketFactory = IMarketFactory__factory.connect(factoryAddress, signerOrProvider)
+
+  const [
+    marketParameterResult,
+    riskParameterResult,
+    globalResult,
+    localResult,
+    latestGlobalResult,
+    latestLocalResult,
+    statusResult,
+    operatorResult,
+  ] = await settleAndAggregate(multicall, market, account, [
+    { target: market.address, callData: market.interface.encodeFunctionData('parameter') },
+    { target: market.address, callData: market.interface.encodeFunctionData('riskParameter') },
+    { target: market.address, callData: market.interface.encodeFunctionData('global') },
+    { target: market.address, callData: market.interface.encodeFunctionData('locals', [account]) },
+    { target: market.address, callData: market.interface.encodeFunctionData('position') },
+    { target: market.address, callData: market.interface.encodeFunctionData('positions', [account]) },
+    { target: oracle.address, callData: oracle.interface.encodeFunctionData('status') },
+    {
+      target: marketFactory.address,
+      callData: marketFactory.interface.encodeFunctionData('operators', [account, sender]),
+    },
+  ])
+  const global: GlobalStructOutput = market.interface.decodeFunctionResult('global', globalResult)[0]
+  const local: LocalStructOutput = market.interface.decodeFunctionResult('locals', localResult)[0]
+  const [latestVersion, currentTimestamp] = oracle.interface.decodeFunctionResult('status', statusResult)
+
+  // The pending ids are only known once settled, so these are read in a second call against the same settlement
+  const pendingIds: BigNumber[] = []
+  for (let id = local.latestId.add(1); id.lt(local.currentId); id = id.add(1)) pendingIds.push(id)
+  const [currentGlobalResult, currentLocalResult, ...pendingResults] = await settleAndAggregate(
+    multicall,
+    market,
+    account,
+    [
+      market.interface.encodeFunctionData('pendingPosition', [global.currentId]),
+      market.interface.encodeFunctionData('pendingPositions', [account, local.currentId]),
+      ...pendingIds.map(id => market.interface.encodeFunctionData('pendingPositions', [account, id])),
+    ].map(callData => ({ target: market.address, callData })),
+  )
+
+  return {
+    marketParameter: market.interface.decodeFunctionResult('parameter', marketParameterResult)[0],
+    riskParameter: market.interface.decodeFunctionResult('riskParameter', riskParameterResult)[0],
+    global,
+    local,
+    latestPosition: {
+      global: market.interface.decodeFunctionResult('position', latestGlobalResult)[0],
+      local: market.interface.decodeFunctionResult('positions', latestLocalResult)[0],
+    },
+    currentPosition: {
+      global: market.interface.decodeFunctionResult('pendingPosition', currentGlobalResult)[0],
+      local: market.interface.decodeFunctionResult('pendingPositions', currentLocalResult)[0],
+    },
+    pendingPositions: pendingResults.map(
+      result => market.interface.decodeFunctionResult('pendingPositions', result)[0],
+    ),
+    latestVersion: { timestamp: latestVersion.timestamp, price: global.latestPrice },
+    currentTimestamp,
+    senderAllowed:
+      sender.toLowerCase() === account.toLowerCase() ||
+      marketFactory.interface.decodeFunctionResult('operators', operatorResult)[0],
+  }
+}
+
+// Mirrors Market._update and Market._invariant on the given post-settlement state
+export function computeUpdateQuote(context: UpdateQuoteContext, target: UpdateTarget): UpdateQuote {
+  const { marketParameter, riskParameter, local, latestVersion, currentTimestamp } = context
+  const latestLocal = context.latestPosition.local
+  const price = latestVersion.price
+
+  // Market._loadUpdateContext
+  const pending = new PendingState(local.collateral, magnitude(latestLocal))
+  let globalCurrentId = context.global.currentId
+  let localCurrentId = local.currentId
+  let currentGlobal = adjust(context.currentPosition.global, context.latestPosition.global)
+  let currentLocal = adjust(context.currentPosition.local, latestLocal)
+  const pendingPositions = context.pendingPositions.map(position => adjust(position, latestLocal))
+  if (currentTimestamp.gt(context.currentPosition.local.timestamp)) {
+    if (localCurrentId.gt(local.latestId)) pendingPositions.push(currentLocal)
+    localCurrentId = localCurrentId.add(1)
+    currentLocal = prepare(currentLocal)
+  }
+  if (currentTimestamp.gt(context.currentPosition.global.timestamp)) {
+    globalCurrentId = globalCurrentId.add(1)
+    currentGlobal = prepare(currentGlobal)
+  }
+  pendingPositions.forEach(position => pending.process(position))
+  pending.collateral = pending.collateral.sub(
+    local.protection.gt(latestLocal.timestamp) ? local.protectionAmount : Fixed6.ZERO,
+  )
+
+  // magic values
+  const requestedCollateral = BigNumber.from(target.collateral ?? 0)
+  const collateral = requestedCollateral.eq(MIN_INT) ? local.collateral.mul(-1) : requestedCollateral
+  const newPosition = {
+    maker: processPositionMagicValue(pending, latestLocal, currentLocal.maker, target.maker),
+    long: processPositionMagicValue(pending, latestLocal, currentLocal.long, target.long),
+    short: processPositionMagicValue(pending, latestLocal, currentLocal.short, target.short),
+  }
+
+  // update position and fee
+  const { position: newGlobal, order: globalOrder } = applyOrder(
+    currentGlobal,
+    orderTo(currentLocal, newPosition),
+    riskParameter,
+  )
+  const order = registerFee(globalOrder, price, marketParameter, riskParameter)
+
+  // update collateral and process the current position
+  pending.collateral = pending.collateral.add(collateral)
+  pending.process({
+    ...newPosition,
+    fee: currentLocal.fee.add(order.fee),
+    keeper: currentLocal.keeper.add(order.keeper),
+  })
+
+  // Local.protect
+  const isProtected = !!target.protect && !local.protection.gt(latestVersion.timestamp)
+
+  const latestMagnitude = magnitude(latestLocal)
+  const currentMagnitude = magnitude(newPosition)
+  const invariant = (): string | undefined => {
+    if (pending.close.gt(latestMagnitude)) return 'MarketOverCloseError'
+
+    if (
+      isProtected &&
+      (!pending.close.eq(latestMagnitude) ||
+        maintained(latestMagnitude, price, riskParameter, pending.collateral.sub(collateral)) ||
+        collateral.lt(0) ||
+        orderMagnitude(order).gte(0))
+    )
+      return 'MarketInvalidProtectionError'
+
+    if (
+      !(currentMagnitude.isZero() && latestMagnitude.isZero()) &&
+      !(isEmpty(order) && collateral.gte(0)) &&
+      currentTimestamp.sub(latestVersion.timestamp).gte(riskParameter.staleAfter)
+    )
+      return 'MarketStalePriceError'
+
+    if (marketParameter.closed && increasesPosition(order)) return 'MarketClosedError'
+
+    if (BigNumber.from(newGlobal.maker).gt(riskParameter.makerLimit) && order.maker.gt(0))
+      return 'MarketMakerOverLimitError'
+
+    if (!singleSided(order, currentLocal) || !singleSided(order, latestLocal)) return 'MarketNotSingleSidedError'
+
+    if (isProtected) return
+
+    if (!context.senderAllowed && !(isEmpty(order) && collateral.gte(0))) return 'MarketOperatorNotAllowedError'
+
+    if (
+      globalCurrentId.gt(context.global.latestId.add(marketParameter.maxPendingGlobal)) ||
+      localCurrentId.gt(local.latestId.add(marketParameter.maxPendingLocal))
+    )
+      return 'MarketExceedsPendingIdLimitError'
+
+    if (
+      !margined(currentMagnitude, price, riskParameter, pending.collateral) ||
+      !margined(latestMagnitude.add(pending.open), price, riskParameter, pending.collateral)
+    )
+      return 'MarketInsufficientMarginError'
+
+    if (local.protection.gt(latestLocal.timestamp) && !isEmpty(order)) return 'MarketProtectedError'
+
+    if (
+      liquidityCheckApplicable(order, marketParameter) &&
+      order.efficiency.lt(0) &&
+      efficiency(newGlobal).lt(riskParameter.efficiencyLimit)
+    )
+      return 'MarketEfficiencyUnderLimitError'
+
+    if (liquidityCheckApplicable(order, marketParameter) && socialized(newGlobal) && decreasesLiquidity(order))
+      return 'MarketInsufficientLiquidityError'
+
+    if (collateral.lt(0) && pending.collateral.lt(0)) return 'MarketInsufficientCollateralError'
+  }
+
+  return {
+    order,
+    position: newPosition,
+    collateral,
+    pendingCollateral: pending.collateral,
+    margin: margin(currentMagnitude, price, riskParameter),
+    maintenance: maintenance(currentMagnitude, price, riskParameter),
+    protected: isProtected,
+    liquidationFee: isProtected ? liquidationFee(order, price, riskParameter) : Fixed6.ZERO,
+    error: invariant(),
+  }
+}
+
+interface PendingPosition {
+  maker: BigNumber
+  long: BigNumber
+  short: BigNumber
+  fee: BigNumber
+  keeper: BigNumber
+}
+
+// Mirrors the pending collateral and magnitude tracking of Market._processPendingPosition
+class PendingState {
+  close = Fixed6.ZERO
+  open = Fixed6.ZERO
+
+  constructor(public collateral: BigNumber, public previousMagnitude: BigNumber) {}
+
+  process(position: PendingPosition) {
+    this.collateral = this.collateral.sub(position.fee).sub(position.keeper)
+    const positionMagnitude = magnitude(position)
+    if (this.previousMagnitude.gt(positionMagnitude))
+      this.close = this.close.add(this.previousMagnitude.sub(positionMagnitude))
+    else this.open = this.open.add(positionMagnitude.sub(this.previousMagnitude))
+    this.previousMagnitude = positionMagnitude
+  }
+}
+
+// Mirrors Market._processPositionMagicValue
+function processPositionMagicValue(
+  pending: PendingState,
+  latestPosition: PositionSize,
+  currentPosition: BigNumber,
+  newPosition: BigNumberish | undefined,
+): BigNumber {
+  if (newPosition === undefined || BigNumber.from(newPosition).eq(MAX_UINT)) return currentPosition
+  if (BigNumber.from(newPosition).eq(FULLY_CLOSED)) {
+    if (currentPosition.isZero()) return currentPosition
+    const closable = Fixed6.toUFixed6(magnitude(latestPosition).sub(pending.close))
+    return pending.previousMagnitude.sub(Fixed6.min(closable, pending.previousMagnitude))
+  }
+  return BigNumber.from(newPosition)
+}
+
+// Mirrors Position.adjust, applying invalidations that occurred since the position was stored
+function adjust(position: PositionStructOutput, latestPosition: PositionStructOutput): PendingPosition {
+  return {
+    maker: position.maker.add(latestPosition.invalidation.maker).sub(position.invalidation.maker),
+    long: position.long.add(latestPosition.invalidation.long).sub(position.invalidation.long),
+    short: position.short.add(latestPosition.invalidation.short).sub(position.invalidation.short),
+    fee: position.fee,
+    keeper: position.keeper,
+  }
+}
+
+// Mirrors Position.prepare
+function prepare(position: PendingPosition): PendingPosition {
+  return { ...position, fee: Fixed6.ZERO, keeper: Fixed6.ZERO }
+}
+
+// Settles the account ahead of the reads so that they observe its post-settlement state, as in check-health
+async function settleAndAggregate(
+  multicall: Contract,
+  market: IMarket,
+  account: string,
+  reads: Omit<Call3, 'allowFailure'>[],
+): Promise<string[]> {
+  const settle = market.interface.encodeFunctionData('update', [account, MAX_UINT, MAX_UINT, MAX_UINT, 0, false])
+  const [settleResult, ...results]: Result3[] = await multicall.callStatic.aggregate3(
+    [{ target: market.address, callData: settle }, ...reads].map(call => ({ ...call, allowFailure: true })),
+  )
+  if (!settleResult.success) throw new Error(`Settling ${account} reverted: ${describeRevert(market, settleResult)}`)
+  const failed = results.findIndex(result => !result.success)
+  if (failed !== -1) throw new Error(`Reading market state reverted: ${describeRevert(market, results[failed])}`)
+  return results.map(result => result.returnData)
+}
+
+function describeRevert(market: IMarket, result: Result3): string {
+  try {
+    return market.interface.parseError(result.returnData).name
+  } catch {
+    return result.returnData
+  }
+}
@@ -0,0 +1,56 @@
+import { mkdirSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { HardhatRuntimeEnvironment, TaskArguments } from 'hardhat/types'
+
+export const REPORT_FORMATS = ['json', 'csv'] as const
+export type ReportFormat = (typeof REPORT_FORMATS)[number]
+
+export type ReportRow = { [column: string]: string | number | boolean | null }
+
+export function parseReportFormat(format: string): ReportFormat {
+  if (!REPORT_FORMATS.includes(format as ReportFormat))
+    throw new Error(`Invalid report format ${format}, expected one of ${REPORT_FORMATS.join(', ')}`)
+  return format as ReportFormat
+}
+
+// Columns are the union of all row keys in first-seen order, missing cells are left empty
+export function toCsv(rows: ReportRow[]): string {
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+  const escape = (value: ReportRow[string] | undefined) => {
+    const cell = value === null || value === undefined ? '' : String(value)
+    return /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+  }
+
+  return [columns.join(','), ...rows.map(row => columns.map(column => escape(row[column])).join(','))].join('\n') + '\n'
+}
+
+// Writes the report to `output`, or to stdout if no output path is given
+export function writeReport(output: string | undefined, contents: string): void {
+  if (!output) {
+    process.stdout.write(contents)
+    return
+  }
+
+  mkdirSync(dirname(output), { recursive: true })
+  writeFileSync(output, contents)
+  console.log(`Report written to ${output}`)
+}
+
+// Wraps the action of a task taking an `output` param, writing the report it returns with writeReport. Without an output
+// path, anything the action prints is sent to stderr so that stdout only holds the report.
+export function reportAction(
+  action: (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => Promise<string | undefined>,
+): (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => Promise<void> {
+  return async (args: TaskArguments, HRE: HardhatRuntimeEnvironment) => {
+    const stdoutWrite = process.stdout.write
+    if (!args.output) process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write
+
+    let contents: string | undefined
+    try {
+      contents = await action(args, HRE)
+    } finally {
+      process.stdout.write = stdoutWrite
+    }
+    if (contents !== undefined) writeReport(args.output, contents)
+  }
+}
@@ -0,0 +1,171 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import {
+  TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD,
+  TASK_COMPILE_SOLIDITY_RUN_SOLC,
+  TASK_COMPILE_SOLIDITY_RUN_SOLCJS,
+} from 'hardhat/builtin-tasks/task-names'
+
+export interface StorageEntry {
+  label: string
+  offset: number
+  slot: string
+  type: string
+}
+
+export interface StorageType {
+  encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes'
+  label: string
+  numberOfBytes: string
+  members?: StorageEntry[]
+  key?: string
+  value?: string
+  base?: string
+}
+
+export interface StorageLayout {
+  storage: StorageEntry[]
+  types: { [id: string]: StorageType } | null
+}
+
+export interface LayoutIssue {
+  path: string
+  severity: 'error' | 'warning'
+  message: string
+}
+
+// Compiles a single contract from a solc input for its storage layout only, skipping code generation
+export async function compileStorageLayout(
+  HRE: HardhatRuntimeEnvironment,
+  input: { settings: Record<string, unknown> },
+  solcVersion: string,
+  sourceName: string,
+  contractName: string,
+): Promise<StorageLayout> {
+  const solcBuild = await HRE.run(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, { quiet: true, solcVersion })
+  const layoutInput = {
+    ...input,
+    settings: {
+      ...input.settings,
+      optimizer: { enabled: false },
+      viaIR: false,
+      outputSelection: { [sourceName]: { [contractName]: ['storageLayout'] } },
+    },
+  }
+
+  const output = solcBuild.isSolcJs
+    ? await HRE.run(TASK_COMPILE_SOLIDITY_RUN_SOLCJS, { input: layoutInput, solcJsPath: solcBuild.compilerPath })
+    : await HRE.run(TASK_COMPILE_SOLIDITY_RUN_SOLC, { input: layoutInput, solcPath: solcBuild.compilerPath })
+
+  const errors = (output.errors ?? []).filter((e: { severity: string }) => e.severity === 'error')
+  if (errors.length > 0)
+    throw new Error(`Compiling ${contractName} failed: ${errors.map((e: { message: string }) => e.message).join(', ')}`)
+
+  const layout = output.contracts?.[sourceName]?.[contractName]?.storageLayout
+  if (!layout) throw new Error(`No storage layout found for ${sourceName}:${contractName}`)
+  return layout
+}
+
+// Checks that every variable of the previous layout keeps its slot, offset, and type in the new layout, including the
+// members of packed storage structs. Appending new variables is allowed, as is growing a mapping's value type.
+export function compareStorageLayouts(previous: StorageLayout, next: StorageLayout): LayoutIssue[] {
+  const issues: LayoutIssue[] = []
+  compareMembers(previous.storage, previous.types ?? {}, next.storage, next.types ?? {}, '', true, issues)
+  return issues
+}
+
+function compareMembers(
+  previous: StorageEntry[],
+  previousTypes: NonNullable<StorageLayout['types']>,
+  next: StorageEntry[],
+  nextTypes: NonNullable<StorageLayout['types']>,
+  path: string,
+  canGrow: boolean,
+  issues: LayoutIssue[],
+) {
+  for (const [i, entry] of previous.entries()) {
+    const entryPath = path ? `${path}.${entry.label}` : entry.label
+    const nextEntry = next[i] as StorageEntry | undefined
+    if (!nextEntry) {
+      issues.push({ path: entryPath, severity: 'error', message: 'removed' })
+      continue
+    }
+
+    if (nextEntry.label !== entry.label) {
+      if (next.some(e => e.label === entry.label))
+        issues.push({
+          path: entryPath,
+          severity: 'error',
+          message: `reordered, ${nextEntry.label} is now in its place`,
+        })
+      else issues.push({ path: entryPath, severity: 'warning', message: `renamed to ${nextEntry.label}` })
+    }
+    if (nextEntry.slot !== entry.slot || nextEntry.offset !== entry.offset) {
+      issues.push({
+        path: entryPath,
+        severity: 'error',
+        message: `moved from slot ${entry.slot}:${entry.offset} to ${nextEntry.slot}:${nextEntry.offset}`,
+      })
+      continue
+    }
+
+    compareTypes(
+      previousTypes[entry.type],
+      previousTypes,
+      nextTypes[nextEntry.type],
+      nextTypes,
+      entryPath,
+      canGrow && i === previous.length - 1,
+      issues,
+    )
+  }
+}
+
+function compareTypes(
+  previous: StorageType,
+  previousTypes: NonNullable<StorageLayout['types']>,
+  next: StorageType,
+  nextTypes: NonNullable<StorageLayout['types']>,
+  path: string,
+  canGrow: boolean,
+  issues: LayoutIssue[],
+) {
+  if (previous.encoding !== next.encoding) {
+    issues.push({ path, severity: 'error', message: `type changed from ${previous.label} to ${next.label}` })
+    return
+  }
+
+  // Mapping values are hashed into their own slots, so they may grow without colliding
+  if (previous.encoding === 'mapping' && previous.key && next.key && previous.value && next.value) {
+    if (previousTypes[previous.key].label !== nextTypes[next.key].label)
+      issues.push({ path, severity: 'error', message: `mapping key changed to ${nextTypes[next.key].label}` })
+    compareTypes(previousTypes[previous.value], previousTypes, nextTypes[next.value], nextTypes, path, true, issues)
+    return
+  }
+  if (previous.base && next.base)
+    compareTypes(
+      previousTypes[previous.base],
+      previousTypes,
+      nextTypes[next.base],
+      nextTypes,
+      `${path}[]`,
+      false,
+      issues,
+    )
+  if (previous.members) {
+    if (!next.members) {
+      issues.push({ path, severity: 'error', message: `type changed from ${previous.label} to ${next.label}` })
+      return
+    }
+    compareMembers(previous.members, previousTypes, next.members, nextTypes, path, canGrow, issues)
+  }
+
+  const [previousSize, nextSize] = [Number(previous.numberOfBytes), Number(next.numberOfBytes)]
+  if (nextSize !== previousSize && !(canGrow && nextSize > previousSize))
+    issues.push({
+      path,
+      severity: 'error',
+      message: `size changed from ${previousSize} to ${nextSize} bytes, colliding with the following storage`,
+    })
+  else if (!previous.members && !previous.base && previous.label !== next.label)
+    issues.push({ path, severity: 'warning', message: `type relabeled from ${previous.label} to ${next.label}` })
+}
@@ -1,16 +1,16 @@
-import { BigNumberish, utils } from 'ethers'
+import { BigNumber, BigNumberish } from 'ethers'
 import { IMultiInvoker } from '../../types/generated'
 import { InterfaceFeeStruct, TriggerOrderStruct } from '../../types/generated/contracts/MultiInvoker'
 import { ethers } from 'hardhat'
-import { BigNumber, constants } from 'ethers'
+import * as invoke from '../../../common/util/invoke'
 
 export const MAX_INT = ethers.constants.MaxInt256
-export const MIN_INT = ethers.constants.MinInt256
-export const MAX_UINT = ethers.constants.MaxUint256
+export const MIN_INT = invoke.MIN_INT
+export const MAX_UINT = invoke.MAX_UINT
 export const MAX_UINT48 = BigNumber.from('281474976710655')
 export const MAX_UINT64 = BigNumber.from('18446744073709551615')
 export const MAX_INT64 = BigNumber.from('9223372036854775807')
-export const MIN_INT64 = BigNumber.from('-9223372036854775808')
+export const MIN_INT64 = invoke.MIN_INT64
 
 export type OrderStruct = {
   side?: number
@@ -22,6 +22,7 @@ export type OrderStruct = {
 
 export type Actions = IMultiInvoker.InvocationStruct[]
 
+// Unlike the SDK, omitted collateral withdraws all of it
 export const buildUpdateMarket = ({
   market,
   maker,
@@ -40,44 +41,20 @@ export const buildUpdateMarket = ({
   handleWrap?: boolean
   interfaceFee1?: InterfaceFeeStruct
   interfaceFee2?: InterfaceFeeStruct
-}): Actions => {
-  return [
-    {
-      action: 1,
-      args: utils.defaultAbiCoder.encode(
-        [
-          'address',
-          'uint256',
-          'uint256',
-          'uint256',
-          'int256',
-          'bool',
-          'tuple(uint256,address,bool)',
-          'tuple(uint256,address,bool)',
-        ],
-        [
-          market,
-          maker ?? MAX_UINT,
-          long ?? MAX_UINT,
-          short ?? MAX_UINT,
-          collateral ?? MIN_INT,
-          handleWrap ?? false,
-          [
-            interfaceFee1 ? interfaceFee1.amount : 0,
-            interfaceFee1 ? interfaceFee1.receiver : constants.AddressZero,
-            interfaceFee1 ? interfaceFee1.unwrap : false,
-          ],
-          [
-            interfaceFee2 ? interfaceFee2.amount : 0,
-            interfaceFee2 ? interfaceFee2.receiver : constants.AddressZero,
-            interfaceFee2 ? interfaceFee2.unwrap : false,
-          ],
-        ],
-      ),
-    },
-  ]
-}
+}): Actions => [
+  invoke.buildUpdatePosition({
+    market,
+    maker,
+    long,
+    short,
+    collateral: collateral ?? MIN_INT,
+    wrap: handleWrap,
+    interfaceFee1,
+    interfaceFee2,
+  }),
+]
 
+// Updates the position before placing the order
 export const buildPlaceOrder = ({
   market,
   maker,
@@ -94,139 +71,43 @@ export const buildPlaceOrder = ({
   collateral: BigNumberish
   handleWrap?: boolean
   order: TriggerOrderStruct
-}): Actions => {
-  return [
-    {
-      action: 1,
-      args: utils.defaultAbiCoder.encode(
-        [
-          'address',
-          'uint256',
-          'uint256',
-          'uint256',
-          'int256',
-          'bool',
-          'tuple(uint256,address,bool)',
-          'tuple(uint256,address,bool)',
-        ],
-        [
-          market,
-          maker ?? MAX_UINT,
-          long ?? MAX_UINT,
-          short ?? MAX_UINT,
-          collateral ?? MIN_INT,
-          handleWrap ?? false,
-          [0, constants.AddressZero, false],
-          [0, constants.AddressZero, false],
-        ],
-      ),
-    },
-    {
-      action: 3,
-      args: utils.defaultAbiCoder.encode(
-        ['address', 'tuple(uint8,int8,uint256,int256,int256,tuple(uint256,address,bool),tuple(uint256,address,bool))'],
-        [
-          market,
-          [
-            order.side, // default long side
-            order.comparison,
-            order.fee,
-            order.price,
-            order.delta,
-            [order.interfaceFee1.amount, order.interfaceFee1.receiver, order.interfaceFee1.unwrap],
-            [order.interfaceFee2.amount, order.interfaceFee2.receiver, order.interfaceFee2.unwrap],
-          ],
-        ],
-      ),
+}): Actions => [
+  ...buildUpdateMarket({ market, maker, long, short, collateral, handleWrap }),
+  invoke.buildPlaceOrder({
+    market,
+    order: {
+      ...order,
+      side: BigNumber.from(order.side).toNumber(),
+      comparison: BigNumber.from(order.comparison).toNumber(),
     },
-  ]
-}
+  }),
+]
 
-export type VaultUpdate = {
-  vault: string
-  depositAssets?: BigNumberish
-  redeemShares?: BigNumberish
-  claimAssets?: BigNumberish
-  wrap?: boolean
-}
+export type VaultUpdate = invoke.UpdateVault
 
-export const buildUpdateVault = (vaultUpdate: VaultUpdate): Actions => {
-  return [
-    {
-      action: 2,
-      args: utils.defaultAbiCoder.encode(
-        ['address', 'uint256', 'uint256', 'uint256', 'bool'],
-        [
-          vaultUpdate.vault,
-          vaultUpdate.depositAssets ?? '0',
-          vaultUpdate.redeemShares ?? '0',
-          vaultUpdate.claimAssets ?? '0',
-          vaultUpdate.wrap ?? false,
-        ],
-      ),
-    },
-  ]
-}
-
-export const buildLiquidateUser = ({
-  user,
-  market,
-  revertOnFailure,
-}: {
-  market: string
-  user: string
-  revertOnFailure?: boolean
-}): Actions => {
-  return [
-    {
-      action: 7,
-      args: utils.defaultAbiCoder.encode(['address', 'address', 'bool'], [market, user, revertOnFailure ?? true]),
-    },
-  ]
-}
+export const buildUpdateVault = (vaultUpdate: VaultUpdate): Actions => [invoke.buildUpdateVault(vaultUpdate)]
 
-export const buildApproveTarget = (target: string): Actions => {
-  return [
-    {
-      action: 8,
-      args: utils.defaultAbiCoder.encode(['address'], [target]),
-    },
-  ]
-}
+export const buildApproveTarget = (target: string): Actions => [invoke.buildApprove({ target })]
 
-export const buildCancelOrder = ({ market, orderId }: { market: string; orderId: BigNumberish }): Actions => {
-  return [
-    {
-      action: 4,
-      args: utils.defaultAbiCoder.encode(['address', 'uint256'], [market, orderId]),
-    },
-  ]
-}
+export const buildCancelOrder = ({ market, orderId }: { market: string; orderId: BigNumberish }): Actions => [
+  invoke.buildCancelOrder({ market, nonce: orderId }),
+]
 
 export const buildExecOrder = ({
   user,
   market,
   orderId,
-  revertOnFailure,
 }: {
   user: string
   market: string
   orderId: BigNumberish
-  revertOnFailure?: boolean
-}): Actions => {
-  return [
-    {
-      action: 5,
-      args: utils.defaultAbiCoder.encode(
-        ['address', 'address', 'uint256', 'bool'],
-        [user, market, orderId, revertOnFailure ?? true],
-      ),
-    },
-  ]
-}
+}): Actions => [invoke.buildExecOrder({ account: user, market, nonce: orderId })]
+
+export const buildCommitPrice = (commitPrice: invoke.CommitPrice): Actions => [invoke.buildCommitPrice(commitPrice)]
 
 module.exports = {
   MAX_INT,
+  MIN_INT,
   MAX_UINT,
   MAX_UINT48,
   MAX_UINT64,
@@ -236,7 +117,7 @@ module.exports = {
   buildExecOrder,
   buildPlaceOrder,
   buildUpdateMarket,
-  buildLiquidateUser,
   buildUpdateVault,
   buildApproveTarget,
+  buildCommitPrice,
 }
@@ -1,4 +1,4 @@
-import { BigNumber, utils } from 'ethers'
+import { BigNumber } from 'ethers'
 import { InstanceVars, deployProtocol, createMarket, createInvoker, settle } from '../helpers/setupHelpers'
 import { anyValue } from '@nomicfoundation/hardhat-chai-matchers/withArgs'
 
@@ -13,6 +13,7 @@ import {
   MAX_UINT48,
   MAX_UINT64,
   MIN_INT64,
+  buildApproveTarget,
   buildCancelOrder,
   buildExecOrder,
   buildPlaceOrder,
@@ -53,9 +54,7 @@ describe('Orders', () => {
     await chainlink.next()
     settle(market, userB)
 
-    await multiInvoker
-      .connect(userB)
-      .invoke([{ action: 8, args: utils.defaultAbiCoder.encode(['address'], [market.address]) }])
+    await multiInvoker.connect(userB).invoke(buildApproveTarget(market.address))
 
     marketPrice = (await chainlink.oracle.latest()).price
 
@@ -614,7 +613,7 @@ describe('Orders', () => {
     expect((await market.positions(user.address)).maker).to.be.eq(userPosition)
 
     await ethers.provider.send('hardhat_setNextBlockBaseFeePerGas', ['0x1'])
-    let execute = buildExecOrder({ user: user.address, market: market.address, orderId: 1, revertOnFailure: true })
+    let execute = buildExecOrder({ user: user.address, market: market.address, orderId: 1 })
     await expect(multiInvoker.connect(userC).invoke(execute))
       .to.emit(multiInvoker, 'OrderExecuted')
       .withArgs(user.address, market.address, 1)
@@ -639,7 +638,7 @@ describe('Orders', () => {
     expect((await market.positions(user.address)).long).to.be.eq(userPosition)
 
     await ethers.provider.send('hardhat_setNextBlockBaseFeePerGas', ['0x1'])
-    execute = buildExecOrder({ user: user.address, market: market.address, orderId: 2, revertOnFailure: true })
+    execute = buildExecOrder({ user: user.address, market: market.address, orderId: 2 })
     await expect(multiInvoker.connect(userC).invoke(execute))
       .to.emit(multiInvoker, 'OrderExecuted')
       .withArgs(user.address, market.address, 2)
@@ -664,7 +663,7 @@ describe('Orders', () => {
     expect((await market.positions(user.address)).short).to.be.eq(userPosition)
 
     await ethers.provider.send('hardhat_setNextBlockBaseFeePerGas', ['0x1'])
-    execute = buildExecOrder({ user: user.address, market: market.address, orderId: 3, revertOnFailure: true })
+    execute = buildExecOrder({ user: user.address, market: market.address, orderId: 3 })
     await expect(multiInvoker.connect(userC).invoke(execute))
       .to.emit(multiInvoker, 'OrderExecuted')
       .withArgs(user.address, market.address, 3)
@@ -21,6 +21,8 @@ import {
 import { InstanceVars, RESERVE, USDC, createInvoker, createMarket, deployProtocol } from '../helpers/setupHelpers'
 import { parse6decimal } from '../../../../common/testutil/types'
 import { increase } from '../../../../common/testutil/time'
+import { PerennialAction } from '../../../../common/util/invoke'
+import { buildCommitPrice } from '../../helpers/invoke'
 
 const { ethers } = HRE
 
@@ -119,21 +121,22 @@ describe('PythOracleFactory', () => {
 
       // Base fee isn't working properly in coverage, so we need to set it manually
       await ethers.provider.send('hardhat_setNextBlockBaseFeePerGas', ['0x1000'])
-      await multiInvoker.connect(user).invoke(
-        [
+      await multiInvoker
+        .connect(user)
+        .invoke(
+          buildCommitPrice({
+            oracleProviderFactory: pythOracleFactory.address,
+            value: 1,
+            ids: [PYTH_ETH_USD_PRICE_FEED],
+            version: STARTING_TIME,
+            data: VAA,
+            revertOnFailure: true,
+          }),
           {
-            action: 6,
-            args: utils.defaultAbiCoder.encode(
-              ['address', 'uint256', 'bytes32[]', 'uint256', 'bytes', 'bool'],
-              [pythOracleFactory.address, 1, [PYTH_ETH_USD_PRICE_FEED], STARTING_TIME, VAA, true],
-            ),
+            value: 1,
+            gasPrice: 10000,
           },
-        ],
-        {
-          value: 1,
-          gasPrice: 10000,
-        },
-      )
+        )
 
       expect((await keeperOracle.callStatic.latest()).timestamp).to.equal(STARTING_TIME)
       const newDSUBalance = await dsu.callStatic.balanceOf(user.address)
@@ -147,21 +150,22 @@ describe('PythOracleFactory', () => {
 
       // Base fee isn't working properly in coverage, so we need to set it manually
       await ethers.provider.send('hardhat_setNextBlockBaseFeePerGas', ['0x1000'])
-      await multiInvoker.connect(user).invoke(
-        [
+      await multiInvoker
+        .connect(user)
+        .invoke(
+          buildCommitPrice({
+            oracleProviderFactory: pythOracleFactory.address,
+            value: 1,
+            ids: [PYTH_ETH_USD_PRICE_FEED],
+            version: STARTING_TIME,
+            data: VAA,
+            revertOnFailure: true,
+          }),
           {
-            action: 6,
-            args: utils.defaultAbiCoder.encode(
-              ['address', 'uint256', 'bytes32[]', 'uint256', 'bytes', 'bool'],
-              [pythOracleFactory.address, 1, [PYTH_ETH_USD_PRICE_FEED], STARTING_TIME, VAA, true],
-            ),
+            value: 1,
+            gasPrice: 10000,
           },
-        ],
-        {
-          value: 1,
-          gasPrice: 10000,
-        },
-      )
+        )
 
       expect((await keeperOracle.callStatic.latest()).timestamp).to.equal(STARTING_TIME)
       const newDSUBalance = await dsu.callStatic.balanceOf(user.address)
@@ -174,21 +178,22 @@ describe('PythOracleFactory', () => {
       // Base fee isn't working properly in coverage, so we need to set it manually
       await ethers.provider.send('hardhat_setNextBlockBaseFeePerGas', ['0x1000'])
       await expect(
-        multiInvoker.connect(user).invoke(
-          [
+        multiInvoker
+          .connect(user)
+          .invoke(
+            buildCommitPrice({
+              oracleProviderFactory: pythOracleFactory.address,
+              value: 0,
+              ids: [PYTH_ETH_USD_PRICE_FEED],
+              version: STARTING_TIME,
+              data: VAA,
+              revertOnFailure: true,
+            }),
             {
-              action: 6,
-              args: utils.defaultAbiCoder.encode(
-                ['address', 'uint256', 'bytes32[]', 'uint256', 'bytes', 'bool'],
-                [pythOracleFactory.address, 0, [PYTH_ETH_USD_PRICE_FEED], STARTING_TIME, VAA, true],
-              ),
+              value: 1,
+              gasPrice: 10000,
             },
-          ],
-          {
-            value: 1,
-            gasPrice: 10000,
-          },
-        ),
+          ),
       ).to.be.revertedWithoutReason
     })
 
@@ -199,21 +204,22 @@ describe('PythOracleFactory', () => {
 
       // Base fee isn't working properly in coverage, so we need to set it manually
       await ethers.provider.send('hardhat_setNextBlockBaseFeePerGas', ['0x1000'])
-      await multiInvoker.connect(user).invoke(
-        [
+      await multiInvoker
+        .connect(user)
+        .invoke(
+          buildCommitPrice({
+            oracleProviderFactory: pythOracleFactory.address,
+            value: 1,
+            ids: [PYTH_ETH_USD_PRICE_FEED],
+            version: STARTING_TIME,
+            data: VAA,
+            revertOnFailure: false,
+          }),
           {
-            action: 6,
-            args: utils.defaultAbiCoder.encode(
-              ['address', 'uint256', 'bytes32[]', 'uint256', 'bytes', 'bool'],
-              [pythOracleFactory.address, 1, [PYTH_ETH_USD_PRICE_FEED], STARTING_TIME, VAA, false],
-            ),
+            value: 1,
+            gasPrice: 10000,
           },
-        ],
-        {
-          value: 1,
-          gasPrice: 10000,
-        },
-      )
+        )
 
       expect((await keeperOracle.callStatic.latest()).timestamp).to.equal(STARTING_TIME)
       const newDSUBalance = await dsu.callStatic.balanceOf(user.address)
@@ -226,21 +232,22 @@ describe('PythOracleFactory', () => {
       // Base fee isn't working properly in coverage, so we need to set it manually
       await ethers.provider.send('hardhat_setNextBlockBaseFeePerGas', ['0x1000'])
       await expect(
-        multiInvoker.connect(user).invoke(
-          [
+        multiInvoker
+          .connect(user)
+          .invoke(
+            buildCommitPrice({
+              oracleProviderFactory: pythOracleFactory.address,
+              value: 1,
+              ids: [PYTH_ETH_USD_PRICE_FEED],
+              version: STARTING_TIME + 60,
+              data: VAA,
+              revertOnFailure: false,
+            }),
             {
-              action: 6,
-              args: utils.defaultAbiCoder.encode(
-                ['address', 'uint256', 'bytes32[]', 'uint256', 'bytes', 'bool'],
-                [pythOracleFactory.address, 1, [PYTH_ETH_USD_PRICE_FEED], STARTING_TIME + 60, VAA, false],
-              ),
+              value: 1,
+              gasPrice: 10000,
             },
-          ],
-          {
-            value: 1,
-            gasPrice: 10000,
-          },
-        ),
+          ),
       ).to.be.not.reverted
     })
 
@@ -253,7 +260,8 @@ describe('PythOracleFactory', () => {
         multiInvoker.connect(user).invoke(
           [
             {
-              action: 6,
+              // Malformed args with an extra uint256, so they fail to decode
+              action: PerennialAction.COMMIT_PRICE,
               args: utils.defaultAbiCoder.encode(
                 ['address', 'uint256', 'bytes32[]', 'uint256', 'uint256', 'bytes', 'bool'],
                 [pythOracleFactory.address, 1, [PYTH_ETH_USD_PRICE_FEED], 0, STARTING_TIME + 60, FailingVAA, true],
@@ -270,21 +278,22 @@ describe('PythOracleFactory', () => {
       const startingBalance = await user.getBalance()
       // Base fee isn't working properly in coverage, so we need to set it manually
       await ethers.provider.send('hardhat_setNextBlockBaseFeePerGas', ['0x1000'])
-      const tx = await multiInvoker.connect(user).invoke(
-        [
+      const tx = await multiInvoker
+        .connect(user)
+        .invoke(
+          buildCommitPrice({
+            oracleProviderFactory: pythOracleFactory.address,
+            value: 1,
+            ids: [PYTH_ETH_USD_PRICE_FEED],
+            version: STARTING_TIME + 60,
+            data: FailingVAA,
+            revertOnFailure: false,
+          }),
           {
-            action: 6,
-            args: utils.defaultAbiCoder.encode(
-              ['address', 'uint256', 'bytes32[]', 'uint256', 'bytes', 'bool'],
-              [pythOracleFactory.address, 1, [PYTH_ETH_USD_PRICE_FEED], STARTING_TIME + 60, FailingVAA, false],
-            ),
+            value: 1,
+            gasPrice: 10000,
           },
-        ],
-        {
-          value: 1,
-          gasPrice: 10000,
-        },
-      )
+        )
       expect(tx).to.not.be.reverted
       const receipt = await tx.wait()
 
@@ -298,35 +307,40 @@ describe('PythOracleFactory', () => {
 
       // Base fee isn't working properly in coverage, so we need to set it manually
       await ethers.provider.send('hardhat_setNextBlockBaseFeePerGas', ['0x1000'])
-      await multiInvoker.connect(user).invoke(
-        [
-          {
-            action: 6,
-            args: utils.defaultAbiCoder.encode(
-              ['address', 'uint256', 'bytes32[]', 'uint256', 'bytes', 'bool'],
-              [pythOracleFactory.address, 1, [PYTH_ETH_USD_PRICE_FEED], STARTING_TIME + 60, FailingVAA, false],
-            ),
-          },
-          {
-            action: 6,
-            args: utils.defaultAbiCoder.encode(
-              ['address', 'uint256', 'bytes32[]', 'uint256', 'bytes', 'bool'],
-              [pythOracleFactory.address, 1, [PYTH_ETH_USD_PRICE_FEED], STARTING_TIME + 60, FailingVAA, false],
-            ),
-          },
+      await multiInvoker
+        .connect(user)
+        .invoke(
+          [
+            ...buildCommitPrice({
+              oracleProviderFactory: pythOracleFactory.address,
+              value: 1,
+              ids: [PYTH_ETH_USD_PRICE_FEED],
+              version: STARTING_TIME + 60,
+              data: FailingVAA,
+              revertOnFailure: false,
+            }),
+            ...buildCommitPrice({
+              oracleProviderFactory: pythOracleFactory.address,
+              value: 1,
+              ids: [PYTH_ETH_USD_PRICE_FEED],
+              version: STARTING_TIME + 60,
+              data: FailingVAA,
+              revertOnFailure: false,
+            }),
+            ...buildCommitPrice({
+              oracleProviderFactory: pythOracleFactory.address,
+              value: 1,
+              ids: [PYTH_ETH_USD_PRICE_FEED],
+              version: STARTING_TIME,
+              data: VAA,
+              revertOnFailure: true,
+            }),
+          ],
           {
-            action: 6,
-            args: utils.defaultAbiCoder.encode(
-              ['address', 'uint256', 'bytes32[]', 'uint256', 'bytes', 'bool'],
-              [pythOracleFactory.address, 1, [PYTH_ETH_USD_PRICE_FEED], STARTING_TIME, VAA, true],
-            ),
+            value: 1,
+            gasPrice: 10000,
           },
-        ],
-        {
-          value: 1,
-          gasPrice: 10000,
-        },
-      )
+        )
 
       expect((await keeperOracle.callStatic.latest()).timestamp).to.equal(STARTING_TIME)
       const newDSUBalance = await dsu.callStatic.balanceOf(user.address)
@@ -2,7 +2,7 @@ import { FakeContract, smock } from '@defi-wonderland/smock'
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
 import { expect, use } from 'chai'
 import HRE from 'hardhat'
-import { BigNumber, constants, utils } from 'ethers'
+import { BigNumber, constants } from 'ethers'
 
 import {
   IMarket,
@@ -24,6 +24,7 @@ import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
 import {
   buildPlaceOrder,
   type Actions,
+  buildApproveTarget,
   buildCancelOrder,
   buildUpdateMarket,
   buildUpdateVault,
@@ -289,7 +290,7 @@ describe('MultiInvoker_Optimism', () => {
 
     it('approves market and vault', async () => {
       // approve address not deployed from either factory fails
-      let i: Actions = [{ action: 8, args: utils.defaultAbiCoder.encode(['address'], [user.address]) }]
+      let i: Actions = buildApproveTarget(user.address)
 
       await expect(multiInvoker.connect(owner).invoke(i)).to.have.been.revertedWithCustomError(
         multiInvoker,
@@ -297,12 +298,12 @@ describe('MultiInvoker_Optimism', () => {
       )
 
       // approve market succeeds
-      i = [{ action: 8, args: utils.defaultAbiCoder.encode(['address'], [market.address]) }]
+      i = buildApproveTarget(market.address)
       await expect(multiInvoker.connect(user).invoke(i)).to.not.be.reverted
       expect(dsu.approve).to.have.been.calledWith(market.address, constants.MaxUint256)
 
       // approve vault succeeds
-      i = [{ action: 8, args: utils.defaultAbiCoder.encode(['address'], [vault.address]) }]
+      i = buildApproveTarget(vault.address)
       await expect(multiInvoker.connect(user).invoke(i)).to.not.be.reverted
       expect(dsu.approve).to.have.been.calledWith(vault.address, constants.MaxUint256)
     })
@@ -0,0 +1,336 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import HRE from 'hardhat'
+
+import {
+  LocalTester,
+  LocalTester__factory,
+  OrderTester,
+  OrderTester__factory,
+  PositionGlobalTester,
+  PositionGlobalTester__factory,
+  VersionTester,
+  VersionTester__factory,
+} from '../../../types/generated'
+import { BigNumber, BigNumberish } from 'ethers'
+import { parse6decimal } from '../../../../common/testutil/types'
+import { VALID_MARKET_PARAMETER } from './MarketParameter.test'
+import { VALID_RISK_PARAMETER } from './RiskParameter.test'
+import {
+  applyOrder,
+  efficiency,
+  liquidationFee,
+  longSocialized,
+  magnitude,
+  maintenance,
+  major,
+  margin,
+  minor,
+  net,
+  orderTo,
+  relativeSkew,
+  shortSocialized,
+  socialized,
+  staticSkew,
+  takerSocialized,
+  utilization,
+} from '../../../../common/util/position'
+import { Order, registerFee } from '../../../../common/util/order'
+import { Version, accumulate } from '../../../../common/util/version'
+import { accumulateLocal } from '../../../../common/util/local'
+
+const { ethers } = HRE
+
+// Differentially fuzzes the off-chain position math in perennial-deploy against the Solidity types
+const SEED = Number(process.env.FUZZ_SEED ?? 1)
+const ITERATIONS = Number(process.env.FUZZ_ITERATIONS ?? 25)
+
+const UPDATE_ORDER =
+  'update(uint256,(int256,int256,int256,int256,uint256,int256,int256,int256,int256,uint256),(uint256,uint256,uint256,uint256,uint256,uint256,uint256,uint256,uint256,uint256,uint256,uint256,(uint256,uint256,uint256,uint256),(uint256,uint256),uint256,uint256,uint256,uint256,bool))'
+
+const BASE_POSITION = {
+  timestamp: 2,
+  maker: 0,
+  long: 0,
+  short: 0,
+  fee: 0,
+  keeper: 0,
+  collateral: 0,
+  delta: 0,
+  invalidation: {
+    maker: 0,
+    long: 0,
+    short: 0,
+  },
+}
+
+const GLOBAL = {
+  currentId: 1,
+  latestId: 1,
+  protocolFee: 0,
+  oracleFee: 0,
+  riskFee: 0,
+  donation: 0,
+  pAccumulator: {
+    _value: 0,
+    _skew: 0,
+  },
+  latestPrice: 0,
+  latestInvalidation: {
+    maker: 0,
+    long: 0,
+    short: 0,
+  },
+}
+
+// mulberry32, so a failing run can be reproduced from its seed
+function generator(seed: number) {
+  let state = seed >>> 0
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  // draws from [min, max], landing on the bounds and zero more often to cover the edge cases of each formula
+  const between = (min: BigNumberish, max: BigNumberish): BigNumber => {
+    const [min_, max_] = [BigNumber.from(min), BigNumber.from(max)]
+    const roll = next()
+    if (roll < 0.1) return min_
+    if (roll < 0.2) return max_
+    if (roll < 0.3 && min_.lte(0) && max_.gte(0)) return BigNumber.from(0)
+    const random = BigNumber.from(Math.floor(next() * 2 ** 32))
+      .shl(32)
+      .add(Math.floor(next() * 2 ** 32))
+    return min_.add(random.mod(max_.sub(min_).add(1)))
+  }
+  const bool = () => next() < 0.5
+
+  return { between, bool }
+}
+
+describe('Position math', () => {
+  const { between, bool } = generator(SEED)
+
+  // sizes of at least one unit keep the accumulated per-unit values within their storage bounds
+  const size = () => (bool() ? BigNumber.from(0) : between(parse6decimal('1'), parse6decimal('1000000')))
+  const ratio = () => between(0, parse6decimal('1'))
+  const price = () => between(parse6decimal('-10000'), parse6decimal('10000'))
+  const randomPosition = () => ({ maker: size(), long: size(), short: size() })
+  const randomRiskParameter = () => ({
+    ...VALID_RISK_PARAMETER,
+    margin: ratio(),
+    maintenance: ratio(),
+    takerFee: ratio(),
+    takerSkewFee: ratio(),
+    takerImpactFee: ratio(),
+    makerFee: ratio(),
+    makerImpactFee: ratio(),
+    liquidationFee: ratio(),
+    minLiquidationFee: between(0, parse6decimal('100')),
+    maxLiquidationFee: between(parse6decimal('100'), parse6decimal('1000')),
+    utilizationCurve: {
+      minRate: ratio(),
+      maxRate: ratio(),
+      targetRate: ratio(),
+      targetUtilization: ratio(),
+    },
+    pController: {
+      k: between(1, parse6decimal('1000')),
+      max: between(0, parse6decimal('10')),
+    },
+    minMargin: between(0, parse6decimal('100')),
+    minMaintenance: between(0, parse6decimal('100')),
+    skewScale: between(0, parse6decimal('1000000')),
+    makerReceiveOnly: bool(),
+  })
+  const randomMarketParameter = () => ({
+    ...VALID_MARKET_PARAMETER,
+    fundingFee: ratio(),
+    interestFee: ratio(),
+    positionFee: ratio(),
+    settlementFee: between(0, parse6decimal('10')),
+    closed: bool() && bool(),
+  })
+  const randomOracleVersion = (timestamp: BigNumberish) => ({
+    timestamp,
+    price: price(),
+    valid: bool(),
+  })
+  const randomVersion = (): Version => ({
+    valid: true,
+    makerValue: { _value: between(parse6decimal('-100'), parse6decimal('100')) },
+    longValue: { _value: between(parse6decimal('-100'), parse6decimal('100')) },
+    shortValue: { _value: between(parse6decimal('-100'), parse6decimal('100')) },
+    makerReward: { _value: between(0, parse6decimal('100')) },
+    longReward: { _value: between(0, parse6decimal('100')) },
+    shortReward: { _value: between(0, parse6decimal('100')) },
+  })
+
+  let owner: SignerWithAddress
+  let position: PositionGlobalTester
+  let order: OrderTester
+  let version: VersionTester
+  let local: LocalTester
+
+  beforeEach(async () => {
+    ;[owner] = await ethers.getSigners()
+
+    position = await new PositionGlobalTester__factory(owner).deploy()
+    order = await new OrderTester__factory(owner).deploy()
+    version = await new VersionTester__factory(owner).deploy()
+    local = await new LocalTester__factory(owner).deploy()
+  })
+
+  describe('Position', () => {
+    it('matches the computed attributes', async () => {
+      for (let i = 0; i < ITERATIONS; i++) {
+        const sizes = randomPosition()
+        const riskParameter = randomRiskParameter()
+        const latestVersion = randomOracleVersion(12345)
+        await position.store({ ...BASE_POSITION, ...sizes })
+
+        const m = `iteration ${i} (seed ${SEED})`
+        expect(await position.magnitude()).to.equal(magnitude(sizes), m)
+        expect(await position.major()).to.equal(major(sizes), m)
+        expect(await position.minor()).to.equal(minor(sizes), m)
+        expect(await position.net()).to.equal(net(sizes), m)
+        expect(await position.relativeSkew()).to.equal(relativeSkew(sizes), m)
+        expect(await position.staticSkew(riskParameter)).to.equal(staticSkew(sizes, riskParameter), m)
+        expect(await position.utilization()).to.equal(utilization(sizes), m)
+        expect(await position.longSocialized()).to.equal(longSocialized(sizes), m)
+        expect(await position.shortSocialized()).to.equal(shortSocialized(sizes), m)
+        expect(await position.takerSocialized()).to.equal(takerSocialized(sizes), m)
+        expect(await position.efficiency()).to.equal(efficiency(sizes), m)
+        expect(await position.socialized()).to.equal(socialized(sizes), m)
+        expect(await position.maintenance(latestVersion, riskParameter)).to.equal(
+          maintenance(magnitude(sizes), BigNumber.from(latestVersion.price), riskParameter),
+          m,
+        )
+        expect(await position.margin(latestVersion, riskParameter)).to.equal(
+          margin(magnitude(sizes), BigNumber.from(latestVersion.price), riskParameter),
+          m,
+        )
+      }
+    })
+
+    it('matches order updates', async () => {
+      for (let i = 0; i < ITERATIONS; i++) {
+        const sizes = randomPosition()
+        const newSizes = randomPosition()
+        const riskParameter = randomRiskParameter()
+        const newOrder = orderTo(sizes, newSizes)
+        await position.store({ ...BASE_POSITION, ...sizes })
+
+        const m = `iteration ${i} (seed ${SEED})`
+        const expected = await position.callStatic[UPDATE_ORDER](123456, newOrder, riskParameter)
+        const actual = applyOrder(sizes, newOrder, riskParameter)
+        expect(actual.position.maker).to.equal(newSizes.maker, m)
+        expect(actual.position.long).to.equal(newSizes.long, m)
+        expect(actual.position.short).to.equal(newSizes.short, m)
+        expect(actual.order.net).to.equal(expected.net, m)
+        expect(actual.order.skew).to.equal(expected.skew, m)
+        expect(actual.order.impact).to.equal(expected.impact, m)
+        expect(actual.order.utilization).to.equal(expected.utilization, m)
+        expect(actual.order.efficiency).to.equal(expected.efficiency, m)
+      }
+    })
+  })
+
+  describe('Order', () => {
+    it('matches registered fees', async () => {
+      for (let i = 0; i < ITERATIONS; i++) {
+        const newOrder: Order = {
+          ...orderTo(randomPosition(), randomPosition()),
+          skew: between(0, parse6decimal('2')),
+          impact: between(parse6decimal('-1'), parse6decimal('1')),
+          utilization: between(parse6decimal('-1'), parse6decimal('1')),
+        }
+        const latestVersion = randomOracleVersion(12345)
+        const marketParameter = randomMarketParameter()
+        const riskParameter = randomRiskParameter()
+
+        const m = `iteration ${i} (seed ${SEED})`
+        const expected = await order.registerFee(newOrder, latestVersion, marketParameter, riskParameter)
+        const actual = registerFee(newOrder, latestVersion.price, marketParameter, riskParameter)
+        expect(actual.fee).to.equal(expected.fee, m)
+        expect(actual.keeper).to.equal(expected.keeper, m)
+        expect(liquidationFee(newOrder, latestVersion.price, riskParameter)).to.equal(
+          await order.liquidationFee(newOrder, latestVersion, riskParameter),
+          m,
+        )
+      }
+    })
+  })
+
+  describe('Version', () => {
+    it('matches accumulated values', async () => {
+      for (let i = 0; i < ITERATIONS; i++) {
+        const fromVersion = randomVersion()
+        const pAccumulator = {
+          _value: between(parse6decimal('-20'), parse6decimal('20')),
+          _skew: between(parse6decimal('-1'), parse6decimal('1')),
+        }
+        const fromPosition = { ...BASE_POSITION, ...randomPosition() }
+        const toPosition = {
+          ...BASE_POSITION,
+          ...randomPosition(),
+          fee: between(parse6decimal('-1000'), parse6decimal('1000')),
+        }
+        const fromOracleVersion = randomOracleVersion(1636401093)
+        const toOracleVersion = randomOracleVersion(between(1636401093, 1636401093 + 86400))
+        const marketParameter = randomMarketParameter()
+        const riskParameter = randomRiskParameter()
+        await version.store(fromVersion)
+
+        const m = `iteration ${i} (seed ${SEED})`
+        const args = [
+          { ...GLOBAL, pAccumulator },
+          fromPosition,
+          toPosition,
+          fromOracleVersion,
+          toOracleVersion,
+          marketParameter,
+          riskParameter,
+        ] as const
+        const expected = await version.callStatic.accumulate(...args).catch(() => undefined)
+        const compute = () =>
+          accumulate(
+            fromVersion,
+            pAccumulator,
+            fromPosition,
+            toPosition,
+            fromOracleVersion,
+            toOracleVersion,
+            marketParameter,
+            riskParameter,
+          )
+        if (!expected) {
+          expect(compute, m).to.throw()
+          continue
+        }
+
+        const actual = compute()
+        for (const key of Object.keys(actual.values) as (keyof typeof actual.values)[])
+          expect(actual.values[key]).to.equal(expected.values[key], `${key} ${m}`)
+        expect(actual.totalFee).to.equal(expected.totalFee, m)
+
+        await version.accumulate(...args)
+        const stored = await version.read()
+        expect(actual.version.valid).to.equal(stored.valid, m)
+        expect(actual.version.makerValue._value).to.equal(stored.makerValue._value, m)
+        expect(actual.version.longValue._value).to.equal(stored.longValue._value, m)
+        expect(actual.version.shortValue._value).to.equal(stored.shortValue._value, m)
+
+        const expectedLocal = await local.callStatic.accumulate(1, fromPosition, toPosition, fromVersion, stored)
+        const actualLocal = accumulateLocal(fromPosition, toPosition, fromVersion, actual.version)
+        expect(actualLocal.collateralAmount).to.equal(expectedLocal.collateralAmount, m)
+        expect(actualLocal.rewardAmount).to.equal(expectedLocal.rewardAmount, m)
+        expect(actualLocal.positionFee).to.equal(expectedLocal.positionFee, m)
+        expect(actualLocal.keeper).to.equal(expectedLocal.keeper, m)
+      }
+    })
+  })
+})